@@ -0,0 +1,350 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// The assistant that reads promo text into form fields and search queries into filters, behind an
+// interface with a Gemini implementation and an on-device one that needs no network or API key.
+
+import type { GoogleGenAI, Schema, Type } from '@google/genai';
+import { DAY_CODES, FILTER_FLAGS, type FilterFlag, SORT_ORDERS, type SortOrder, type TimeRange, WEEKDAY_CODES, type WeeklySchedule } from './types.ts';
+import { isValidTimeString, normalizeTag } from './validation.ts';
+
+const GEMINI_MODEL = 'gemini-2.5-flash';
+
+/** What the assistant could read from a bar's promo text. */
+export interface ParsedSpecials {
+    schedule: WeeklySchedule;
+    hasFood: boolean;
+    // A cleaned-up, one-paragraph summary of the deals
+    specials: string;
+}
+
+/** Filters, search text and sort order read from a natural-language query. */
+export interface ParsedQuery {
+    search: string;
+    filters: Partial<Record<FilterFlag, boolean>>;
+    tags: string[];
+    sortOrder?: SortOrder;
+    // A landmark or venue name to measure distances from
+    near?: string;
+    // Only keep happy hours still running after this Key West time today ("HH:MM")
+    openAfter?: string;
+    // The price ceiling for deal items, in dollars
+    maxPrice?: number;
+}
+
+/** Turns free text into form fields and filters. Swappable so the features work and can be tested offline. */
+export interface AssistantClient {
+    parseSpecials(text: string): Promise<ParsedSpecials>;
+    parseQuery(query: string, knownTags: string[], knownPlaces: string[]): Promise<ParsedQuery>;
+}
+
+/**
+ * Builds a weekly schedule from (days, time range) pairs, merging ranges that share a day.
+ * Entries with unknown days or malformed times are dropped.
+ * @param entries The schedule entries.
+ */
+function scheduleFromEntries(entries: { days: string[]; start: string; end: string }[]): WeeklySchedule {
+    const schedule: WeeklySchedule = {};
+    entries.forEach(entry => {
+        if (!isValidTimeString(entry.start) || !isValidTimeString(entry.end)) return;
+        entry.days.filter(day => DAY_CODES.includes(day)).forEach(day => {
+            const ranges = schedule[day] ?? (schedule[day] = []);
+            if (!ranges.some(r => r.start === entry.start && r.end === entry.end)) {
+                ranges.push({ start: entry.start, end: entry.end });
+            }
+        });
+    });
+    return schedule;
+}
+
+/**
+ * Reads a value as a JSON object, or an empty one if it's anything else.
+ * @param value The parsed JSON value.
+ */
+function asRecord(value: unknown): Record<string, unknown> {
+    return value !== null && typeof value === 'object' && !Array.isArray(value) ? value as Record<string, unknown> : {};
+}
+
+/**
+ * Reads the assistant's reply to a specials request, keeping only the parts that have the expected shape.
+ * @param result The parsed JSON reply.
+ */
+export function readParsedSpecials(result: unknown): ParsedSpecials {
+    const data = asRecord(result);
+    const entries = (Array.isArray(data.schedule) ? data.schedule : []).flatMap(value => {
+        const entry = asRecord(value);
+        const days = Array.isArray(entry.days) ? entry.days.filter((day): day is string => typeof day === 'string') : [];
+        return typeof entry.start === 'string' && typeof entry.end === 'string' ? [{ days, start: entry.start, end: entry.end }] : [];
+    });
+    return {
+        schedule: scheduleFromEntries(entries),
+        hasFood: data.hasFood === true,
+        specials: typeof data.specials === 'string' ? data.specials.trim() : '',
+    };
+}
+
+/**
+ * Reads the assistant's reply to a search query, keeping only the parts that have the expected shape
+ * and refer to tags and places that exist.
+ * @param result The parsed JSON reply.
+ * @param knownTags The tags in use.
+ * @param knownPlaces The landmarks and venues distances can be measured from.
+ */
+export function readParsedQuery(result: unknown, knownTags: string[], knownPlaces: string[]): ParsedQuery {
+    const data = asRecord(result);
+    const filters: Partial<Record<FilterFlag, boolean>> = {};
+    FILTER_FLAGS.forEach(flag => {
+        if (data[flag] === true) filters[flag] = true;
+    });
+    const sortOrder = SORT_ORDERS.find(order => order === data.sortOrder);
+    const near = knownPlaces.find(place => place === data.near);
+    return {
+        search: typeof data.search === 'string' ? data.search.trim() : '',
+        filters,
+        tags: Array.isArray(data.tags) ? data.tags.map(t => normalizeTag(String(t))).filter(t => knownTags.includes(t)) : [],
+        sortOrder,
+        near,
+        openAfter: isValidTimeString(data.openAfter) ? data.openAfter : undefined,
+        maxPrice: typeof data.maxPrice === 'number' && data.maxPrice > 0 ? data.maxPrice : undefined,
+    };
+}
+
+/**
+ * Creates an assistant backed by the Gemini API, using structured (JSON schema) output.
+ * The SDK is only downloaded when the assistant is first used, so the app starts without it.
+ * @param apiKey The Gemini API key.
+ */
+export function createGeminiAssistantClient(apiKey: string): AssistantClient {
+    let ai: GoogleGenAI | null = null;
+
+    async function generateJson(prompt: string, buildSchema: (type: typeof Type) => Schema): Promise<unknown> {
+        const genai = await import('@google/genai');
+        ai ??= new genai.GoogleGenAI({ apiKey });
+        const response = await ai.models.generateContent({
+            model: GEMINI_MODEL,
+            contents: prompt,
+            config: { responseMimeType: 'application/json', responseSchema: buildSchema(genai.Type) },
+        });
+        return JSON.parse(response.text ?? '{}');
+    }
+
+    return {
+        async parseSpecials(text) {
+            const result = await generateJson(
+                `Read this Key West bar's happy hour promo text and extract its weekly schedule, whether food deals are offered, ` +
+                `and a short, clean summary of the drink and food specials (no days or times in the summary). ` +
+                `Use 24-hour "HH:MM" times; a range ending after midnight ends on the next day, e.g. 22:00 to 02:00.\n\n${text}`,
+                Type => ({
+                    type: Type.OBJECT,
+                    properties: {
+                        schedule: {
+                            type: Type.ARRAY,
+                            items: {
+                                type: Type.OBJECT,
+                                properties: {
+                                    days: { type: Type.ARRAY, items: { type: Type.STRING, enum: DAY_CODES } },
+                                    start: { type: Type.STRING, description: 'Start time, "HH:MM"' },
+                                    end: { type: Type.STRING, description: 'End time, "HH:MM"' },
+                                },
+                                required: ['days', 'start', 'end'],
+                            },
+                        },
+                        hasFood: { type: Type.BOOLEAN },
+                        specials: { type: Type.STRING },
+                    },
+                    required: ['schedule', 'hasFood', 'specials'],
+                }),
+            );
+            return readParsedSpecials(result);
+        },
+
+        async parseQuery(query, knownTags, knownPlaces) {
+            const result = await generateJson(
+                `Turn this search for Key West happy hours into filters. Only set a filter the query asks for. ` +
+                `"search" holds words that must appear in a venue's name, address or specials (e.g. "oysters"), not general words like "cheap" or "bar". ` +
+                `Known tags: ${knownTags.join(', ') || 'none'}. Known places: ${knownPlaces.join(', ')}. ` +
+                `"openAfter" is a 24-hour "HH:MM" time; assume afternoon or evening for bare hours like "after 5".\n\nQuery: ${query}`,
+                Type => ({
+                    type: Type.OBJECT,
+                    properties: {
+                        search: { type: Type.STRING },
+                        activeNow: { type: Type.BOOLEAN },
+                        activeWithin30Mins: { type: Type.BOOLEAN },
+                        hasFood: { type: Type.BOOLEAN },
+                        isFavorite: { type: Type.BOOLEAN },
+                        walkable: { type: Type.BOOLEAN },
+                        notVisitedLately: { type: Type.BOOLEAN, description: "Places the user hasn't been to in a while" },
+                        tags: { type: Type.ARRAY, items: { type: Type.STRING } },
+                        sortOrder: { type: Type.STRING, enum: [...SORT_ORDERS] },
+                        near: { type: Type.STRING, enum: knownPlaces },
+                        openAfter: { type: Type.STRING },
+                        maxPrice: { type: Type.NUMBER, description: 'Highest deal price in dollars, e.g. 5 for "under $5"' },
+                    },
+                    required: ['search'],
+                }),
+            );
+            return readParsedQuery(result, knownTags, knownPlaces);
+        },
+    };
+}
+
+const DAY_NAME_PATTERN = '(mon(?:day)?|tue(?:s(?:day)?)?|wed(?:nesday)?|thu(?:rs?(?:day)?)?|fri(?:day)?|sat(?:urday)?|sun(?:day)?)';
+// A time range such as "4-7pm", "11am to 2pm" or "16:00–19:00"
+const TIME_RANGE_PATTERN = /\b(\d{1,2})(?::(\d{2}))?\s*(am|pm)?\s*(?:-|–|to|until|till)\s*(\d{1,2})(?::(\d{2}))?\s*(am|pm)?/gi;
+const FOOD_PATTERN = /\b(food|eats?|apps?|appetizers?|bites|wings|oysters|tacos|sliders|nachos|fries|shrimp|fish|burgers?|raw bar|small plates|snacks)\b/i;
+
+/**
+ * Converts a loosely written clock time ("4", "4:30", "4pm", "16:00") into "HH:MM".
+ * @param hour The hour as written.
+ * @param minute The minutes as written, if any.
+ * @param meridiem "am" or "pm", if given.
+ */
+function toTimeString(hour: number, minute: number, meridiem: string | undefined): string {
+    let h = hour;
+    if (meridiem === 'pm' && h < 12) h += 12;
+    if (meridiem === 'am' && h === 12) h = 0;
+    return `${String(h % 24).padStart(2, '0')}:${String(minute).padStart(2, '0')}`;
+}
+
+/**
+ * Finds time ranges such as "4-7pm", "11am to 2pm" or "16:00–19:00" in a piece of text.
+ * Bare hours without am/pm are read as afternoon or evening, since that's when happy hours run.
+ * @param text The text to search.
+ */
+function findTimeRanges(text: string): TimeRange[] {
+    const ranges: TimeRange[] = [];
+    for (const match of text.matchAll(TIME_RANGE_PATTERN)) {
+        const [startHour, startMinute, endHour, endMinute] = [match[1], match[2], match[4], match[5]].map(v => parseInt(v ?? '0', 10));
+        if (startHour > 23 || endHour > 23 || startMinute > 59 || endMinute > 59) continue;
+        let startMeridiem = match[3]?.toLowerCase();
+        let endMeridiem = match[6]?.toLowerCase();
+        // "16:00-19:00" or "09:00-11:00" are 24-hour times; "4-7" and "4:30-7pm" are not.
+        const is24Hour = !startMeridiem && !endMeridiem && (startHour > 12 || endHour > 12 || /^0\d/.test(match[1]));
+        if (!is24Hour) {
+            if (!endMeridiem) endMeridiem = 'pm';
+            // "11-2pm" starts in the morning; "4-7pm" starts in the afternoon.
+            if (!startMeridiem) startMeridiem = endMeridiem === 'pm' && startHour % 12 > endHour % 12 ? 'am' : endMeridiem;
+        }
+        ranges.push({
+            start: toTimeString(startHour, startMinute, is24Hour ? undefined : startMeridiem),
+            end: toTimeString(endHour, endMinute, is24Hour ? undefined : endMeridiem),
+        });
+    }
+    return ranges;
+}
+
+/**
+ * Finds the days mentioned in a piece of text: day names, day ranges ("Mon–Fri"),
+ * and words like "daily", "weekdays" and "weekends".
+ * @param text The text to search.
+ */
+function findDays(text: string): string[] {
+    const lower = text.toLowerCase();
+    if (/\b(daily|every ?day|7 days|seven days)\b/.test(lower)) return [...DAY_CODES];
+
+    const days = new Set<string>();
+    if (/\bweekdays?\b/.test(lower)) WEEKDAY_CODES.forEach(d => days.add(d));
+    if (/\bweekends?\b/.test(lower)) ['Sat', 'Sun'].forEach(d => days.add(d));
+
+    const toCode = (name: string) => DAY_CODES.find(code => name.toLowerCase().startsWith(code.toLowerCase()))!;
+    const rangePattern = new RegExp(`\\b${DAY_NAME_PATTERN}\\s*(?:-|–|to|thru|through)\\s*${DAY_NAME_PATTERN}\\b`, 'gi');
+    const withoutRanges = lower.replace(rangePattern, (_, from: string, to: string) => {
+        const start = DAY_CODES.indexOf(toCode(from));
+        const end = DAY_CODES.indexOf(toCode(to));
+        for (let i = start; ; i = (i + 1) % 7) {
+            days.add(DAY_CODES[i]);
+            if (i === end) break;
+        }
+        return ' ';
+    });
+    for (const match of withoutRanges.matchAll(new RegExp(`\\b${DAY_NAME_PATTERN}s?\\b`, 'gi'))) {
+        days.add(toCode(match[1]));
+    }
+    return DAY_CODES.filter(d => days.has(d));
+}
+
+/**
+ * An assistant that runs entirely on the device, using simple pattern matching.
+ * Less capable than Gemini, but needs no network or API key.
+ */
+export const localAssistantClient: AssistantClient = {
+    async parseSpecials(text) {
+        // Read the text a line (or clause) at a time, so each set of hours is paired with the days next to it.
+        // Lines with hours but no days use the days from the line before, or every day if none came first.
+        const entries: { days: string[]; start: string; end: string }[] = [];
+        const summary: string[] = [];
+        let lastDays: string[] = [...DAY_CODES];
+        text.split(/\n|;|\|/).map(line => line.replace(/^[\s•*\-–]+/, '').trim()).filter(Boolean).forEach(line => {
+            const days = findDays(line);
+            const ranges = findTimeRanges(line);
+            if (days.length > 0) lastDays = days;
+            ranges.forEach(range => entries.push({ days: lastDays, ...range }));
+
+            // Keep whatever is left once the days and hours are taken out as part of the specials summary.
+            const rest = line
+                .replace(TIME_RANGE_PATTERN, '')
+                .replace(new RegExp(`\\b${DAY_NAME_PATTERN}s?\\b|\\b(daily|every ?day|weekdays?|weekends?|happy hours?)\\b`, 'gi'), '')
+                .replace(/[\s,&]+(?=:)/g, '')
+                .replace(/^[\s,:–—\-&]+|[\s,:–—\-&]+$/g, '')
+                .replace(/\s{2,}/g, ' ');
+            if (/[a-z0-9]{2,}/i.test(rest)) summary.push(rest);
+        });
+
+        return {
+            schedule: scheduleFromEntries(entries),
+            hasFood: FOOD_PATTERN.test(text),
+            specials: summary.join('; '),
+        };
+    },
+
+    async parseQuery(query, knownTags, knownPlaces) {
+        let rest = ` ${query.toLowerCase()} `;
+        const take = (pattern: RegExp): RegExpMatchArray | null => {
+            const match = rest.match(pattern);
+            if (match) rest = rest.replace(pattern, ' ');
+            return match;
+        };
+
+        const parsed: ParsedQuery = { search: '', filters: {}, tags: [] };
+
+        const place = knownPlaces.find(p => rest.includes(p.toLowerCase()));
+        if (place) {
+            parsed.near = place;
+            take(new RegExp(`\\b(near|by|around|close to)?\\s*(the )?${place.toLowerCase().replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}`));
+        }
+        const after = take(/\b(?:after|from|past)\s+(\d{1,2})(?::(\d{2}))?\s*(am|pm)?\b/);
+        if (after) {
+            const hour = parseInt(after[1], 10);
+            const meridiem = after[3] ?? (hour < 12 ? 'pm' : undefined);
+            if (hour <= 23) parsed.openAfter = toTimeString(hour, parseInt(after[2] ?? '0', 10), meridiem);
+        }
+
+        if (take(/\b(right now|open now|now|active)\b/)) parsed.filters.activeNow = true;
+        if (take(/\b(soon|starting soon|in 30( min(ute)?s?)?)\b/)) parsed.filters.activeWithin30Mins = true;
+        if (take(/\b(my )?favou?rites?\b/)) parsed.filters.isFavorite = true;
+        if (take(/\b(haven'?t been( to)?( in a while)?|not been( to)?( lately)?|somewhere new|new to me)\b/)) parsed.filters.notVisitedLately = true;
+        if (take(/\b(walkable|walking distance|within walking|near me|nearby|close by)\b/)) parsed.filters.walkable = true;
+        const under = take(/\b(?:under|below|less than|max|up to)\s+\$?(\d+(?:\.\d{1,2})?)\b/);
+        if (under) parsed.maxPrice = parseFloat(under[1]);
+        if (take(/\b(best|top[- ]rated|highest[- ]rated|good)\b/)) parsed.sortOrder = 'rating';
+        if (take(/\b(cheap|cheapest|inexpensive|budget)\b/)) parsed.sortOrder = 'cheapestDrink';
+        if (FOOD_PATTERN.test(rest)) parsed.filters.hasFood = true;
+        // Generic food words only set the filter; specific dishes ("oysters") are also searched for.
+        take(/\b(food|eats?|something to eat|snacks)\b/);
+
+        knownTags.forEach(tag => {
+            if (rest.includes(tag)) {
+                parsed.tags.push(tag);
+                rest = rest.replace(tag, ' ');
+            }
+        });
+
+        const stopWords = new Set(['a', 'an', 'the', 'and', 'or', 'with', 'for', 'in', 'at', 'on', 'to', 'of', 'me', 'some', 'any',
+            'deal', 'deals', 'special', 'specials', 'happy', 'hour', 'hours', 'bar', 'bars', 'place', 'places',
+            'spot', 'spots', 'drinks', 'drink', 'where', 'find', 'show', 'today', 'tonight', 'near', 'around', 'open', 'that', 'has', 'have']);
+        parsed.search = rest.split(/[^a-z0-9'&]+/).filter(word => word.length > 1 && !stopWords.has(word)).join(' ');
+        return parsed;
+    },
+};
@@ -0,0 +1,176 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// Bar crawl planning: fitting stops into each venue's happy hour, with the walks between them.
+// Nothing here reads the clock or the stored list; callers pass the venues and times in.
+
+import { getWalkingMinutesBetween } from './location.ts';
+import {
+    addCalendarDays,
+    formatDateKey,
+    formatKeyWestTime,
+    getHappyHourStatus,
+    getKeyWestParts,
+    getOccurrencesBetween,
+    keyWestTimeToDate,
+    parseDateKey,
+} from './schedule.ts';
+import { type Coordinates, type CrawlStop, type HappyHour, type Itinerary, type ScheduledStop } from './types.ts';
+
+// The longest the planner will wait outside a venue for its happy hour to start
+const CRAWL_MAX_WAIT_MINUTES = 30;
+// A stop is only worth planning if at least this much of its happy hour is left
+const CRAWL_MIN_STAY_MINUTES = 20;
+// Walking time assumed to or from a venue without coordinates
+const CRAWL_UNKNOWN_WALK_MINUTES = 10;
+// The most stops a planned crawl gets
+const CRAWL_MAX_STOPS = 8;
+
+/** What a planned crawl should look like. */
+export interface CrawlOptions {
+    // The Key West date, start and end time; an end at or before the start is the next morning
+    date: string;
+    start: string;
+    end: string;
+    // The preferred stay at each stop, in minutes
+    stayMinutes: number;
+    favoritesOnly: boolean;
+    foodOnly: boolean;
+}
+
+/**
+ * Suggests times for a new crawl: starting now, rounded up to the quarter hour, and running four hours.
+ * @param now The current time.
+ * @returns The Key West date, and the start and end times in "HH:MM" format.
+ */
+export function getDefaultCrawlTimes(now: Date): { date: string; start: string; end: string } {
+    const start = getKeyWestParts(new Date(Math.ceil(now.getTime() / (15 * 60000)) * 15 * 60000));
+    const formatTime = (hours: number) => `${String(hours % 24).padStart(2, '0')}:${String(start.minutes).padStart(2, '0')}`;
+    return { date: formatDateKey(start), start: formatTime(start.hours), end: formatTime(start.hours + 4) };
+}
+
+/**
+ * Returns the start and end instants of a crawl.
+ * @param crawl The crawl's date, start and end time.
+ */
+export function getCrawlWindow(crawl: Pick<Itinerary, 'date' | 'start' | 'end'>): { start: Date; end: Date } {
+    const day = parseDateKey(crawl.date);
+    const start = keyWestTimeToDate(day, crawl.start);
+    const end = keyWestTimeToDate(crawl.end <= crawl.start ? addCalendarDays(day, 1) : day, crawl.end);
+    return { start, end };
+}
+
+/**
+ * Estimates the walk between two venues.
+ * @param from The previous venue's location, or null for the first stop.
+ * @param to The next venue.
+ * @returns The walking time in minutes; 0 for the first stop.
+ */
+function getCrawlWalkMinutes(from: Coordinates | null, to: HappyHour): number {
+    if (!from) return 0;
+    if (!to.coordinates) return CRAWL_UNKNOWN_WALK_MINUTES;
+    return getWalkingMinutesBetween(from, to.coordinates);
+}
+
+/**
+ * Works out the times for one stop: walk over, wait if the happy hour starts shortly after arrival,
+ * then stay. Uses getHappyHourStatus at the arrival time to see whether the happy hour is running.
+ * @param hh The venue.
+ * @param from The previous venue's location, or null for the first stop.
+ * @param readyAt When the previous stop ends (or the crawl starts).
+ * @param stayMinutes How long to stay.
+ */
+export function scheduleCrawlStop(hh: HappyHour, from: Coordinates | null, readyAt: Date, stayMinutes: number): ScheduledStop {
+    const walkMinutes = getCrawlWalkMinutes(from, hh);
+    const arrive = new Date(readyAt.getTime() + walkMinutes * 60000);
+    const status = getHappyHourStatus(hh, arrive);
+
+    let begin = arrive;
+    let windowEnd: Date | undefined;
+    if (status.status === 'active') {
+        windowEnd = new Date(arrive.getTime() + status.minutesUntilEnd! * 60000);
+    } else if (status.minutesUntilStart !== undefined && status.minutesUntilStart <= CRAWL_MAX_WAIT_MINUTES) {
+        begin = new Date(arrive.getTime() + status.minutesUntilStart * 60000);
+        const startedStatus = getHappyHourStatus(hh, begin);
+        if (startedStatus.status === 'active') {
+            windowEnd = new Date(begin.getTime() + startedStatus.minutesUntilEnd! * 60000);
+        }
+    }
+    const leave = new Date(begin.getTime() + stayMinutes * 60000);
+
+    let warning: string | undefined;
+    if (!windowEnd) {
+        // Say when the happy hour closed if it was running earlier that evening.
+        const earlier = getOccurrencesBetween(hh, new Date(arrive.getTime() - 12 * 60 * 60000), arrive).pop();
+        warning = earlier
+            ? `Happy hour closes at ${formatKeyWestTime(earlier.end)}, before you arrive at ${formatKeyWestTime(arrive)}.`
+            : `No happy hour when you arrive at ${formatKeyWestTime(arrive)}.`;
+    } else if (windowEnd < leave) {
+        warning = `Happy hour ends at ${formatKeyWestTime(windowEnd)}, before you leave at ${formatKeyWestTime(leave)}.`;
+    }
+    return { hh, walkMinutes, arrive, begin, leave, windowEnd, warning };
+}
+
+/**
+ * Works out the times for every stop of an itinerary, in order.
+ * @param itinerary The itinerary.
+ * @param happyHours The venues the stops point at.
+ * @returns The scheduled stops; stops whose venue no longer exists are skipped.
+ */
+export function scheduleItinerary(itinerary: Itinerary, happyHours: HappyHour[]): ScheduledStop[] {
+    const { start, end } = getCrawlWindow(itinerary);
+    let readyAt = start;
+    let from: Coordinates | null = null;
+    const scheduled: ScheduledStop[] = [];
+    itinerary.stops.forEach(stop => {
+        const hh = happyHours.find(h => h.id === stop.happyHourId);
+        if (!hh) return;
+        const s = scheduleCrawlStop(hh, scheduled.length > 0 ? from : null, readyAt, stop.stayMinutes);
+        if (!s.warning && s.leave > end) {
+            s.warning = `This stop runs past the end of your crawl at ${formatKeyWestTime(end)}.`;
+        }
+        scheduled.push(s);
+        readyAt = s.leave;
+        from = hh.coordinates ?? from;
+    });
+    return scheduled;
+}
+
+/**
+ * Proposes a crawl: starting at the start time, repeatedly picks the venue whose happy hour can be
+ * reached soonest (walking from the last stop, and waiting a little if needed), preferring shorter
+ * walks and higher ratings on ties, until the end time or until nothing else is running.
+ * @param happyHours The venues to choose from; archived ones are left out.
+ * @param options The crawl window, constraints and preferred stay at each stop.
+ * @returns The planned stops.
+ */
+export function planCrawl(happyHours: HappyHour[], options: CrawlOptions): CrawlStop[] {
+    const { start, end } = getCrawlWindow(options);
+    const candidates = happyHours.filter(hh => !hh.isArchived
+        && (!options.favoritesOnly || hh.isFavorite)
+        && (!options.foodOnly || hh.hasFood));
+
+    const stops: CrawlStop[] = [];
+    let readyAt = start;
+    let from: Coordinates | null = null;
+    while (stops.length < CRAWL_MAX_STOPS && readyAt < end) {
+        const reachable = candidates
+            .filter(hh => !stops.some(s => s.happyHourId === hh.id))
+            .map(hh => scheduleCrawlStop(hh, stops.length > 0 ? from : null, readyAt, options.stayMinutes))
+            .filter(s => s.windowEnd && s.begin < end
+                && Math.min(s.windowEnd.getTime(), end.getTime()) - s.begin.getTime() >= CRAWL_MIN_STAY_MINUTES * 60000);
+        if (reachable.length === 0) break;
+
+        reachable.sort((a, b) => a.begin.getTime() - b.begin.getTime() || a.walkMinutes - b.walkMinutes || b.hh.rating - a.hh.rating);
+        const next = reachable[0];
+        // Leave when the happy hour or the crawl ends, if that's sooner than the preferred stay.
+        const leave = Math.min(next.leave.getTime(), next.windowEnd!.getTime(), end.getTime());
+        const stayMinutes = Math.round((leave - next.begin.getTime()) / 60000);
+        stops.push({ happyHourId: next.hh.id, stayMinutes });
+        readyAt = new Date(leave);
+        from = next.hh.coordinates ?? from;
+    }
+    return stops;
+}
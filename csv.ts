@@ -0,0 +1,160 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// The CSV export format: reading and writing CSV text, and mapping its columns to and from happy hours.
+// Rows read from a file are checked with the same validation as any other import.
+
+import { getRangesForDay } from './schedule.ts';
+import { DAY_CODES, type HappyHour, type TimeRange } from './types.ts';
+import { type ImportRowResult, validateImportedRecord } from './validation.ts';
+
+// Each weekday gets its own column, holding that day's ranges joined with ";".
+// Blackout dates are joined with ";" and events are written as "YYYY-MM-DD HH:MM-HH:MM Label", also joined with ";".
+const CSV_COLUMNS = ['name', 'address', ...DAY_CODES, 'specials', 'hasFood', 'rating', 'isFavorite', 'isArchived', 'tags', 'lat', 'lng', 'startDate', 'endDate', 'blackoutDates', 'events', 'deals'];
+const OPTIONAL_CSV_COLUMNS = ['isFavorite', 'isArchived', 'tags', 'lat', 'lng', 'startDate', 'endDate', 'blackoutDates', 'events', 'deals', ...DAY_CODES];
+
+/**
+ * Quotes a value for CSV output when it contains a delimiter, quote or line break.
+ * @param value The value to write.
+ */
+export function escapeCsvValue(value: string): string {
+    return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * Splits CSV text into rows of fields, honouring quoted fields with embedded commas, quotes and line breaks.
+ * @param text The CSV text.
+ */
+export function parseCsv(text: string): string[][] {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let inQuotes = false;
+
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+        if (inQuotes) {
+            if (char === '"' && text[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else if (char === '"') {
+                inQuotes = false;
+            } else {
+                field += char;
+            }
+        } else if (char === '"') {
+            inQuotes = true;
+        } else if (char === ',') {
+            row.push(field);
+            field = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && text[i + 1] === '\n') i++;
+            row.push(field);
+            rows.push(row);
+            row = [];
+            field = '';
+        } else {
+            field += char;
+        }
+    }
+    if (field || row.length > 0) {
+        row.push(field);
+        rows.push(row);
+    }
+    // Ignore blank lines, e.g. a trailing newline.
+    return rows.filter(r => r.some(f => f.trim() !== ''));
+}
+
+/**
+ * Serializes happy hours as CSV, with one column per weekday listing that day's time ranges.
+ * @param data The happy hours to export.
+ */
+export function happyHoursToCsv(data: HappyHour[]): string {
+    const lines = data.map(hh => [
+        hh.name,
+        hh.address,
+        ...DAY_CODES.map(day => getRangesForDay(hh, day).map(r => `${r.start}-${r.end}`).join(';')),
+        hh.specials,
+        String(hh.hasFood),
+        String(hh.rating),
+        String(hh.isFavorite),
+        String(hh.isArchived),
+        hh.tags.join(';'),
+        hh.coordinates ? String(hh.coordinates.lat) : '',
+        hh.coordinates ? String(hh.coordinates.lng) : '',
+        hh.startDate ?? '',
+        hh.endDate ?? '',
+        (hh.blackoutDates ?? []).join(';'),
+        (hh.events ?? []).map(ev => `${ev.date} ${ev.start}-${ev.end}${ev.label ? ` ${ev.label.replace(/;/g, ',')}` : ''}`).join(';'),
+        // Each deal is written as "category description @ regular/happy hour", e.g. "beer Draft Yuengling @ 6/3"
+        (hh.deals ?? []).map(d => `${d.category} ${d.description.replace(/[;@]/g, ',')} @ ${d.regularPrice ?? ''}/${d.happyHourPrice}`).join(';'),
+    ].map(escapeCsvValue).join(','));
+    return [CSV_COLUMNS.join(','), ...lines].join('\r\n');
+}
+
+/**
+ * Parses and validates a CSV export. Row numbers match spreadsheet rows (the header is row 1).
+ * @param text The CSV text.
+ */
+export function parseCsvImport(text: string): ImportRowResult[] {
+    const [header, ...rows] = parseCsv(text);
+    const columns = (header || []).map(h => h.trim());
+    const missing = CSV_COLUMNS.filter(c => !OPTIONAL_CSV_COLUMNS.includes(c) && !columns.includes(c));
+    // Older exports used shared "days" and "timeRanges" columns instead of one column per weekday.
+    const isLegacyFormat = columns.includes('days') && columns.includes('timeRanges');
+    if (!isLegacyFormat && !DAY_CODES.some(day => columns.includes(day))) {
+        missing.push('Mon…Sun');
+    }
+    if (missing.length > 0) {
+        return [{ row: 1, errors: [`Missing column(s): ${missing.join(', ')}.`] }];
+    }
+
+    return rows.map((cells, i) => {
+        const get = (column: string) => (cells[columns.indexOf(column)] ?? '').trim();
+        const parseRanges = (cell: string) => cell.split(';').map(r => r.trim()).filter(Boolean).map(r => {
+            const [start, end] = r.split('-').map(t => t.trim());
+            return { start, end };
+        });
+        const lat = get('lat');
+        const lng = get('lng');
+        const schedule: Record<string, TimeRange[]> = {};
+        if (isLegacyFormat) {
+            get('days').split(';').map(d => d.trim()).filter(Boolean).forEach(day => {
+                schedule[day] = parseRanges(get('timeRanges'));
+            });
+        } else {
+            DAY_CODES.forEach(day => {
+                if (get(day)) schedule[day] = parseRanges(get(day));
+            });
+        }
+        const raw = {
+            name: get('name'),
+            address: get('address'),
+            schedule,
+            specials: get('specials'),
+            hasFood: get('hasFood'),
+            rating: get('rating'),
+            isFavorite: get('isFavorite'),
+            isArchived: get('isArchived'),
+            tags: get('tags').split(';').filter(t => t.trim()),
+            coordinates: lat || lng ? { lat: lat === '' ? NaN : lat, lng: lng === '' ? NaN : lng } : undefined,
+            startDate: get('startDate'),
+            endDate: get('endDate'),
+            blackoutDates: get('blackoutDates').split(';').map(d => d.trim()).filter(Boolean),
+            events: get('events').split(';').map(ev => ev.trim()).filter(Boolean).map(ev => {
+                const [date = '', times = '', ...label] = ev.split(/\s+/);
+                const [start, end] = times.split('-');
+                return { date, start, end, label: label.join(' ') };
+            }),
+            deals: get('deals').split(';').map(d => d.trim()).filter(Boolean).map(d => {
+                const match = d.match(/^(\S+)\s+(.*?)\s*@\s*([^/]*)\/(.*)$/);
+                if (!match) return { description: d };
+                const [, category, description, regular, price] = match;
+                return { category, description, regularPrice: regular.trim() || undefined, happyHourPrice: price.trim() };
+            }),
+        };
+        return validateImportedRecord(raw, i + 2);
+    });
+}
@@ -0,0 +1,44 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// Structured deals: how each deal category is labelled, and how prices are shown and compared.
+// Shared by the venue cards, the calendar export and the cheapest-drink sort.
+
+import { type DealCategory, type DealItem, type HappyHour } from './types.ts';
+
+export const DEAL_CATEGORY_LABELS: { [category in DealCategory]: string } = {
+    beer: 'Beer',
+    wine: 'Wine',
+    well: 'Well',
+    cocktail: 'Cocktail',
+    food: 'Food',
+};
+
+/**
+ * Formats a dollar price, dropping the cents when they're zero, e.g. "$3" or "$3.50".
+ * @param price The price in dollars.
+ */
+export function formatPrice(price: number): string {
+    return Number.isInteger(price) ? `$${price}` : `$${price.toFixed(2)}`;
+}
+
+/**
+ * Describes a deal on one line, e.g. "Beer: Draft Yuengling $3 (reg. $6)".
+ * @param deal The deal item.
+ */
+export function describeDeal(deal: DealItem): string {
+    const regular = deal.regularPrice !== undefined ? ` (reg. ${formatPrice(deal.regularPrice)})` : '';
+    return `${DEAL_CATEGORY_LABELS[deal.category]}: ${deal.description} ${formatPrice(deal.happyHourPrice)}${regular}`;
+}
+
+/**
+ * Returns the lowest happy hour price among a venue's drink deals (everything but food).
+ * @param hh The happy hour object.
+ * @returns The price in dollars, or null if the venue has no priced drinks.
+ */
+export function getCheapestDrinkPrice(hh: HappyHour): number | null {
+    const prices = (hh.deals ?? []).filter(d => d.category !== 'food').map(d => d.happyHourPrice);
+    return prices.length > 0 ? Math.min(...prices) : null;
+}
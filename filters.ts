@@ -0,0 +1,163 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// Filtering and sorting the happy hour list. Everything the filters depend on (the current time, the
+// user's distance to each venue, the visit log) comes in through the criteria and context arguments.
+
+import { getCheapestDrinkPrice } from './deals.ts';
+import { getBestOptionScore } from './location.ts';
+import { getHappyHourStatus, getKeyWestParts, getRangesForDate } from './schedule.ts';
+import type { HappyHour, HappyHourStatus, SortOrder } from './types.ts';
+
+/**
+ * Splits a search query into lowercase terms.
+ * @param query The raw query typed by the user.
+ */
+export function getSearchTerms(query: string): string[] {
+    return query.toLowerCase().split(/\s+/).filter(Boolean);
+}
+
+/**
+ * The filters the list can be narrowed by, as plain data, so matching doesn't depend on app state or the DOM.
+ */
+export interface FilterCriteria {
+    isFavorite: boolean;
+    hasFood: boolean;
+    // Every selected tag must be present
+    tags: string[];
+    // Lower-cased search terms; every one must appear somewhere in the entry
+    searchTerms: string[];
+    activeNow: boolean;
+    // Takes precedence over activeNow when both are set
+    activeWithin30Mins: boolean;
+    notVisitedLately: boolean;
+    maxDealPrice: number | null;
+    // "HH:MM" Key West time the happy hour must still be running after, today
+    openAfterTime: string | null;
+    // The longest walk allowed, in minutes, or null when the walkable filter is off or the location is unknown
+    walkableMinutes: number | null;
+}
+
+/** What filtering and sorting need to know beyond the happy hours themselves. */
+export interface FilterContext {
+    now: Date;
+    getWalkingMinutes(hh: HappyHour): number | null;
+    isNotVisitedLately(hh: HappyHour, now: Date): boolean;
+}
+
+/**
+ * Checks whether a happy hour is running, or starts within the given number of minutes.
+ * The next start may fall after midnight, or on a later day for an entry that has ended today.
+ * @param status The happy hour's current status.
+ * @param minutes The look-ahead window in minutes.
+ */
+export function isActiveOrStartingWithin(status: HappyHourStatus, minutes: number): boolean {
+    return status.status === 'active' || (status.minutesUntilStart !== undefined && status.minutesUntilStart <= minutes);
+}
+
+/**
+ * Checks whether a happy hour passes every filter in the criteria.
+ * @param hh The happy hour object.
+ * @param criteria The filters to apply.
+ * @param context The current time and the distance and visit lookups.
+ */
+export function matchesFilters(hh: HappyHour, criteria: FilterCriteria, context: FilterContext): boolean {
+    if (criteria.isFavorite && !hh.isFavorite) return false;
+    if (criteria.hasFood && !hh.hasFood) return false;
+    if (!criteria.tags.every(tag => hh.tags.includes(tag))) return false;
+
+    // Free-text search covers the name, address, specials and deal items
+    if (criteria.searchTerms.length > 0) {
+        const haystack = `${hh.name}\n${hh.address}\n${hh.specials}\n${(hh.deals ?? []).map(d => d.description).join('\n')}`.toLowerCase();
+        if (!criteria.searchTerms.every(term => haystack.includes(term))) return false;
+    }
+
+    // The two time filters are exclusive: "within 30 minutes" already includes everything active now.
+    if (criteria.activeWithin30Mins) {
+        if (!isActiveOrStartingWithin(getHappyHourStatus(hh, context.now), 30)) return false;
+    } else if (criteria.activeNow) {
+        if (getHappyHourStatus(hh, context.now).status !== 'active') return false;
+    }
+
+    // No visit in the last month, or never visited
+    if (criteria.notVisitedLately && !context.isNotVisitedLately(hh, context.now)) return false;
+
+    // A venue needs at least one deal at or under the price ceiling
+    const maxPrice = criteria.maxDealPrice;
+    if (maxPrice !== null && !(hh.deals ?? []).some(deal => deal.happyHourPrice <= maxPrice)) return false;
+
+    // Keep happy hours that are still running after the given time today (Key West time); overnight ranges always are.
+    const openAfter = criteria.openAfterTime;
+    if (openAfter && !getRangesForDate(hh, getKeyWestParts(context.now)).some(r => r.end <= r.start || r.end > openAfter)) {
+        return false;
+    }
+
+    if (criteria.walkableMinutes !== null) {
+        const minutes = context.getWalkingMinutes(hh);
+        if (minutes === null || minutes > criteria.walkableMinutes) return false;
+    }
+    return true;
+}
+
+/**
+ * Works out the per-venue value a sort order ranks by, lowest first. Alphabetic and rating sorts need none.
+ * @param hh The happy hour object.
+ * @param sortOrder The sort order.
+ * @param context The current time and the distance lookup.
+ */
+export function getSortKey(hh: HappyHour, sortOrder: SortOrder, context: FilterContext): number {
+    if (sortOrder === 'distance') {
+        // Venues without a known distance go last
+        return context.getWalkingMinutes(hh) ?? Infinity;
+    } else if (sortOrder === 'best') {
+        // Higher best-option scores come first
+        return -getBestOptionScore(hh, getHappyHourStatus(hh, context.now), context.getWalkingMinutes(hh));
+    } else if (sortOrder === 'cheapestDrink') {
+        // Only happy hours running right now count; venues that aren't active or have no priced drinks go last
+        const price = getCheapestDrinkPrice(hh);
+        return getHappyHourStatus(hh, context.now).status === 'active' && price !== null ? price : Infinity;
+    }
+    return 0;
+}
+
+/**
+ * Orders two happy hours: favorites first, then by the sort order.
+ * @param a The first happy hour.
+ * @param b The second happy hour.
+ * @param sortOrder The sort order.
+ * @param sortKeys Each venue's sort key by ID, from getSortKey.
+ */
+export function compareHappyHours(a: HappyHour, b: HappyHour, sortOrder: SortOrder, sortKeys: Map<number, number>): number {
+    // 1. Primary sort: Favorites first
+    if (a.isFavorite && !b.isFavorite) return -1;
+    if (!a.isFavorite && b.isFavorite) return 1;
+
+    // 2. Secondary sort: Based on the sort order
+    if (sortOrder === 'rating') {
+        // Sort by rating descending (higher rating first)
+        return b.rating - a.rating;
+    } else if (sortOrder === 'alphabetic') {
+        return a.name.localeCompare(b.name);
+    }
+    // Sort by key ascending, falling back to the name for ties
+    const aKey = sortKeys.get(a.id)!;
+    const bKey = sortKeys.get(b.id)!;
+    return aKey === bKey ? a.name.localeCompare(b.name) : aKey - bKey;
+}
+
+/**
+ * Filters and sorts a list of happy hours. Archived entries are always left out.
+ * @param list The happy hours to choose from.
+ * @param criteria The filters to apply.
+ * @param sortOrder The sort order to apply after favorites.
+ * @param context The current time and the distance and visit lookups.
+ * @returns A new array, in display order.
+ */
+export function filterAndSortHappyHours(list: HappyHour[], criteria: FilterCriteria, sortOrder: SortOrder, context: FilterContext): HappyHour[] {
+    const filtered = list.filter(hh => !hh.isArchived && matchesFilters(hh, criteria, context));
+    // Work the keys out once up front, since the best and cheapest-drink keys need each venue's status.
+    const sortKeys = new Map(filtered.map(hh => [hh.id, getSortKey(hh, sortOrder, context)]));
+    return filtered.sort((a, b) => compareHappyHours(a, b, sortOrder, sortKeys));
+}
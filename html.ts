@@ -0,0 +1,59 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// Building markup safely. Nothing here touches the page except setHtml.
+
+/**
+ * Escapes text for safe insertion into HTML markup.
+ * @param text The raw text.
+ */
+export function escapeHtml(text: string): string {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&#39;');
+}
+
+/** Markup made by the html template tag, and so safe to insert into the page. */
+export interface SafeHtml { readonly markup: string; }
+
+// Every SafeHtml the html tag has made. Anything else that merely looks like one (say, a field of an
+// imported or shared venue) is escaped like any other value.
+const trustedMarkup = new WeakSet<SafeHtml>();
+
+/**
+ * Template tag for markup. Interpolated values are escaped unless they are SafeHtml from another html
+ * template; arrays are concatenated, and null, undefined and false render nothing. All markup that goes
+ * into innerHTML is built with it and inserted with setHtml, so user data can't inject elements or scripts.
+ * @example html`<h3>${hh.name}</h3>${hh.tags.map(tag => html`<span>#${tag}</span>`)}`
+ */
+export function html(strings: TemplateStringsArray, ...values: unknown[]): SafeHtml {
+    const markup = strings.reduce((result, part, i) => result + renderHtmlValue(values[i - 1]) + part);
+    const safe = { markup };
+    trustedMarkup.add(safe);
+    return safe;
+}
+
+/**
+ * Renders a value interpolated into an html template.
+ * @param value The value.
+ */
+function renderHtmlValue(value: unknown): string {
+    if (value === null || value === undefined || value === false) return '';
+    if (Array.isArray(value)) return value.map(renderHtmlValue).join('');
+    if (typeof value === 'object' && trustedMarkup.has(value as SafeHtml)) return (value as SafeHtml).markup;
+    return escapeHtml(String(value));
+}
+
+/**
+ * Replaces an element's content with markup from an html template.
+ * @param element The element.
+ * @param content The markup.
+ */
+export function setHtml(element: Element, content: SafeHtml) {
+    element.innerHTML = content.markup;
+}
@@ -0,0 +1,211 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// Calendar export: happy hour schedules as an iCalendar (.ics) file, in Key West time, that calendar
+// apps can subscribe to or import. Nothing here touches the page; callers pass the current time in.
+
+import { describeDeal } from './deals.ts';
+import {
+    addCalendarDays,
+    type CalendarDay,
+    formatDateKey,
+    getKeyWestParts,
+    getRangesForDay,
+    getWeekdayName,
+    isHappyHourExpired,
+    KEY_WEST_TIME_ZONE,
+    keyWestTimeToDate,
+    parseDateKey,
+} from './schedule.ts';
+import { DAY_CODES, type HappyHour, type TimeRange } from './types.ts';
+
+const ICS_PRODUCT_ID = '-//Key West Happy Hour Finder//EN';
+const ICS_DAY_CODES: { [day: string]: string } = { Mon: 'MO', Tue: 'TU', Wed: 'WE', Thu: 'TH', Fri: 'FR', Sat: 'SA', Sun: 'SU' };
+
+// Key West follows US Eastern time; these are the US DST rules in effect since 2007.
+const ICS_KEY_WEST_TIMEZONE = [
+    'BEGIN:VTIMEZONE',
+    `TZID:${KEY_WEST_TIME_ZONE}`,
+    'X-LIC-LOCATION:America/New_York',
+    'BEGIN:DAYLIGHT',
+    'TZOFFSETFROM:-0500',
+    'TZOFFSETTO:-0400',
+    'TZNAME:EDT',
+    'DTSTART:20070311T020000',
+    'RRULE:FREQ=YEARLY;BYMONTH=3;BYDAY=2SU',
+    'END:DAYLIGHT',
+    'BEGIN:STANDARD',
+    'TZOFFSETFROM:-0400',
+    'TZOFFSETTO:-0500',
+    'TZNAME:EST',
+    'DTSTART:20071104T020000',
+    'RRULE:FREQ=YEARLY;BYMONTH=11;BYDAY=1SU',
+    'END:STANDARD',
+    'END:VTIMEZONE',
+];
+
+/**
+ * Escapes a value for an iCalendar TEXT property (RFC 5545 §3.3.11).
+ * @param text The raw text.
+ */
+export function escapeIcsText(text: string): string {
+    return text
+        .replace(/\\/g, '\\\\')
+        .replace(/;/g, '\\;')
+        .replace(/,/g, '\\,')
+        .replace(/\r\n|\r|\n/g, '\\n');
+}
+
+/**
+ * Folds a content line so no physical line is longer than 75 octets (RFC 5545 §3.1).
+ * Continuation lines start with a single space, and multi-byte UTF-8 characters are never split.
+ * @param line The unfolded content line.
+ */
+export function foldIcsLine(line: string): string {
+    const encoder = new TextEncoder();
+    const folded: string[] = [];
+    let current = '';
+    let currentBytes = 0;
+    for (const char of line) {
+        const charBytes = encoder.encode(char).length;
+        // Continuation lines lose one octet to the leading space.
+        const limit = folded.length === 0 ? 75 : 74;
+        if (currentBytes + charBytes > limit) {
+            folded.push(current);
+            current = '';
+            currentBytes = 0;
+        }
+        current += char;
+        currentBytes += charBytes;
+    }
+    folded.push(current);
+    return folded.join('\r\n ');
+}
+
+/**
+ * Formats a Key West wall-clock time as a local iCalendar DATE-TIME, e.g. "20251024T160000".
+ * @param day The Key West calendar day.
+ * @param timeStr The time in "HH:MM" format.
+ */
+function formatIcsLocalDateTime(day: CalendarDay, timeStr: string): string {
+    return `${formatDateKey(day).replace(/-/g, '')}T${timeStr.replace(':', '')}00`;
+}
+
+/**
+ * Formats an instant as a UTC iCalendar DATE-TIME, e.g. "20251024T200000Z".
+ * @param date The instant.
+ */
+function formatIcsUtcDateTime(date: Date): string {
+    return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+/**
+ * Builds the VEVENT lines for one happy hour: one weekly recurring event per distinct time range
+ * (covering every day that shares it), plus one event per one-off event. Overnight ranges end on the
+ * following day, season bounds become the first occurrence and the RRULE's UNTIL, and blackout dates
+ * become EXDATEs. One-off events that are already over are left out.
+ * @param hh The happy hour object.
+ * @param now The current Date object; recurrences start from today, or the season start if later.
+ * @returns The content lines (unfolded) for the happy hour's events.
+ */
+function buildHappyHourIcsEvents(hh: HappyHour, now: Date): string[] {
+    const today = getKeyWestParts(now);
+    const todayDay: CalendarDay = { year: today.year, month: today.month, day: today.day };
+    const firstKey = hh.startDate && hh.startDate > formatDateKey(todayDay) ? hh.startDate : formatDateKey(todayDay);
+    const stamp = formatIcsUtcDateTime(now);
+    const tz = `TZID=${KEY_WEST_TIME_ZONE}`;
+
+    const dealLines = (hh.deals ?? []).map(describeDeal);
+    const description = [hh.specials, ...dealLines, hh.hasFood ? 'Food deals available.' : '', hh.tags.length ? `Tags: ${hh.tags.join(', ')}` : '']
+        .filter(Boolean).join('\n');
+    const commonLines = (summary: string) => [
+        `SUMMARY:${escapeIcsText(summary)}`,
+        `LOCATION:${escapeIcsText(hh.address)}`,
+        `DESCRIPTION:${escapeIcsText(description)}`,
+        ...(hh.coordinates ? [`GEO:${hh.coordinates.lat};${hh.coordinates.lng}`] : []),
+    ];
+
+    // Group the weekly schedule by time range, so "Mon–Fri 16:00 - 19:00" becomes a single event.
+    const rangeDays = new Map<string, { range: TimeRange; days: string[] }>();
+    DAY_CODES.forEach(day => getRangesForDay(hh, day).forEach(range => {
+        if (!range.start || !range.end) return;
+        const key = `${range.start}-${range.end}`;
+        if (!rangeDays.has(key)) rangeDays.set(key, { range, days: [] });
+        rangeDays.get(key)!.days.push(day);
+    }));
+
+    const lines: string[] = [];
+    let index = 0;
+    rangeDays.forEach(({ range, days }) => {
+        index++;
+        // The first occurrence has to be one of the recurring days, on or after the first date.
+        let first = parseDateKey(firstKey);
+        while (!days.includes(getWeekdayName(first))) first = addCalendarDays(first, 1);
+        if (hh.endDate && formatDateKey(first) > hh.endDate) return;
+
+        const endDay = range.end <= range.start ? addCalendarDays(first, 1) : first;
+        let rrule = `RRULE:FREQ=WEEKLY;BYDAY=${days.map(d => ICS_DAY_CODES[d]).join(',')}`;
+        if (hh.endDate) {
+            // UNTIL must be in UTC when DTSTART has a time zone; the last start time of the season is inclusive.
+            rrule += `;UNTIL=${formatIcsUtcDateTime(keyWestTimeToDate(parseDateKey(hh.endDate), range.start))}`;
+        }
+        const exdates = (hh.blackoutDates ?? [])
+            .filter(key => key >= formatDateKey(first) && days.includes(getWeekdayName(parseDateKey(key))))
+            .map(key => formatIcsLocalDateTime(parseDateKey(key), range.start));
+
+        lines.push(
+            'BEGIN:VEVENT',
+            `UID:happy-hour-${hh.id}-weekly-${index}@kw-happy-hours`,
+            `DTSTAMP:${stamp}`,
+            `DTSTART;${tz}:${formatIcsLocalDateTime(first, range.start)}`,
+            `DTEND;${tz}:${formatIcsLocalDateTime(endDay, range.end)}`,
+            rrule,
+            ...(exdates.length ? [`EXDATE;${tz}:${exdates.join(',')}`] : []),
+            ...commonLines(`${hh.name} happy hour`),
+            'END:VEVENT',
+        );
+    });
+
+    (hh.events ?? []).forEach((ev, i) => {
+        const day = parseDateKey(ev.date);
+        const endDay = ev.end <= ev.start ? addCalendarDays(day, 1) : day;
+        // Events that are already over have no place in a calendar of what's coming up.
+        if (keyWestTimeToDate(endDay, ev.end) <= now) return;
+        lines.push(
+            'BEGIN:VEVENT',
+            `UID:happy-hour-${hh.id}-event-${i + 1}@kw-happy-hours`,
+            `DTSTAMP:${stamp}`,
+            `DTSTART;${tz}:${formatIcsLocalDateTime(day, ev.start)}`,
+            `DTEND;${tz}:${formatIcsLocalDateTime(endDay, ev.end)}`,
+            ...commonLines(`${hh.name}: ${ev.label || 'happy hour event'}`),
+            'END:VEVENT',
+        );
+    });
+
+    return lines;
+}
+
+/**
+ * Builds an iCalendar file for the given happy hours.
+ * @param data The happy hours to include.
+ * @param now The current Date object.
+ * @returns The calendar text, or null if none of the happy hours has anything to put in a calendar.
+ */
+export function happyHoursToIcs(data: HappyHour[], now: Date): string | null {
+    const events = data.filter(hh => !isHappyHourExpired(hh, now)).flatMap(hh => buildHappyHourIcsEvents(hh, now));
+    if (events.length === 0) return null;
+
+    const lines = [
+        'BEGIN:VCALENDAR',
+        'VERSION:2.0',
+        `PRODID:${ICS_PRODUCT_ID}`,
+        'CALSCALE:GREGORIAN',
+        'METHOD:PUBLISH',
+        ...ICS_KEY_WEST_TIMEZONE,
+        ...events,
+        'END:VCALENDAR',
+    ];
+    return lines.map(foldIcsLine).join('\r\n') + '\r\n';
+}
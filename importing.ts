@@ -0,0 +1,88 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// Importing a JSON or CSV export: reading the JSON format, and merging the validated records into the
+// list. The CSV format lives in csv.ts; both are checked with the validation in validation.ts.
+
+import { type HappyHour } from './types.ts';
+import { getDuplicateKey, type ImportRowResult, validateImportedRecord } from './validation.ts';
+
+/** Whether imported records are merged into the list or replace it. */
+export type ImportMode = 'merge' | 'replace';
+
+/**
+ * Parses and validates a JSON export (either a bare array or an export envelope).
+ * @param text The JSON text.
+ */
+export function parseJsonImport(text: string): ImportRowResult[] {
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(text);
+    } catch {
+        return [{ row: 0, errors: ['The file is not valid JSON.'] }];
+    }
+    const records = Array.isArray(parsed) ? parsed : (parsed as { happyHours?: unknown })?.happyHours;
+    if (!Array.isArray(records)) {
+        return [{ row: 0, errors: ['No list of happy hours found in the file.'] }];
+    }
+    return records.map((raw, i) => validateImportedRecord(raw, i + 1));
+}
+
+/**
+ * Skips records that repeat a venue (same name and address) from an earlier row of the same file,
+ * noting it in their row's errors.
+ * @param results The per-row results, changed in place.
+ */
+export function skipDuplicateRows(results: ImportRowResult[]) {
+    const firstRows = new Map<string, number>();
+    results.forEach(result => {
+        if (!result.record) return;
+        const key = getDuplicateKey(result.record);
+        const firstRow = firstRows.get(key);
+        if (firstRow === undefined) {
+            firstRows.set(key, result.row);
+        } else {
+            result.errors.push(`Same name and address as row ${firstRow}, so it was skipped.`);
+            delete result.record;
+        }
+    });
+}
+
+/**
+ * Applies imported records to a list, either merging them in or replacing everything.
+ * A record that matches an existing entry replaces it whole but keeps its ID, so whatever refers to the
+ * entry still points at it. Records match by name and address; in replace mode, a record also matches
+ * the entry with the ID it was exported with, which it is checked against first.
+ * @param existing The current list.
+ * @param rows The validated rows to import, each with a record.
+ * @param mode Whether to merge into or replace the current list.
+ * @param createId Creates the ID for each added entry.
+ * @returns The new list, and counts of added and updated entries.
+ */
+export function mergeImport(existing: HappyHour[], rows: ImportRowResult[], mode: ImportMode, createId: () => number): { merged: HappyHour[]; added: number; updated: number } {
+    const unmatched = new Map(existing.map(hh => [hh.id, hh]));
+    const matchedIds = new Map<ImportRowResult, number>();
+    const claim = (row: ImportRowResult, hh: HappyHour | undefined) => {
+        if (!hh) return;
+        matchedIds.set(row, hh.id);
+        unmatched.delete(hh.id);
+    };
+    if (mode === 'replace') {
+        rows.forEach(row => claim(row, row.id === undefined ? undefined : unmatched.get(row.id)));
+    }
+    rows.forEach(row => {
+        if (matchedIds.has(row)) return;
+        claim(row, [...unmatched.values()].find(hh => getDuplicateKey(hh) === getDuplicateKey(row.record!)));
+    });
+
+    const imported = rows.map(row => ({ ...row.record!, id: matchedIds.get(row) ?? createId() }));
+    let merged = imported;
+    if (mode === 'merge') {
+        const existingIds = new Set(existing.map(hh => hh.id));
+        const replacements = new Map(imported.map(hh => [hh.id, hh]));
+        merged = [...existing.map(hh => replacements.get(hh.id) ?? hh), ...imported.filter(hh => !existingIds.has(hh.id))];
+    }
+    return { merged, added: rows.length - matchedIds.size, updated: matchedIds.size };
+}
@@ -2,80 +2,381 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
  */
+import { type AssistantClient, createGeminiAssistantClient, localAssistantClient, type ParsedQuery } from './assistant.ts';
+import { getDefaultCrawlTimes, planCrawl, scheduleItinerary } from './crawl.ts';
+import { happyHoursToCsv, parseCsvImport } from './csv.ts';
+import { formatPrice } from './deals.ts';
+import { filterAndSortHappyHours, type FilterCriteria, getSearchTerms } from './filters.ts';
+import { html, setHtml } from './html.ts';
+import { happyHoursToIcs } from './ics.ts';
+import { type ImportMode, mergeImport, parseJsonImport, skipDuplicateRows } from './importing.ts';
+import { browserLocationProvider, createFixedLocationProvider, locateUser, type LocationProvider, measureFrom, type UserLocation } from './location.ts';
+import { addCalendarDays, buildWeeklySchedule, type CalendarDay, formatDate, formatDateKey, formatDuration, formatKeyWestTime, getHappyHourStatus, getKeyWestParts, getOccurrencesBetween, getWeekdayName, isDeviceOnKeyWestTime, keyWestTimeToDate, parseDateKey } from './schedule.ts';
+import { decodeSharePayload, encodeSharePayload, getShareableVenue, parseSharedCrawl, parseSharedVenue } from './share.ts';
+import { createHttpSyncBackend, getSyncFingerprint, matchFirstSyncDuplicates, mergeForSync, parseSyncConflicts, pruneTombstones, SYNC_EPOCH, type SyncBackend, type SyncConflict, type SyncedHappyHour, type Tombstone } from './sync.ts';
+import { createHappyHourCard, type HappyHourCardOptions, renderArchivedRow, renderConflicts, renderDealRow, renderEventRow, renderItinerary, renderReminderVenueList, renderSavedItineraries, renderSuggestions, renderTagFilterButtons, renderTimeRangeRow, renderVenueSummary, renderVisitHistory } from './templates.ts';
+import { type Coordinates, DAY_CODES, type DealCategory, type DealItem, type FilterFlag, type HappyHour, type Itinerary, type OneOffEvent, type SortOrder, type TimeRange, type Visit, WEEKDAY_CODES, type WeeklySchedule } from './types.ts';
+import { dropInvalidRanges, findDuplicateVenue, getDuplicateKey, type ImportedHappyHour, type ImportRowResult, isValidDateString, isValidItinerary, isValidTimeString, normalizeTag, validateEvents, validateImportedRecord, validateSchedule } from './validation.ts';
 
 // --- TYPE DEFINITIONS ---
-interface TimeRange { start: string; end: string; }
-
-interface HappyHour {
-  id: number;
-  name: string;
-  address: string;
-  days: string[];
-  timeRanges: TimeRange[];
-  specials: string;
-  hasFood: boolean;
-  rating: number;
-  isFavorite: boolean;
-}
-
-type HappyHourStatus = {
-    status: 'active' | 'upcoming' | 'ended';
-    minutesUntilStart?: number;
-    minutesUntilEnd?: number;
-};
-
+// The data model lives in types.ts; these types only concern the page.
+type ViewMode = 'list' | 'map' | 'timeline';
 
 // In-memory store for our happy hours
 let happyHours: HappyHour[] = [];
+// Deleted happy hours, remembered so the deletions reach other devices when syncing
+let deletedHappyHours: Tombstone[] = [];
 // State for the current filters
-const activeFilters = {
+const activeFilters: { [flag in FilterFlag]: boolean } = {
     activeNow: false,
     activeWithin30Mins: false,
     hasFood: false,
     isFavorite: false,
+    walkable: false,
+    notVisitedLately: false,
 };
+// How many minutes' walk counts as "walkable"
+let walkableMinutes = 10;
+// The highest happy hour price (in dollars) a venue's cheapest deal may have, or null for any price
+let maxDealPrice: number | null = null;
+// State for the free-text search and the selected tag filter chips
+let searchQuery = '';
+let activeTagFilters: string[] = [];
 // State for the current sort order
-let currentSortOrder: 'alphabetic' | 'rating' = 'alphabetic';
+let currentSortOrder: SortOrder = 'alphabetic';
+// The user's last known location, once they've opted into a location-based sort or filter
+let userLocation: UserLocation | null = null;
+// State for which view is shown, and which venue's marker is open on the map
+let currentView: ViewMode = 'list';
+// Whether the timeline shows a single day or the week ahead
+let timelineMode: 'day' | 'week' = 'day';
+let selectedMapVenueId: number | null = null;
+// Filters that only a natural-language query can set: an "open after" time and a place to measure distances from
+let openAfterTime: string | null = null;
+let nearPlace: string | null = null;
 
 
 // --- DATABASE CONSTANTS AND FUNCTIONS ---
 const HAPPY_HOUR_DB_KEY = 'keyWestHappyHours';
+// Where an unreadable payload is set aside so it is never overwritten by seed data
+const HAPPY_HOUR_QUARANTINE_KEY = 'keyWestHappyHours.quarantine';
+
+// The shape of each storage version. Optional fields added without a migration (coordinates, dates,
+// events, deals, updatedAt) may be present in any of them.
+
+/** A happy hour as stored before version 3: one set of time ranges shared by all its days. */
+type StoredHappyHourV0 = Omit<HappyHour, 'schedule' | 'isFavorite' | 'isArchived' | 'tags'> & {
+    days: string[];
+    timeRanges: TimeRange[];
+    isFavorite?: boolean;
+    isArchived?: boolean;
+    tags?: string[];
+};
+type StoredHappyHourV1 = StoredHappyHourV0 & { isFavorite: boolean };
+type StoredHappyHourV2 = StoredHappyHourV1 & { isArchived: boolean };
+type StoredHappyHourV3 = Omit<StoredHappyHourV2, 'days' | 'timeRanges'> & { schedule: WeeklySchedule };
+
+/** Version 0: the legacy bare array of happy hours. */
+type StoredV0 = StoredHappyHourV0[];
+/** Version 1: wrapped in an envelope, with isFavorite always set. */
+interface StoredV1 { version: 1; happyHours: StoredHappyHourV1[]; }
+/** Version 2: isArchived always set. */
+interface StoredV2 { version: 2; happyHours: StoredHappyHourV2[]; }
+/** Version 3: a per-day schedule instead of days and timeRanges. */
+interface StoredV3 { version: 3; happyHours: StoredHappyHourV3[]; }
+/** Version 4: tags always set. */
+interface StoredV4 { version: 4; happyHours: HappyHour[]; }
+/** Version 5: tombstones for deleted happy hours. */
+interface StoredV5 { version: 5; happyHours: HappyHour[]; deleted: Tombstone[]; }
+
+/** The shape written to localStorage. */
+type StorageEnvelope = StoredV5;
+
+interface QuarantinedPayload {
+    quarantinedAt: string;
+    reason: string;
+    raw: string;
+}
+
+interface StorageMigration {
+    toVersion: number;
+    migrate: (data: unknown) => unknown;
+}
+
+/**
+ * Declares a migration from one storage version's shape to the next, so the type-check catches a
+ * migration that drops or mistypes a field.
+ * @param toVersion The version the migration produces.
+ * @param migrate Upgrades the previous version's data.
+ */
+function defineStorageMigration<From, To extends { version: number }>(toVersion: To['version'], migrate: (data: From) => To): StorageMigration {
+    return { toVersion, migrate: data => migrate(data as From) };
+}
+
+/**
+ * Ordered storage migrations. Each entry upgrades an envelope from `toVersion - 1` to `toVersion`.
+ * To evolve the schema, add a StoredV<n> shape and append a migration to it; never edit one that has
+ * already shipped.
+ */
+const STORAGE_MIGRATIONS: StorageMigration[] = [
+    // Wrap the legacy bare array in an envelope and default the isFavorite field.
+    defineStorageMigration<StoredV0, StoredV1>(1, data => ({
+        version: 1,
+        happyHours: data.map(hh => ({ ...hh, isFavorite: hh.isFavorite || false })),
+    })),
+    // Default the isArchived field, and give seeded venues saved before locations
+    // were tracked their coordinates so they appear on the map.
+    defineStorageMigration<StoredV1, StoredV2>(2, data => ({
+        version: 2,
+        happyHours: data.happyHours.map(hh => ({
+            ...hh,
+            isArchived: hh.isArchived || false,
+            coordinates: hh.coordinates ?? happyHourData.find(seed => seed.name === hh.name && seed.address === hh.address)?.coordinates,
+        })),
+    })),
+    // Replace the shared days/timeRanges pair with a per-day schedule.
+    defineStorageMigration<StoredV2, StoredV3>(3, data => ({
+        version: 3,
+        happyHours: data.happyHours.map(({ days, timeRanges, ...hh }) => ({
+            ...hh,
+            schedule: buildWeeklySchedule(days || [], timeRanges || []),
+        })),
+    })),
+    // Add user-defined tags.
+    defineStorageMigration<StoredV3, StoredV4>(4, data => ({
+        version: 4,
+        happyHours: data.happyHours.map(hh => ({ ...hh, tags: Array.isArray(hh.tags) ? hh.tags : [] })),
+    })),
+    // Keep tombstones for deleted happy hours, for sync.
+    defineStorageMigration<StoredV4, StoredV5>(5, data => ({ version: 5, happyHours: data.happyHours, deleted: [] })),
+];
+
+// The version the last migration produces, and the version of the envelope written
+const CURRENT_STORAGE_VERSION: StorageEnvelope['version'] = 5;
+
+// The synced fields of each happy hour as last saved, used to tell which entries a save changes
+const savedFingerprints = new Map<number, string>();
 
 /**
- * Saves the current list of happy hours to the browser's localStorage.
+ * Records the given list as the last-saved state, without stamping anything.
+ * @param data The happy hours.
+ */
+function rememberSavedState(data: HappyHour[]) {
+    savedFingerprints.clear();
+    data.forEach(hh => savedFingerprints.set(hh.id, getSyncFingerprint(hh)));
+}
+
+/**
+ * Writes the happy hours and tombstones to localStorage as they are.
+ * @param data The array of happy hours to write.
+ */
+function writeHappyHoursToDB(data: HappyHour[]) {
+    try {
+        const envelope: StorageEnvelope = { version: CURRENT_STORAGE_VERSION, happyHours: data, deleted: deletedHappyHours };
+        localStorage.setItem(HAPPY_HOUR_DB_KEY, JSON.stringify(envelope));
+    } catch (error) {
+        console.error("Failed to save happy hours to local storage:", error);
+    }
+}
+
+/**
+ * Saves the current list of happy hours to the browser's localStorage, and queues a sync.
+ * Entries whose synced fields changed since the last save get a new updatedAt, and entries that are
+ * gone get a tombstone, so every edit and deletion reaches other devices however it was made.
  * @param data The array of happy hours to save.
  */
 function saveHappyHoursToDB(data: HappyHour[]) {
+    const now = new Date().toISOString();
+    const ids = new Set(data.map(hh => hh.id));
+    data.forEach(hh => {
+        const fingerprint = getSyncFingerprint(hh);
+        if (savedFingerprints.get(hh.id) !== fingerprint) {
+            hh.updatedAt = now;
+            savedFingerprints.set(hh.id, fingerprint);
+        }
+    });
+    savedFingerprints.forEach((_, id) => {
+        if (ids.has(id)) return;
+        savedFingerprints.delete(id);
+        deletedHappyHours.push({ id, deletedAt: now });
+    });
+    // An entry brought back (e.g. by undo) is no longer deleted.
+    deletedHappyHours = deletedHappyHours.filter(tombstone => !ids.has(tombstone.id));
+
+    writeHappyHoursToDB(data);
+    scheduleSync();
+}
+
+/**
+ * Creates the ID for a new happy hour, visit or bar crawl: 53 random bits, the most a number holds
+ * exactly, so IDs made on different devices (or in the same millisecond) don't collide. (The seed
+ * entries keep IDs 1-6, which name the same venues on every device.)
+ */
+function createRandomId(): number {
+    const [high, low] = crypto.getRandomValues(new Uint32Array(2));
+    return (high & 0x1fffff) * 2 ** 32 + low;
+}
+
+/**
+ * Parses a stored payload, runs it through any pending migrations and checks the result's shape.
+ * @param storedData The raw string from localStorage.
+ * @returns The up-to-date envelope.
+ * @throws If the payload is unreadable, malformed or was written by a newer version of the app.
+ */
+function migrateStoredData(storedData: string): StorageEnvelope {
+    let data: unknown = JSON.parse(storedData);
+    const version = Array.isArray(data) ? 0 : (data as { version?: unknown } | null)?.version;
+
+    if (typeof version !== 'number' || !Number.isInteger(version) || version < 0) {
+        throw new Error("Stored data has no recognizable schema version.");
+    }
+    if (version > CURRENT_STORAGE_VERSION) {
+        throw new Error(`Stored data uses schema version ${version}, which is newer than this app supports.`);
+    }
+
+    for (const migration of STORAGE_MIGRATIONS) {
+        if (migration.toVersion > version) {
+            data = migration.migrate(data);
+        }
+    }
+
+    const { happyHours, deleted } = data !== null && typeof data === 'object' ? data as Record<string, unknown> : {};
+    if (!Array.isArray(happyHours) || !happyHours.every(isStoredHappyHour)) {
+        throw new Error("Stored data does not contain a list of happy hours.");
+    }
+    if (!Array.isArray(deleted) || !deleted.every(isStoredTombstone)) {
+        throw new Error("Stored data does not contain a list of deleted happy hours.");
+    }
+    return { version: CURRENT_STORAGE_VERSION, happyHours, deleted };
+}
+
+/**
+ * Checks that a stored entry has the fields the rest of the app relies on: a whole-number ID, a
+ * schedule object and a list of tags. The entry's content is checked by validateStoredHappyHour.
+ * @param value The stored entry.
+ */
+function isStoredHappyHour(value: unknown): value is HappyHour {
+    if (!value || typeof value !== 'object') return false;
+    const hh = value as Record<string, unknown>;
+    return Number.isSafeInteger(hh.id)
+        && !!hh.schedule && typeof hh.schedule === 'object' && !Array.isArray(hh.schedule)
+        && Array.isArray(hh.tags);
+}
+
+/**
+ * Checks that a stored tombstone has a whole-number ID and a valid deletion time.
+ * @param value The stored tombstone.
+ */
+function isStoredTombstone(value: unknown): value is Tombstone {
+    if (!value || typeof value !== 'object') return false;
+    const tombstone = value as Record<string, unknown>;
+    return Number.isSafeInteger(tombstone.id) && typeof tombstone.deletedAt === 'string' && !isNaN(Date.parse(tombstone.deletedAt));
+}
+
+/**
+ * Runs a stored entry through the import checks.
+ * @param hh The stored entry.
+ * @param index Its position in the stored list.
+ * @returns The entry as validated, keeping its ID and last-change time.
+ * @throws If the entry fails validation.
+ */
+function validateStoredHappyHour(hh: HappyHour, index: number): HappyHour {
+    const result = validateImportedRecord(hh, index + 1);
+    if (!result.record) {
+        throw new Error(`Stored happy hour ${index + 1} is invalid: ${result.errors.join(' ')}`);
+    }
+    const updatedAt = typeof hh.updatedAt === 'string' && !isNaN(Date.parse(hh.updatedAt)) ? hh.updatedAt : undefined;
+    return { ...result.record, id: hh.id, ...(updatedAt ? { updatedAt } : {}) };
+}
+
+/**
+ * Sets an unreadable payload aside under its own key so the user can recover it later.
+ * @param raw The raw string that failed to load.
+ * @param reason Why it failed to load.
+ */
+function quarantineStoredData(raw: string, reason: string) {
     try {
-        localStorage.setItem(HAPPY_HOUR_DB_KEY, JSON.stringify(data));
+        const payload: QuarantinedPayload = { quarantinedAt: new Date().toISOString(), reason, raw };
+        localStorage.setItem(HAPPY_HOUR_QUARANTINE_KEY, JSON.stringify(payload));
     } catch (error) {
-        console.error("Failed to save happy hours to local storage:", error);
+        console.error("Failed to quarantine unreadable happy hour data:", error);
+    }
+}
+
+/**
+ * Returns the quarantined payload, if there is one.
+ */
+function getQuarantinedData(): QuarantinedPayload | null {
+    try {
+        const stored = localStorage.getItem(HAPPY_HOUR_QUARANTINE_KEY);
+        return stored ? JSON.parse(stored) as QuarantinedPayload : null;
+    } catch {
+        return null;
     }
 }
 
 /**
- * Loads happy hours from localStorage. If none are found (e.g., first visit),
- * it loads the seed data and saves it.
+ * Loads happy hours from localStorage, migrating older schema versions as needed.
+ * If none are found (e.g., first visit), it loads the seed data and saves it.
+ * If the stored data can't be read, it is quarantined before falling back to the seed data.
  * @returns The array of happy hours.
  */
 function loadHappyHoursFromDB(): HappyHour[] {
-    try {
-        const storedData = localStorage.getItem(HAPPY_HOUR_DB_KEY);
-        if (storedData) {
-            const parsedData = JSON.parse(storedData) as HappyHour[];
-            // Ensure backward compatibility for the new isFavorite field
-            return parsedData.map(hh => ({ ...hh, isFavorite: hh.isFavorite || false }));
+    const storedData = localStorage.getItem(HAPPY_HOUR_DB_KEY);
+    if (storedData) {
+        try {
+            const envelope = migrateStoredData(storedData);
+            const dropped = envelope.happyHours.reduce((count, hh) => count + dropInvalidRanges(hh), 0);
+            if (dropped > 0) {
+                console.warn(`Removed ${dropped} invalid time range(s) from stored happy hours.`);
+            }
+            const stored = envelope.happyHours.map(validateStoredHappyHour);
+            deletedHappyHours = envelope.deleted;
+            rememberSavedState(stored);
+            writeHappyHoursToDB(stored); // Persist the migrated shape
+            return stored;
+        } catch (error) {
+            console.error("Failed to read happy hours from local storage, quarantining it and falling back to default data.", error);
+            quarantineStoredData(storedData, error instanceof Error ? error.message : String(error));
         }
-    } catch (error) {
-        console.error("Failed to parse happy hours from local storage, falling back to default data.", error);
     }
 
-    // If no stored data or if parsing failed, use seed data and save it for next time.
-    const seedData = happyHourData.map((hh, i) => ({ ...hh, id: i + 1, isFavorite: false })); // Start IDs from 1
-    saveHappyHoursToDB(seedData);
+    // If no stored data or if it couldn't be read, use seed data and save it for next time.
+    const seedData = happyHourData.map((hh, i) => ({ ...hh, id: i + 1, isFavorite: false, isArchived: false })); // Start IDs from 1
+    deletedHappyHours = [];
+    rememberSavedState(seedData);
+    writeHappyHoursToDB(seedData);
     return seedData;
 }
 
+/**
+ * Shows a warning banner when there is quarantined data the user may want to recover.
+ */
+function renderStorageWarning() {
+    const quarantined = getQuarantinedData();
+    if (!quarantined) {
+        elements.storageWarning.style.display = 'none';
+        return;
+    }
+    const when = new Date(quarantined.quarantinedAt).toLocaleString();
+    elements.storageWarningText.textContent = `Your saved happy hours couldn't be read (${quarantined.reason}) and were set aside on ${when}. Download the raw data to recover it, then use Import to bring it back.`;
+    elements.storageWarning.style.display = 'flex';
+}
+
+function handleDownloadQuarantine() {
+    const quarantined = getQuarantinedData();
+    if (quarantined) {
+        downloadFile(`kw-happy-hours-recovered-${quarantined.quarantinedAt.slice(0, 10)}.json`, quarantined.raw, 'application/json');
+    }
+}
+
+function handleDiscardQuarantine() {
+    if (confirm("Permanently discard the unreadable data? This can't be undone.")) {
+        localStorage.removeItem(HAPPY_HOUR_QUARANTINE_KEY);
+        renderStorageWarning();
+    }
+}
+
 
 // --- DOM ELEMENT REFERENCES ---
 const elements = {
@@ -83,37 +384,191 @@ const elements = {
   happyHourList: document.getElementById('happy-hour-list')!,
   loadingIndicator: document.getElementById('loading-indicator')!,
   errorMessage: document.getElementById('error-message')!,
+  storageWarning: document.getElementById('storage-warning')!,
+  storageWarningText: document.getElementById('storage-warning-text')!,
+  downloadQuarantineBtn: document.getElementById('download-quarantine-btn')!,
+  discardQuarantineBtn: document.getElementById('discard-quarantine-btn')!,
+  updateBanner: document.getElementById('update-banner')!,
+  updateReloadBtn: document.getElementById('update-reload-btn')!,
+  updateDismissBtn: document.getElementById('update-dismiss-btn')!,
+  // Reminder Elements
+  remindersBtn: document.getElementById('reminders-btn')!,
+  remindersModal: document.getElementById('reminders-modal')!,
+  closeRemindersModalBtn: document.getElementById('close-reminders-modal-btn')!,
+  remindersForm: document.getElementById('reminders-form')!,
+  remindersEnabled: document.getElementById('reminders-enabled')! as HTMLInputElement,
+  reminderLeadSelect: document.getElementById('reminder-lead-select')! as HTMLSelectElement,
+  remindFavoritesToggle: document.getElementById('remind-favorites')! as HTMLInputElement,
+  quietHoursToggle: document.getElementById('quiet-hours-enabled')! as HTMLInputElement,
+  quietStartInput: document.getElementById('quiet-start')! as HTMLInputElement,
+  quietEndInput: document.getElementById('quiet-end')! as HTMLInputElement,
+  reminderVenueList: document.getElementById('reminder-venue-list')!,
+  notificationPermission: document.getElementById('notification-permission')!,
+  // Venue Detail and Visit Log Elements
+  detailModal: document.getElementById('detail-modal')!,
+  closeDetailModalBtn: document.getElementById('close-detail-modal-btn')!,
+  detailTitle: document.getElementById('detail-title')!,
+  detailSummary: document.getElementById('detail-summary')!,
+  visitForm: document.getElementById('visit-form')! as HTMLFormElement,
+  visitDateInput: document.getElementById('visit-date')! as HTMLInputElement,
+  visitRatingSelect: document.getElementById('visit-rating')! as HTMLSelectElement,
+  visitOrderedInput: document.getElementById('visit-ordered')! as HTMLInputElement,
+  visitOrderedSuggestions: document.getElementById('visit-ordered-suggestions')!,
+  visitNotesInput: document.getElementById('visit-notes')! as HTMLTextAreaElement,
+  visitFormError: document.getElementById('visit-form-error')!,
+  visitHistory: document.getElementById('visit-history')!,
+  shareVenueBtn: document.getElementById('share-venue-btn')!,
+  // Bar Crawl Elements
+  crawlBtn: document.getElementById('crawl-btn')!,
+  crawlModal: document.getElementById('crawl-modal')!,
+  closeCrawlModalBtn: document.getElementById('close-crawl-modal-btn')!,
+  crawlForm: document.getElementById('crawl-form')! as HTMLFormElement,
+  crawlDateInput: document.getElementById('crawl-date')! as HTMLInputElement,
+  crawlStartInput: document.getElementById('crawl-start')! as HTMLInputElement,
+  crawlEndInput: document.getElementById('crawl-end')! as HTMLInputElement,
+  crawlStaySelect: document.getElementById('crawl-stay')! as HTMLSelectElement,
+  crawlFavoritesToggle: document.getElementById('crawl-favorites')! as HTMLInputElement,
+  crawlFoodToggle: document.getElementById('crawl-food')! as HTMLInputElement,
+  crawlResult: document.getElementById('crawl-result')!,
+  savedCrawls: document.getElementById('saved-crawls')!,
+  // Sync Elements
+  syncUrlInput: document.getElementById('sync-url-input')! as HTMLInputElement,
+  saveSyncUrlBtn: document.getElementById('save-sync-url-btn')!,
+  turnOffSyncBtn: document.getElementById('turn-off-sync-btn')!,
+  syncStatus: document.getElementById('sync-status')!,
+  syncNowBtn: document.getElementById('sync-now-btn')!,
+  reviewConflictsBtn: document.getElementById('review-conflicts-btn')!,
+  conflictsModal: document.getElementById('conflicts-modal')!,
+  closeConflictsModalBtn: document.getElementById('close-conflicts-modal-btn')!,
+  conflictList: document.getElementById('conflict-list')!,
+  // Sharing Elements
+  shareViewBtn: document.getElementById('share-view-btn')!,
+  sharedVenueBanner: document.getElementById('shared-venue-banner')!,
+  sharedVenueText: document.getElementById('shared-venue-text')!,
+  addSharedVenueBtn: document.getElementById('add-shared-venue-btn')!,
+  dismissSharedVenueBtn: document.getElementById('dismiss-shared-venue-btn')!,
+  // Assistant Elements
+  assistText: document.getElementById('assist-text')! as HTMLTextAreaElement,
+  assistParseBtn: document.getElementById('assist-parse-btn')!,
+  assistStatus: document.getElementById('assist-status')!,
+  askForm: document.getElementById('ask-form')! as HTMLFormElement,
+  askInput: document.getElementById('ask-input')! as HTMLInputElement,
+  askSummary: document.getElementById('ask-summary')!,
+  askSummaryText: document.getElementById('ask-summary-text')!,
+  clearAskBtn: document.getElementById('clear-ask-btn')!,
+  apiKeyInput: document.getElementById('api-key-input')! as HTMLInputElement,
+  saveApiKeyBtn: document.getElementById('save-api-key-btn')!,
+  removeApiKeyBtn: document.getElementById('remove-api-key-btn')!,
   filtersContainer: document.getElementById('filters-container')!,
+  tagFilters: document.getElementById('tag-filters')!,
+  searchInput: document.getElementById('search-input')! as HTMLInputElement,
   sortSelect: document.getElementById('sort-select')! as HTMLSelectElement,
+  walkMinutesSelect: document.getElementById('walk-minutes-select')! as HTMLSelectElement,
+  priceCeilingSelect: document.getElementById('price-ceiling-select')! as HTMLSelectElement,
   // Modal & Form Elements
   addFab: document.getElementById('add-hh-fab')!,
   modal: document.getElementById('add-hh-modal')!,
   modalTitle: document.querySelector('#add-hh-modal h2')!,
   closeModalBtn: document.getElementById('close-modal-btn')!,
+  editActions: document.getElementById('edit-actions')!,
+  archiveBtn: document.getElementById('archive-hh-btn')!,
+  deleteBtn: document.getElementById('delete-hh-btn')!,
+  // Archive & Toast Elements
+  archivedBtn: document.getElementById('archived-btn')!,
+  archivedModal: document.getElementById('archived-modal')!,
+  closeArchivedModalBtn: document.getElementById('close-archived-modal-btn')!,
+  archivedList: document.getElementById('archived-list')!,
+  toast: document.getElementById('toast')!,
+  toastMessage: document.getElementById('toast-message')!,
+  toastUndoBtn: document.getElementById('toast-undo-btn')!,
+  // Import & Export Elements
+  dataBtn: document.getElementById('data-btn')!,
+  dataModal: document.getElementById('data-modal')!,
+  closeDataModalBtn: document.getElementById('close-data-modal-btn')!,
+  exportJsonBtn: document.getElementById('export-json-btn')!,
+  exportCsvBtn: document.getElementById('export-csv-btn')!,
+  exportIcsBtn: document.getElementById('export-ics-btn')!,
+  importFileInput: document.getElementById('import-file')! as HTMLInputElement,
+  importBtn: document.getElementById('import-btn')!,
+  importReport: document.getElementById('import-report')!,
   form: document.getElementById('add-hh-form')! as HTMLFormElement,
   formError: document.getElementById('form-error')!,
   // Form Inputs
   nameInput: document.getElementById('hh-name')! as HTMLInputElement,
   addressInput: document.getElementById('hh-address')! as HTMLInputElement,
   specialsInput: document.getElementById('hh-specials')! as HTMLTextAreaElement,
-  daysContainer: document.getElementById('hh-days')!,
-  timeRangesContainer: document.getElementById('time-ranges-container')!,
-  addTimeRangeBtn: document.getElementById('add-time-range-btn')!,
+  scheduleEditor: document.getElementById('hh-schedule')!,
+  startDateInput: document.getElementById('hh-start-date')! as HTMLInputElement,
+  endDateInput: document.getElementById('hh-end-date')! as HTMLInputElement,
+  blackoutDatesContainer: document.getElementById('blackout-dates')!,
+  blackoutDateInput: document.getElementById('blackout-date-input')! as HTMLInputElement,
+  addBlackoutBtn: document.getElementById('add-blackout-btn')!,
+  eventsContainer: document.getElementById('events-container')!,
+  dealsContainer: document.getElementById('deals-container')!,
+  addDealBtn: document.getElementById('add-deal-btn')!,
+  addEventBtn: document.getElementById('add-event-btn')!,
+  tagsContainer: document.getElementById('hh-tags')!,
+  tagInput: document.getElementById('hh-tag-input')! as HTMLInputElement,
+  addTagBtn: document.getElementById('add-tag-btn')!,
+  tagSuggestions: document.getElementById('tag-suggestions')!,
   foodToggle: document.getElementById('hh-food')! as HTMLInputElement,
   favoriteToggle: document.getElementById('hh-favorite')! as HTMLInputElement,
   ratingContainer: document.getElementById('hh-rating')!,
+  latInput: document.getElementById('hh-lat')! as HTMLInputElement,
+  lngInput: document.getElementById('hh-lng')! as HTMLInputElement,
+  // Views
+  viewToggle: document.getElementById('view-toggle')!,
+  listView: document.getElementById('list-view')!,
+  mapView: document.getElementById('map-view')!,
+  timelineView: document.getElementById('timeline-view')!,
 };
 
 // --- MOCK DATA (used for first-time seeding) ---
-const happyHourData: Omit<HappyHour, 'id' | 'isFavorite'>[] = [
-    { name: "Sloppy Joe's Bar", address: "201 Duval St, Key West", days: ['Mon', 'Tue', 'Wed', 'Thu', 'Fri'], timeRanges: [{start: '16:00', end: '18:00'}], specials: "Half-price well drinks, domestic beers, and house wines. $5 appetizers including wings and conch fritters.", hasFood: true, rating: 4 },
-    { name: "Hog's Breath Saloon", address: "400 Front St, Key West", days: ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'], timeRanges: [{start: '17:00', end: '19:00'}], specials: "2-for-1 beers and well drinks. Live music daily.", hasFood: false, rating: 5 },
-    { name: "Green Parrot Bar", address: "601 Whitehead St, Key West", days: ['Mon', 'Tue', 'Wed', 'Thu', 'Fri'], timeRanges: [{start: '16:00', end: '19:00'}], specials: "Famous for its laid-back vibe. Discounted Parrot Grog and a selection of craft beers.", hasFood: false, rating: 5 },
-    { name: "Blue Heaven", address: "729 Thomas St, Key West", days: ['Mon', 'Tue', 'Wed', 'Thu', 'Fri'], timeRanges: [{start: '15:00', end: '17:00'}], specials: "Caribbean-inspired cocktails at reduced prices. $1 off all beers in their lush garden setting.", hasFood: true, rating: 4 },
-    { name: "Conch Republic Seafood Company", address: "631 Greene St, Key West", days: ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'], timeRanges: [{start: '16:00', end: '19:00'}, {start: '22:00', end: '01:00'}], specials: "2-for-1 deals on all bar drinks. Great view of the marina. Late night deals too!", hasFood: true, rating: 4 },
-    { name: "Bagatelle", address: "115 Duval St, Key West", days: ['Mon', 'Tue', 'Wed', 'Thu', 'Fri'], timeRanges: [{start: '09:00', end: '11:00'}, {start: '16:00', end: '18:00'}], specials: "Breakfast and afternoon happy hours. $5 tasting plates and specialty cocktails.", hasFood: true, rating: 5 },
+
+const happyHourData: Omit<HappyHour, 'id' | 'isFavorite' | 'isArchived'>[] = [
+    { name: "Sloppy Joe's Bar", address: "201 Duval St, Key West", schedule: buildWeeklySchedule(WEEKDAY_CODES, [{start: '16:00', end: '18:00'}]), specials: "Half-price well drinks, domestic beers, and house wines. $5 appetizers including wings and conch fritters.", hasFood: true, rating: 4, tags: ['live music'], coordinates: { lat: 24.5592, lng: -81.8054 }, deals: [{ category: 'well', description: 'Well drinks', regularPrice: 8, happyHourPrice: 4 }, { category: 'beer', description: 'Domestic bottles', regularPrice: 6, happyHourPrice: 3 }, { category: 'food', description: 'Wings or conch fritters', regularPrice: 12, happyHourPrice: 5 }] },
+    { name: "Hog's Breath Saloon", address: "400 Front St, Key West", schedule: buildWeeklySchedule(DAY_CODES, [{start: '17:00', end: '19:00'}]), specials: "2-for-1 beers and well drinks. Live music daily.", hasFood: false, rating: 5, tags: ['live music'], coordinates: { lat: 24.5594, lng: -81.8063 } },
+    { name: "Green Parrot Bar", address: "601 Whitehead St, Key West", schedule: buildWeeklySchedule(WEEKDAY_CODES, [{start: '16:00', end: '19:00'}]), specials: "Famous for its laid-back vibe. Discounted Parrot Grog and a selection of craft beers.", hasFood: false, rating: 5, tags: ['live music', 'dog friendly'], coordinates: { lat: 24.5527, lng: -81.8031 } },
+    { name: "Blue Heaven", address: "729 Thomas St, Key West", schedule: buildWeeklySchedule(WEEKDAY_CODES, [{start: '15:00', end: '17:00'}]), specials: "Caribbean-inspired cocktails at reduced prices. $1 off all beers in their lush garden setting.", hasFood: true, rating: 4, tags: ['garden', 'dog friendly'], coordinates: { lat: 24.5511, lng: -81.8006 } },
+    { name: "Conch Republic Seafood Company", address: "631 Greene St, Key West", schedule: buildWeeklySchedule(DAY_CODES, [{start: '16:00', end: '19:00'}, {start: '22:00', end: '01:00'}]), specials: "2-for-1 deals on all bar drinks. Great view of the marina. Late night deals too!", hasFood: true, rating: 4, tags: ['waterfront'], coordinates: { lat: 24.5610, lng: -81.8017 } },
+    { name: "Bagatelle", address: "115 Duval St, Key West", schedule: buildWeeklySchedule(WEEKDAY_CODES, [{start: '09:00', end: '11:00'}, {start: '16:00', end: '18:00'}]), specials: "Breakfast and afternoon happy hours. $5 tasting plates and specialty cocktails.", hasFood: true, rating: 5, tags: ['waterfront'], coordinates: { lat: 24.5601, lng: -81.8066 } },
+];
+
+// --- OFFLINE MAP DATA ---
+// A simplified outline of Key West, bundled so the map renders without any network tiles.
+const KEY_WEST_OUTLINE: Coordinates[] = [
+    { lat: 24.5600, lng: -81.8080 }, { lat: 24.5625, lng: -81.8050 }, { lat: 24.5640, lng: -81.8010 },
+    { lat: 24.5660, lng: -81.7960 }, { lat: 24.5700, lng: -81.7880 }, { lat: 24.5730, lng: -81.7800 },
+    { lat: 24.5760, lng: -81.7700 }, { lat: 24.5735, lng: -81.7550 }, { lat: 24.5700, lng: -81.7420 },
+    { lat: 24.5650, lng: -81.7350 }, { lat: 24.5580, lng: -81.7420 }, { lat: 24.5530, lng: -81.7500 },
+    { lat: 24.5500, lng: -81.7650 }, { lat: 24.5480, lng: -81.7800 }, { lat: 24.5460, lng: -81.7900 },
+    { lat: 24.5455, lng: -81.8000 }, { lat: 24.5460, lng: -81.8080 }, { lat: 24.5480, lng: -81.8115 },
+    { lat: 24.5525, lng: -81.8110 }, { lat: 24.5570, lng: -81.8100 },
+];
+
+const KEY_WEST_LANDMARKS: (Coordinates & { label: string })[] = [
+    { lat: 24.5597, lng: -81.8078, label: 'Mallory Square' },
+    { lat: 24.5465, lng: -81.7975, label: 'Southernmost Point' },
+    { lat: 24.5468, lng: -81.8105, label: 'Fort Zachary Taylor' },
+    { lat: 24.5620, lng: -81.8000, label: 'Historic Seaport' },
 ];
 
+// The timeline's day starts (and ends) at this Key West time, so late-night happy hours aren't cut at midnight.
+const TIMELINE_DAY_START = '06:00';
+
+const KEY_WEST_CENTER: Coordinates = { lat: 24.5557, lng: -81.7826 };
+const MAP_UNITS_PER_DEGREE = 100000;
+
+/**
+ * Gathers what a venue's card shows beyond the happy hour itself.
+ * @param hh The happy hour.
+ * @param now The current Date object.
+ * @param showKeyWestTimeNote Whether to flag that the hours are in Key West time.
+ */
+function getCardOptions(hh: HappyHour, now: Date, showKeyWestTimeNote: boolean): HappyHourCardOptions {
+    return { searchQuery, showKeyWestTimeNote, distance: userLocation?.describeDistance(hh) ?? null, visits: describeVisits(hh, now), reminderOn: isReminderOn(hh) };
+}
+
 /**
  * Renders the list of happy hours to the DOM.
  * @param happyHoursToRender The array of happy hour objects to render.
@@ -123,43 +578,171 @@ function renderListView(happyHoursToRender: HappyHour[]) {
     elements.happyHourList.innerHTML = ''; // Clear previous content
 
     if (happyHoursToRender.length === 0) {
-        elements.happyHourList.innerHTML = `<div class="empty-state"><h3>No Happy Hours Found</h3><p>Try adjusting your filters or sort order.</p></div>`;
+        setHtml(elements.happyHourList, html`<div class="empty-state"><h3>No Happy Hours Found</h3><p>Try adjusting your filters or sort order.</p></div>`);
         return;
     }
 
+    // Schedules are always shown in Key West time; flag that when the device's clock reads differently.
+    const now = new Date();
+    const showKeyWestTimeNote = !isDeviceOnKeyWestTime(now);
+
     const fragment = document.createDocumentFragment();
     happyHoursToRender.forEach(hh => {
-        const card = document.createElement('div');
-        card.className = 'happy-hour-card';
-        
-        const stars = '★'.repeat(hh.rating) + '☆'.repeat(5 - hh.rating);
-        const timeRangesStr = hh.timeRanges.map(r => `${r.start} - ${r.end}`).join(', ');
-        const daysStr = hh.days.join(', ');
-
-        card.innerHTML = `
-            <div class="card-header">
-                <div class="card-title-group">
-                    <h3>${hh.name}</h3>
-                    <p class="address">${hh.address}</p>
-                </div>
-                <div class="card-top-right">
-                    <div class="card-rating">
-                        <span>${stars}</span>
-                        ${hh.isFavorite ? `<span class="card-favorite" aria-label="Personal favorite">❤️</span>` : ''}
-                        ${hh.hasFood ? `<span class="card-rating-food" aria-label="Food deals available">🍽️</span>` : ''}
-                    </div>
-                     <button class="edit-btn" data-id="${hh.id}">Edit</button>
-                </div>
-            </div>
-            <p class="summary">${hh.specials}</p>
-            <div class="card-footer">
-                <span class="days"><strong>Days:</strong> ${daysStr}</span>
-                <span class="time"><strong>Hours:</strong> ${timeRangesStr}</span>
+        fragment.appendChild(createHappyHourCard(hh, now, getCardOptions(hh, now, showKeyWestTimeNote)));
+    });
+    elements.happyHourList.appendChild(fragment);
+}
+
+/**
+ * Projects a coordinate onto the map's SVG plane. Uses a simple equirectangular projection
+ * scaled by the cosine of Key West's latitude, which is plenty accurate for an area this small.
+ * @param coords The coordinate to project.
+ * @returns The x/y position in SVG units.
+ */
+function projectToMap(coords: Coordinates): { x: number; y: number } {
+    const lngScale = Math.cos(KEY_WEST_CENTER.lat * Math.PI / 180);
+    return {
+        x: (coords.lng - KEY_WEST_CENTER.lng) * lngScale * MAP_UNITS_PER_DEGREE,
+        y: (KEY_WEST_CENTER.lat - coords.lat) * MAP_UNITS_PER_DEGREE,
+    };
+}
+
+/**
+ * Renders the happy hours as status-colored markers on the bundled offline map of Key West.
+ * @param happyHoursToRender The array of happy hour objects to render.
+ */
+function renderMapView(happyHoursToRender: HappyHour[]) {
+    elements.loadingIndicator.style.display = 'none';
+    elements.mapView.innerHTML = '';
+
+    const now = new Date();
+    const mapped = happyHoursToRender.filter(hh => hh.coordinates);
+    const unmappedCount = happyHoursToRender.length - mapped.length;
+
+    // Fit the view to the plotted venues, or to the whole island if there are none.
+    const points = (mapped.length > 0 ? mapped.map(hh => hh.coordinates!) : KEY_WEST_OUTLINE).map(projectToMap);
+    const xs = points.map(p => p.x);
+    const ys = points.map(p => p.y);
+    const minSpan = 80;
+    const width = Math.max(Math.max(...xs) - Math.min(...xs), minSpan) * 1.3;
+    const height = Math.max(Math.max(...ys) - Math.min(...ys), minSpan) * 1.3;
+    const centerX = (Math.max(...xs) + Math.min(...xs)) / 2;
+    const centerY = (Math.max(...ys) + Math.min(...ys)) / 2;
+    const viewBox = `${centerX - width / 2} ${centerY - height / 2} ${width} ${height}`;
+    const markerRadius = Math.max(width, height) / 50;
+
+    const outline = KEY_WEST_OUTLINE.map(projectToMap).map(p => `${p.x},${p.y}`).join(' ');
+    const landmarks = KEY_WEST_LANDMARKS.map(lm => {
+        const p = projectToMap(lm);
+        return html`<text class="map-landmark" x="${p.x}" y="${p.y}" font-size="${markerRadius}">${lm.label}</text>`;
+    });
+    const markers = mapped.map(hh => {
+        const p = projectToMap(hh.coordinates!);
+        const { status } = getHappyHourStatus(hh, now);
+        const selected = hh.id === selectedMapVenueId ? ' selected' : '';
+        return html`<circle class="map-marker marker-${status}${selected}" data-id="${hh.id}" cx="${p.x}" cy="${p.y}" r="${markerRadius}" stroke-width="${markerRadius / 4}"><title>${hh.name}</title></circle>`;
+    });
+
+    setHtml(elements.mapView, html`
+        <svg class="map-canvas" viewBox="${viewBox}" role="img" aria-label="Map of Key West happy hours">
+            <rect class="map-water" x="${centerX - width}" y="${centerY - height}" width="${width * 2}" height="${height * 2}"></rect>
+            <polygon class="map-land" points="${outline}"></polygon>
+            ${landmarks}
+            ${markers}
+        </svg>
+        <div class="map-legend">
+            <span><i class="legend-dot marker-active"></i>Active</span>
+            <span><i class="legend-dot marker-upcoming"></i>Upcoming</span>
+            <span><i class="legend-dot marker-ended"></i>Ended</span>
+            ${unmappedCount > 0 ? html`<span class="map-unmapped">${unmappedCount} without location</span>` : ''}
+        </div>
+        <div id="map-popup"></div>
+    `);
+
+    const selected = mapped.find(hh => hh.id === selectedMapVenueId);
+    if (selected) {
+        const popup = elements.mapView.querySelector('#map-popup')!;
+        popup.appendChild(createHappyHourCard(selected, now, getCardOptions(selected, now, !isDeviceOnKeyWestTime(now))));
+    } else {
+        selectedMapVenueId = null;
+    }
+}
+
+/**
+ * Renders the timeline: one row per happy hour, in the same order as the list, with a bar for each time
+ * it runs. The day view covers one Key West "bar day" and the week view the next seven, with a line at
+ * the current time. Each day runs from TIMELINE_DAY_START to the same time the next morning, so
+ * overnight happy hours draw as a single bar across midnight.
+ * @param happyHoursToRender The array of happy hour objects to render.
+ */
+function renderTimelineView(happyHoursToRender: HappyHour[]) {
+    elements.loadingIndicator.style.display = 'none';
+
+    const now = new Date();
+    const nowParts = getKeyWestParts(now);
+    let firstDay: CalendarDay = { year: nowParts.year, month: nowParts.month, day: nowParts.day };
+    // In the small hours it's still the previous evening's bar day.
+    if (`${String(nowParts.hours).padStart(2, '0')}:${String(nowParts.minutes).padStart(2, '0')}` < TIMELINE_DAY_START) {
+        firstDay = addCalendarDays(firstDay, -1);
+    }
+    const dayCount = timelineMode === 'week' ? 7 : 1;
+    const windowStart = keyWestTimeToDate(firstDay, TIMELINE_DAY_START);
+    const windowEnd = keyWestTimeToDate(addCalendarDays(firstDay, dayCount), TIMELINE_DAY_START);
+    const toPercent = (date: Date) => (date.getTime() - windowStart.getTime()) / (windowEnd.getTime() - windowStart.getTime()) * 100;
+
+    // Gridlines every three hours in the day view, and at the start of each day in the week view.
+    const ticks: { at: Date; label: string; major: boolean }[] = [];
+    if (timelineMode === 'day') {
+        const startHour = parseInt(TIMELINE_DAY_START, 10);
+        for (let h = 0; h < 24; h += 3) {
+            const hour = (startHour + h) % 24;
+            const day = startHour + h >= 24 ? addCalendarDays(firstDay, 1) : firstDay;
+            ticks.push({ at: keyWestTimeToDate(day, `${String(hour).padStart(2, '0')}:00`), label: `${String(hour).padStart(2, '0')}:00`, major: hour === 0 });
+        }
+    } else {
+        for (let d = 0; d < dayCount; d++) {
+            const day = addCalendarDays(firstDay, d);
+            ticks.push({ at: keyWestTimeToDate(day, TIMELINE_DAY_START), label: `${getWeekdayName(day)} ${day.day}`, major: true });
+        }
+    }
+    const gridlines = ticks.map(t => html`<div class="timeline-gridline${t.major ? ' major' : ''}" style="left: ${toPercent(t.at)}%"></div>`);
+    const axis = ticks.map(t => html`<span class="timeline-tick" style="left: ${toPercent(t.at)}%">${t.label}</span>`);
+    const nowLine = html`<div class="timeline-now" style="left: ${toPercent(now)}%"></div>`;
+
+    const rows = happyHoursToRender.map(hh => {
+        const bars = getOccurrencesBetween(hh, windowStart, windowEnd).map(occ => {
+            const left = Math.max(toPercent(occ.start), 0);
+            const right = Math.min(toPercent(occ.end), 100);
+            const state = occ.end <= now ? 'ended' : occ.start <= now ? 'active' : 'upcoming';
+            const times = `${formatKeyWestTime(occ.start)} – ${formatKeyWestTime(occ.end)}`;
+            return html`<button class="timeline-bar bar-${state}" data-id="${hh.id}" style="left: ${left}%; width: ${right - left}%" title="${hh.name}: ${getWeekdayName(getKeyWestParts(occ.start))} ${times}">${timelineMode === 'day' ? times : ''}</button>`;
+        });
+        return html`
+            <div class="timeline-row">
+                <button class="timeline-label" data-id="${hh.id}">${hh.isFavorite ? '❤️ ' : ''}${hh.name}</button>
+                <div class="timeline-track">${gridlines}${bars}${nowLine}</div>
             </div>
         `;
-        fragment.appendChild(card);
     });
-    elements.happyHourList.appendChild(fragment);
+
+    setHtml(elements.timelineView, html`
+        <div class="timeline-toolbar">
+            <div class="view-toggle timeline-mode">
+                <button data-timeline-mode="day" class="${timelineMode === 'day' ? 'active' : ''}">Day</button>
+                <button data-timeline-mode="week" class="${timelineMode === 'week' ? 'active' : ''}">Week</button>
+            </div>
+            ${!isDeviceOnKeyWestTime(now) ? html`<span class="tz-note">🕒 Key West local time</span>` : ''}
+        </div>
+        ${happyHoursToRender.length === 0
+            ? html`<div class="empty-state"><h3>No Happy Hours Found</h3><p>Try adjusting your filters or sort order.</p></div>`
+            : html`<div class="timeline-grid">
+                <div class="timeline-row timeline-axis-row">
+                    <span class="timeline-label"></span>
+                    <div class="timeline-axis">${axis}</div>
+                </div>
+                ${rows}
+            </div>`}
+    `);
 }
 
 /**
@@ -173,148 +756,80 @@ function renderError(message: string) {
 }
 
 
-// --- TIME & FILTERING LOGIC ---
+// --- GEOLOCATION AND DISTANCE ---
 
 /**
- * [REWRITTEN FOR ROBUSTNESS]
- * Determines the current status of a happy hour (active, upcoming, or ended) using a simple, procedural check with native Date objects.
- * This approach is more efficient and reliable across different devices than the previous implementation.
- * @param hh The happy hour object.
- * @param now The current Date object.
- * @returns A HappyHourStatus object.
- */
-function getHappyHourStatus(hh: HappyHour, now: Date): HappyHourStatus {
-    const dayMap = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
-    const nowDayStr = dayMap[now.getDay()];
-    const yesterday = new Date(now);
-    yesterday.setDate(now.getDate() - 1);
-    const yesterdayDayStr = dayMap[yesterday.getDay()];
-
-    const createDateFromTime = (baseDate: Date, timeStr: string): Date => {
-        const [hours, minutes] = timeStr.split(':').map(Number);
-        const d = new Date(baseDate);
-        d.setHours(hours, minutes, 0, 0);
-        return d;
-    };
+ * Picks the location provider used unless a place has been chosen to measure from: the device's own.
+ */
+function getDefaultLocationProvider(): LocationProvider {
+    return browserLocationProvider;
+}
 
-    let soonestUpcomingStart: Date | null = null;
-
-    // --- STEP 1: Check if we are currently in an "overnight" happy hour that started yesterday. ---
-    if (hh.days.includes(yesterdayDayStr)) {
-        for (const range of hh.timeRanges) {
-            if (!range.start || !range.end) continue;
-            
-            const startHours = parseInt(range.start.split(':')[0]);
-            const endHours = parseInt(range.end.split(':')[0]);
-
-            if (endHours < startHours) { // This is an overnight range
-                const startDate = createDateFromTime(yesterday, range.start);
-                const endDate = createDateFromTime(now, range.end);
-                
-                if (now >= startDate && now < endDate) {
-                    const millisUntilEnd = endDate.getTime() - now.getTime();
-                    return {
-                        status: 'active',
-                        minutesUntilEnd: Math.round(millisUntilEnd / 60000)
-                    };
-                }
-            }
-        }
-    }
+let locationProvider: LocationProvider = getDefaultLocationProvider();
 
-    // --- STEP 2: Check for active or upcoming happy hours based on today's schedule. ---
-    if (hh.days.includes(nowDayStr)) {
-        for (const range of hh.timeRanges) {
-            if (!range.start || !range.end) continue;
-            
-            const startDate = createDateFromTime(now, range.start);
-            let endDate = createDateFromTime(now, range.end);
+/**
+ * Fetches the user's location if a location-based sort or filter needs it, then re-renders.
+ * Falls back to the previous sort and filters (with a message) if the location can't be found.
+ */
+async function refreshUserLocation() {
+    const needsLocation = activeFilters.walkable || currentSortOrder === 'distance' || currentSortOrder === 'best';
+    if (!needsLocation) return;
 
-            if (endDate <= startDate) { // Handle overnight range for today
-                endDate.setDate(endDate.getDate() + 1);
-            }
-            
-            // Is it active right now?
-            if (now >= startDate && now < endDate) {
-                const millisUntilEnd = endDate.getTime() - now.getTime();
-                return {
-                    status: 'active',
-                    minutesUntilEnd: Math.round(millisUntilEnd / 60000)
-                };
-            }
-            // Is it upcoming later today?
-            else if (startDate > now) {
-                if (!soonestUpcomingStart || startDate < soonestUpcomingStart) {
-                    soonestUpcomingStart = startDate;
-                }
-            }
+    try {
+        userLocation = await locateUser(locationProvider);
+    } catch (error) {
+        console.error("Failed to get the user's location:", error);
+        if (!userLocation) {
+            showToast(error instanceof Error ? error.message : "Couldn't determine your location.");
         }
     }
-
-    // --- STEP 3: If we found any upcoming slots, return the soonest one. ---
-    if (soonestUpcomingStart) {
-        const millisUntilStart = soonestUpcomingStart.getTime() - now.getTime();
-        return {
-            status: 'upcoming',
-            minutesUntilStart: Math.round(millisUntilStart / 60000)
-        };
-    }
-
-    // --- STEP 4: If nothing else matched, it has ended for the day. ---
-    return { status: 'ended' };
+    filterAndRender();
 }
 
-
 /**
  * Applies the current filters and sort order to the main happy hour list and re-renders the view.
  */
 function filterAndRender() {
-    let filteredList = [...happyHours];
-
-    // Apply "Is Favorite" filter
-    if (activeFilters.isFavorite) {
-        filteredList = filteredList.filter(hh => hh.isFavorite);
-    }
-    
-    // Apply "Has Food" filter
-    if (activeFilters.hasFood) {
-        filteredList = filteredList.filter(hh => hh.hasFood);
-    }
-
-    const now = new Date();
-
-    // Apply time-based filters
-    if (activeFilters.activeWithin30Mins) {
-        filteredList = filteredList.filter(hh => {
-            const status = getHappyHourStatus(hh, now);
-            return status.status === 'active' || (status.status === 'upcoming' && status.minutesUntilStart! <= 30);
-        });
-    } else if (activeFilters.activeNow) {
-        filteredList = filteredList.filter(hh => {
-            const status = getHappyHourStatus(hh, now);
-            return status.status === 'active';
-        });
+    // Keep the tag chips in step with the data, since any edit, import or undo can change the tags in use.
+    renderTagFilters();
+
+    const filteredList = getFilteredHappyHours(new Date());
+    if (currentView === 'map') {
+        renderMapView(filteredList);
+    } else if (currentView === 'timeline') {
+        renderTimelineView(filteredList);
+    } else {
+        renderListView(filteredList);
     }
-    
-    // Apply sorting
-    filteredList.sort((a, b) => {
-        // 1. Primary sort: Favorites first
-        if (a.isFavorite && !b.isFavorite) return -1;
-        if (!a.isFavorite && b.isFavorite) return 1;
-
-        // 2. Secondary sort: Based on currentSortOrder
-        if (currentSortOrder === 'rating') {
-            // Sort by rating descending (higher rating first)
-            return b.rating - a.rating;
-        } else { // 'alphabetic'
-            // Sort by name ascending
-            return a.name.localeCompare(b.name);
-        }
-    });
+    updateUrl();
+}
 
-    renderListView(filteredList);
+/**
+ * Captures the filters currently chosen in the UI.
+ */
+function getCurrentFilterCriteria(): FilterCriteria {
+    return {
+        isFavorite: activeFilters.isFavorite,
+        hasFood: activeFilters.hasFood,
+        tags: [...activeTagFilters],
+        searchTerms: getSearchTerms(searchQuery),
+        activeNow: activeFilters.activeNow,
+        activeWithin30Mins: activeFilters.activeWithin30Mins,
+        notVisitedLately: activeFilters.notVisitedLately,
+        maxDealPrice,
+        openAfterTime,
+        walkableMinutes: activeFilters.walkable && userLocation ? walkableMinutes : null,
+    };
 }
 
+/**
+ * Applies the current filters, search and sort order to the stored happy hours.
+ * @param now The current Date object, used by the time-based filters and sorts.
+ * @returns The happy hours to show, in display order.
+ */
+function getFilteredHappyHours(now: Date): HappyHour[] {
+    return filterAndSortHappyHours(happyHours, getCurrentFilterCriteria(), currentSortOrder, { now, getWalkingMinutes: hh => userLocation?.getWalkingMinutes(hh) ?? null, isNotVisitedLately });
+}
 
 // --- MODAL AND FORM LOGIC ---
 
@@ -322,15 +837,13 @@ function openAddModal() {
     elements.form.removeAttribute('data-editing-id');
     elements.modalTitle.textContent = "Add New Happy Hour";
     resetForm();
+    elements.editActions.style.display = 'none';
 
     // Pre-select weekdays as a default for new entries
-    const weekdays = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri'];
-    weekdays.forEach(day => {
-        const dayButton = elements.daysContainer.querySelector(`[data-day="${day}"]`);
-        dayButton?.classList.add('active');
-    });
+    renderScheduleEditor(buildWeeklySchedule(WEEKDAY_CODES, []));
 
     elements.modal.style.display = 'flex';
+    updateUrl();
 }
 
 function openEditModal(id: number) {
@@ -342,6 +855,7 @@ function openEditModal(id: number) {
 
     resetForm();
     elements.form.dataset.editingId = String(id);
+    elements.editActions.style.display = 'flex';
     elements.modalTitle.textContent = "Edit Happy Hour";
 
     // Populate form fields
@@ -350,109 +864,400 @@ function openEditModal(id: number) {
     elements.specialsInput.value = hhToEdit.specials;
     elements.foodToggle.checked = hhToEdit.hasFood;
     elements.favoriteToggle.checked = hhToEdit.isFavorite;
+    elements.latInput.value = hhToEdit.coordinates ? String(hhToEdit.coordinates.lat) : '';
+    elements.lngInput.value = hhToEdit.coordinates ? String(hhToEdit.coordinates.lng) : '';
     updateRating(hhToEdit.rating);
-    
-    // Set active days
-    hhToEdit.days.forEach(day => {
-        const dayButton = elements.daysContainer.querySelector(`[data-day="${day}"]`);
-        dayButton?.classList.add('active');
-    });
 
-    // Populate time ranges
-    elements.timeRangesContainer.innerHTML = ''; // Clear defaults
-    if (hhToEdit.timeRanges.length > 0) {
-        hhToEdit.timeRanges.forEach(range => {
-            addTimeRangeInput(range.start, range.end);
-        });
-    } else {
-        addTimeRangeInput(); // Add one blank one if none exist
-    }
-    
+    // Populate the per-day schedule and date constraints
+    renderScheduleEditor(hhToEdit.schedule);
+    elements.startDateInput.value = hhToEdit.startDate ?? '';
+    elements.endDateInput.value = hhToEdit.endDate ?? '';
+    (hhToEdit.blackoutDates ?? []).forEach(addBlackoutChip);
+    (hhToEdit.events ?? []).forEach(addEventInput);
+    (hhToEdit.deals ?? []).forEach(addDealInput);
+    hhToEdit.tags.forEach(addTagChip);
+
     elements.modal.style.display = 'flex';
+    updateUrl();
 }
 
 function closeModal() {
     elements.modal.style.display = 'none';
+    updateUrl();
 }
 
 function resetForm() {
     elements.form.reset();
-    elements.daysContainer.querySelectorAll('.active').forEach(el => el.classList.remove('active'));
-    elements.timeRangesContainer.innerHTML = '';
-    addTimeRangeInput(); // Add one initial time range
+    renderScheduleEditor({});
+    elements.blackoutDatesContainer.innerHTML = '';
+    elements.eventsContainer.innerHTML = '';
+    elements.dealsContainer.innerHTML = '';
+    elements.tagsContainer.innerHTML = '';
     updateRating(0);
     elements.favoriteToggle.checked = false;
     elements.formError.style.display = 'none';
+    elements.assistStatus.textContent = '';
     elements.form.removeAttribute('data-editing-id');
+    elements.form.removeAttribute('data-confirmed-duplicate');
 }
 
-function addTimeRangeInput(startValue = '', endValue = '') {
-    const div = document.createElement('div');
-    div.className = 'time-range-input';
-    div.innerHTML = `
-        <input type="time" class="time-start" value="${startValue}" required>
-        <span>to</span>
-        <input type="time" class="time-end" value="${endValue}" required>
-        <button type="button" class="remove-time-range-btn" aria-label="Remove time range">&times;</button>
-    `;
-    elements.timeRangesContainer.appendChild(div);
-}
-
-function updateRating(newRating: number) {
-    (elements.ratingContainer as HTMLElement).dataset.rating = String(newRating);
-    elements.ratingContainer.querySelectorAll('span').forEach(star => {
-        const starValue = parseInt((star as HTMLElement).dataset.value!);
-        star.textContent = starValue <= newRating ? '★' : '☆';
+/**
+ * Builds the per-day schedule editor: one row per weekday with an on/off toggle and its own time ranges.
+ * @param schedule The schedule to show. Days present in it (even with no ranges) start switched on.
+ */
+function renderScheduleEditor(schedule: WeeklySchedule) {
+    elements.scheduleEditor.innerHTML = '';
+    DAY_CODES.forEach(day => {
+        const row = document.createElement('div');
+        row.className = 'schedule-day';
+        row.dataset.day = day;
+        setHtml(row, html`
+            <div class="schedule-day-header">
+                <label class="schedule-day-toggle"><input type="checkbox" class="day-enabled"> ${day}</label>
+                <button type="button" class="text-button copy-weekdays-btn">Copy to all weekdays</button>
+            </div>
+            <div class="day-ranges"></div>
+            <button type="button" class="text-button add-range-btn">+ Add time range</button>
+        `);
+        elements.scheduleEditor.appendChild(row);
+
+        const ranges = schedule[day];
+        if (ranges) {
+            setDayRanges(row, ranges);
+        } else {
+            setDayEnabled(row, false);
+        }
     });
 }
 
-function handleFormSubmit(event: SubmitEvent) {
-    event.preventDefault();
-    elements.formError.style.display = 'none';
+/**
+ * Switches a day on or off in the schedule editor. An enabled day always has at least one time range row.
+ * @param row The day's row element.
+ * @param enabled Whether the day has happy hours.
+ */
+function setDayEnabled(row: HTMLElement, enabled: boolean) {
+    (row.querySelector('.day-enabled') as HTMLInputElement).checked = enabled;
+    row.classList.toggle('disabled', !enabled);
+    const rangesContainer = row.querySelector('.day-ranges')!;
+    if (enabled && rangesContainer.children.length === 0) {
+        addTimeRangeInput(rangesContainer);
+    }
+}
 
-    // Collect and validate data
-    const name = elements.nameInput.value.trim();
-    const address = elements.addressInput.value.trim();
-    const specials = elements.specialsInput.value.trim();
-    const days = Array.from(elements.daysContainer.querySelectorAll('.active')).map(el => (el as HTMLElement).dataset.day!);
-    const hasFood = elements.foodToggle.checked;
-    const isFavorite = elements.favoriteToggle.checked;
-    const rating = parseInt((elements.ratingContainer as HTMLElement).dataset.rating || '0');
+/**
+ * Replaces a day's time range rows in the schedule editor and switches the day on.
+ * @param row The day's row element.
+ * @param ranges The time ranges to show.
+ */
+function setDayRanges(row: HTMLElement, ranges: TimeRange[]) {
+    const rangesContainer = row.querySelector('.day-ranges')!;
+    rangesContainer.innerHTML = '';
+    ranges.forEach(range => addTimeRangeInput(rangesContainer, range.start, range.end));
+    setDayEnabled(row, true);
+}
 
-    const timeRanges: TimeRange[] = [];
-    const timeRangeInputs = elements.timeRangesContainer.querySelectorAll('.time-range-input');
-    timeRangeInputs.forEach(tr => {
+/**
+ * Reads a single day's time range rows from the schedule editor, skipping incomplete rows.
+ * @param row The day's row element.
+ */
+function readDayRanges(row: HTMLElement): TimeRange[] {
+    const ranges: TimeRange[] = [];
+    row.querySelectorAll('.time-range-input').forEach(tr => {
         const start = (tr.querySelector('.time-start') as HTMLInputElement).value;
         const end = (tr.querySelector('.time-end') as HTMLInputElement).value;
         if (start && end) {
-            timeRanges.push({ start, end });
+            ranges.push({ start, end });
         }
     });
+    return ranges;
+}
 
-    // Validation
-    if (!name || !address || !specials) {
-        elements.formError.textContent = "Please fill out Name, Address, and Specials.";
-        elements.formError.style.display = 'block';
-        return;
-    }
-    if (days.length === 0) {
-        elements.formError.textContent = "Please select at least one day of the week.";
-        elements.formError.style.display = 'block';
-        return;
-    }
-    if (timeRanges.length === 0) {
-        elements.formError.textContent = "Please add at least one valid time range.";
-        elements.formError.style.display = 'block';
-        return;
+/**
+ * Copies one day's time ranges to every weekday (Mon–Fri) in the schedule editor.
+ * @param sourceDay The day whose ranges should be copied.
+ */
+function copyDayToWeekdays(sourceDay: string) {
+    const sourceRow = elements.scheduleEditor.querySelector(`[data-day="${sourceDay}"]`) as HTMLElement;
+    const ranges = readDayRanges(sourceRow);
+    WEEKDAY_CODES.forEach(day => {
+        if (day === sourceDay) return;
+        const row = elements.scheduleEditor.querySelector(`[data-day="${day}"]`) as HTMLElement;
+        setDayRanges(row, ranges);
+    });
+}
+
+function handleScheduleEditorClick(event: MouseEvent) {
+    const target = event.target as HTMLElement;
+    const row = target.closest('.schedule-day') as HTMLElement | null;
+    if (!row) return;
+
+    if (target.classList.contains('remove-time-range-btn')) {
+        const rangesContainer = row.querySelector('.day-ranges')!;
+        if (rangesContainer.children.length > 1) {
+            target.parentElement?.remove();
+        }
+    } else if (target.classList.contains('add-range-btn')) {
+        addTimeRangeInput(row.querySelector('.day-ranges')!);
+        setDayEnabled(row, true);
+    } else if (target.classList.contains('copy-weekdays-btn')) {
+        copyDayToWeekdays(row.dataset.day!);
     }
-    if (rating === 0) {
-        elements.formError.textContent = "Please provide a rating.";
-        elements.formError.style.display = 'block';
-        return;
+}
+
+function handleScheduleEditorChange(event: Event) {
+    const target = event.target as HTMLElement;
+    if (target.classList.contains('day-enabled')) {
+        setDayEnabled(target.closest('.schedule-day') as HTMLElement, (target as HTMLInputElement).checked);
+    }
+}
+
+/**
+ * Adds a removable blackout date chip to the form, ignoring duplicates.
+ * @param dateKey The date in "YYYY-MM-DD" format.
+ */
+function addBlackoutChip(dateKey: string) {
+    const existing = Array.from(elements.blackoutDatesContainer.querySelectorAll('.chip')).map(el => (el as HTMLElement).dataset.date);
+    if (!dateKey || existing.includes(dateKey)) return;
+    const chip = document.createElement('span');
+    chip.className = 'chip';
+    chip.dataset.date = dateKey;
+    setHtml(chip, html`${dateKey} <button type="button" class="remove-chip-btn" aria-label="Remove blackout date">&times;</button>`);
+    elements.blackoutDatesContainer.appendChild(chip);
+}
+
+/**
+ * Adds a removable tag chip to the form, ignoring blanks and duplicates.
+ * @param tag The tag text.
+ */
+function addTagChip(tag: string) {
+    const normalized = normalizeTag(tag);
+    const existing = Array.from(elements.tagsContainer.querySelectorAll('.chip')).map(el => (el as HTMLElement).dataset.tag);
+    if (!normalized || existing.includes(normalized)) return;
+    const chip = document.createElement('span');
+    chip.className = 'chip';
+    chip.dataset.tag = normalized;
+    setHtml(chip, html`#${normalized} <button type="button" class="remove-chip-btn" aria-label="Remove tag">&times;</button>`);
+    elements.tagsContainer.appendChild(chip);
+}
+
+/**
+ * Adds whatever is typed in the tag input as one or more (comma-separated) tags.
+ */
+function commitTagInput() {
+    elements.tagInput.value.split(',').forEach(addTagChip);
+    elements.tagInput.value = '';
+}
+
+/**
+ * Adds a one-off event row to the form.
+ * @param event The event to prefill, if any.
+ */
+function addEventInput(event?: OneOffEvent) {
+    const div = document.createElement('div');
+    div.className = 'event-input';
+    setHtml(div, renderEventRow(event));
+    elements.eventsContainer.appendChild(div);
+}
+
+function addDealInput(deal?: DealItem) {
+    const div = document.createElement('div');
+    div.className = 'deal-input';
+    setHtml(div, renderDealRow(deal));
+    elements.dealsContainer.appendChild(div);
+}
+
+function addTimeRangeInput(container: Element, startValue = '', endValue = '') {
+    const div = document.createElement('div');
+    div.className = 'time-range-input';
+    setHtml(div, renderTimeRangeRow(startValue, endValue));
+    container.appendChild(div);
+}
+
+/**
+ * Shows or clears the inline error for a time range or one-off event row of the form.
+ * @param row The row element.
+ * @param message The error, or null to clear it.
+ */
+function setRowError(row: Element, message: string | null) {
+    row.classList.toggle('invalid', message !== null);
+    row.querySelector('.row-error')?.remove();
+    if (message) {
+        const error = document.createElement('p');
+        error.className = 'row-error';
+        error.setAttribute('role', 'alert');
+        error.textContent = message;
+        row.appendChild(error);
+    }
+}
+
+/**
+ * Clears a row's inline error as soon as the user edits it.
+ */
+function handleRowInput(event: Event) {
+    const row = (event.target as HTMLElement).closest('.time-range-input, .event-input');
+    if (row) setRowError(row, null);
+}
+
+function updateRating(newRating: number) {
+    (elements.ratingContainer as HTMLElement).dataset.rating = String(newRating);
+    elements.ratingContainer.querySelectorAll('span').forEach(star => {
+        const starValue = parseInt((star as HTMLElement).dataset.value!);
+        star.textContent = starValue <= newRating ? '★' : '☆';
+    });
+}
+
+function handleFormSubmit(event: SubmitEvent) {
+    event.preventDefault();
+    elements.formError.style.display = 'none';
+
+    // Collect and validate data
+    const name = elements.nameInput.value.trim();
+    const address = elements.addressInput.value.trim();
+    const specials = elements.specialsInput.value.trim();
+    const hasFood = elements.foodToggle.checked;
+    const isFavorite = elements.favoriteToggle.checked;
+    const rating = parseInt((elements.ratingContainer as HTMLElement).dataset.rating || '0');
+    const latStr = elements.latInput.value.trim();
+    const lngStr = elements.lngInput.value.trim();
+    const startDate = elements.startDateInput.value || undefined;
+    const endDate = elements.endDateInput.value || undefined;
+    const blackoutDates = Array.from(elements.blackoutDatesContainer.querySelectorAll('.chip'))
+        .map(el => (el as HTMLElement).dataset.date!)
+        .sort();
+
+    commitTagInput(); // Include a tag that was typed but not yet added
+    const tags = Array.from(elements.tagsContainer.querySelectorAll('.chip')).map(el => (el as HTMLElement).dataset.tag!);
+
+    // Event rows left completely blank are ignored; anything else must be a valid event.
+    const eventRows: { row: Element; date: string; start: string; end: string; label: string }[] = [];
+    elements.eventsContainer.querySelectorAll('.event-input').forEach(row => {
+        const date = (row.querySelector('.event-date') as HTMLInputElement).value;
+        const start = (row.querySelector('.time-start') as HTMLInputElement).value;
+        const end = (row.querySelector('.time-end') as HTMLInputElement).value;
+        const label = (row.querySelector('.event-label') as HTMLInputElement).value.trim();
+        setRowError(row, null);
+        if (date || start || end || label) {
+            eventRows.push({ row, date, start, end, label });
+        }
+    });
+    const eventErrors = validateEvents(eventRows);
+    eventRows.forEach((ev, i) => setRowError(ev.row, eventErrors[i]));
+    const events: OneOffEvent[] = eventRows
+        .filter((_, i) => !eventErrors[i])
+        .map(({ date, start, end, label }) => label ? { date, start, end, label } : { date, start, end });
+    events.sort((a, b) => (a.date + a.start).localeCompare(b.date + b.start));
+
+    const deals: DealItem[] = [];
+    let hasIncompleteDeal = false;
+    elements.dealsContainer.querySelectorAll('.deal-input').forEach(row => {
+        const category = (row.querySelector('.deal-category') as HTMLSelectElement).value as DealCategory;
+        const description = (row.querySelector('.deal-description') as HTMLInputElement).value.trim();
+        const regularStr = (row.querySelector('.deal-regular-price') as HTMLInputElement).value;
+        const priceStr = (row.querySelector('.deal-price') as HTMLInputElement).value;
+        const happyHourPrice = parseFloat(priceStr);
+        const regularPrice = regularStr ? parseFloat(regularStr) : undefined;
+        if (description && happyHourPrice >= 0 && (regularPrice === undefined || regularPrice >= 0)) {
+            deals.push(regularPrice === undefined ? { category, description, happyHourPrice } : { category, description, regularPrice, happyHourPrice });
+        } else if (description || regularStr || priceStr) {
+            hasIncompleteDeal = true;
+        }
+    });
+
+    // Likewise, blank time range rows are ignored, and half-filled ones are flagged rather than dropped.
+    const enteredRanges: { [day: string]: { row: Element; start: string; end: string }[] } = {};
+    const daysMissingRanges: string[] = [];
+    elements.scheduleEditor.querySelectorAll('.schedule-day').forEach(el => {
+        const row = el as HTMLElement;
+        const rangeRows = Array.from(row.querySelectorAll('.time-range-input')).map(rangeRow => ({
+            row: rangeRow,
+            start: (rangeRow.querySelector('.time-start') as HTMLInputElement).value,
+            end: (rangeRow.querySelector('.time-end') as HTMLInputElement).value,
+        }));
+        rangeRows.forEach(r => setRowError(r.row, null));
+        if (!(row.querySelector('.day-enabled') as HTMLInputElement).checked) return;
+
+        const entered = rangeRows.filter(r => r.start || r.end);
+        if (entered.length === 0) {
+            daysMissingRanges.push(row.dataset.day!);
+        } else {
+            enteredRanges[row.dataset.day!] = entered;
+        }
+    });
+    // Days are checked together, since an overnight range can clash with the next day's first range.
+    const schedule: WeeklySchedule = {};
+    let hasInvalidRange = false;
+    const scheduleErrors = validateSchedule(enteredRanges);
+    Object.entries(enteredRanges).forEach(([day, entered]) => {
+        const errors = scheduleErrors[day];
+        entered.forEach((r, i) => setRowError(r.row, errors[i]));
+        if (errors.some(error => error)) {
+            hasInvalidRange = true;
+        } else {
+            schedule[day] = entered.map(({ start, end }) => ({ start, end }));
+        }
+    });
+
+    // Validation
+    if (!name || !address || !specials) {
+        elements.formError.textContent = "Please fill out Name, Address, and Specials.";
+        elements.formError.style.display = 'block';
+        return;
+    }
+    if (Object.keys(schedule).length === 0 && daysMissingRanges.length === 0 && !hasInvalidRange && eventRows.length === 0) {
+        elements.formError.textContent = "Please select at least one day of the week, or add a one-off event.";
+        elements.formError.style.display = 'block';
+        return;
+    }
+    if (daysMissingRanges.length > 0) {
+        elements.formError.textContent = `Please add a valid time range for ${daysMissingRanges.join(', ')}, or switch ${daysMissingRanges.length > 1 ? 'those days' : 'that day'} off.`;
+        elements.formError.style.display = 'block';
+        return;
+    }
+    if (hasInvalidRange || eventErrors.some(error => error)) {
+        elements.formError.textContent = "Please fix the time ranges marked below.";
+        elements.formError.style.display = 'block';
+        return;
+    }
+    if (hasIncompleteDeal) {
+        elements.formError.textContent = "Please give each deal a description and a happy hour price, or remove it.";
+        elements.formError.style.display = 'block';
+        return;
+    }
+    if (startDate && endDate && startDate > endDate) {
+        elements.formError.textContent = "The season's start date must be on or before its end date.";
+        elements.formError.style.display = 'block';
+        return;
+    }
+    if (rating === 0) {
+        elements.formError.textContent = "Please provide a rating.";
+        elements.formError.style.display = 'block';
+        return;
+    }
+
+    // Coordinates are optional, but if given both must be present and valid.
+    let coordinates: Coordinates | undefined;
+    if (latStr || lngStr) {
+        const lat = parseFloat(latStr);
+        const lng = parseFloat(lngStr);
+        if (isNaN(lat) || isNaN(lng) || Math.abs(lat) > 90 || Math.abs(lng) > 180) {
+            elements.formError.textContent = "Please enter a valid latitude and longitude, or leave both blank.";
+            elements.formError.style.display = 'block';
+            return;
+        }
+        coordinates = { lat, lng };
     }
 
     const editingIdStr = elements.form.dataset.editingId;
 
+    // Warn once about a venue that's already in the list; saving again keeps both.
+    const duplicate = findDuplicateVenue({ name, address }, happyHours, editingIdStr ? parseInt(editingIdStr, 10) : undefined);
+    if (duplicate && elements.form.dataset.confirmedDuplicate !== getDuplicateKey(duplicate)) {
+        elements.form.dataset.confirmedDuplicate = getDuplicateKey(duplicate);
+        elements.formError.textContent = `${duplicate.name} at ${duplicate.address} is already in your list${duplicate.isArchived ? ' (archived)' : ''}. Save again to keep both.`;
+        elements.formError.style.display = 'block';
+        return;
+    }
+
     if (editingIdStr) {
         // --- EDIT MODE ---
         const editingId = parseInt(editingIdStr, 10);
@@ -462,26 +1267,39 @@ function handleFormSubmit(event: SubmitEvent) {
                 ...happyHours[hhIndex],
                 name,
                 address,
-                days,
-                timeRanges,
+                schedule,
                 specials,
                 hasFood,
                 isFavorite,
-                rating
+                rating,
+                tags,
+                coordinates,
+                startDate,
+                endDate,
+                blackoutDates,
+                events,
+                deals
             };
         }
     } else {
         // --- ADD MODE ---
         const newHappyHour: HappyHour = {
-            id: Date.now(), // Simple unique ID
+            id: createRandomId(),
             name,
             address,
-            days,
-            timeRanges,
+            schedule,
             specials,
             hasFood,
             isFavorite,
-            rating
+            isArchived: false,
+            rating,
+            tags,
+            coordinates,
+            startDate,
+            endDate,
+            blackoutDates,
+            events,
+            deals
         };
         happyHours.push(newHappyHour);
     }
@@ -491,8 +1309,299 @@ function handleFormSubmit(event: SubmitEvent) {
     closeModal();
 }
 
+// --- DELETE, ARCHIVE AND UNDO ---
+
+let toastTimeoutId: number | undefined;
+let pendingUndo: (() => void) | null = null;
+
+/**
+ * Shows a toast message with an "Undo" button. Only the most recent action can be undone.
+ * @param message The message to display.
+ * @param undo Called if the user taps "Undo" before the toast disappears.
+ */
+function showUndoToast(message: string, undo: () => void) {
+    showToast(message);
+    pendingUndo = undo;
+    elements.toastUndoBtn.style.display = '';
+}
+
+/**
+ * Shows a short informational toast message.
+ * @param message The message to display.
+ */
+function showToast(message: string) {
+    pendingUndo = null;
+    elements.toastUndoBtn.style.display = 'none';
+    elements.toastMessage.textContent = message;
+    elements.toast.style.display = 'flex';
+    window.clearTimeout(toastTimeoutId);
+    toastTimeoutId = window.setTimeout(hideToast, 6000);
+}
+
+function hideToast() {
+    pendingUndo = null;
+    elements.toast.style.display = 'none';
+    window.clearTimeout(toastTimeoutId);
+}
+
+function handleUndoClick() {
+    const undo = pendingUndo;
+    hideToast();
+    if (undo) {
+        undo();
+        saveHappyHoursToDB(happyHours);
+        filterAndRender();
+        renderArchivedList();
+    }
+}
+
+/**
+ * Sets the archived flag on a happy hour, persists the change and offers an undo.
+ * @param id The ID of the happy hour.
+ * @param isArchived Whether the entry should be archived (true) or restored (false).
+ */
+function setArchived(id: number, isArchived: boolean) {
+    const hh = happyHours.find(h => h.id === id);
+    if (!hh) return;
+
+    hh.isArchived = isArchived;
+    saveHappyHoursToDB(happyHours);
+    filterAndRender();
+    renderArchivedList();
+    showUndoToast(`${isArchived ? 'Archived' : 'Restored'} "${hh.name}"`, () => { hh.isArchived = !isArchived; });
+}
+
+/**
+ * Permanently removes a happy hour, persists the change and offers an undo.
+ * @param id The ID of the happy hour.
+ */
+function deleteHappyHour(id: number) {
+    const index = happyHours.findIndex(h => h.id === id);
+    if (index === -1) return;
+
+    const [removed] = happyHours.splice(index, 1);
+    saveHappyHoursToDB(happyHours);
+    filterAndRender();
+    renderArchivedList();
+    showUndoToast(`Deleted "${removed.name}"`, () => { happyHours.splice(index, 0, removed); });
+}
+
+function handleArchiveFromForm() {
+    const id = parseInt(elements.form.dataset.editingId || '', 10);
+    if (isNaN(id)) return;
+    closeModal();
+    setArchived(id, true);
+}
+
+function handleDeleteFromForm() {
+    const id = parseInt(elements.form.dataset.editingId || '', 10);
+    if (isNaN(id)) return;
+    closeModal();
+    deleteHappyHour(id);
+}
+
+/**
+ * Renders the archived entries into the archive modal, each with restore and purge actions.
+ */
+function renderArchivedList() {
+    const archived = happyHours.filter(hh => hh.isArchived).sort((a, b) => a.name.localeCompare(b.name));
+    elements.archivedBtn.textContent = `Archived (${archived.length})`;
+    elements.archivedList.innerHTML = '';
+
+    if (archived.length === 0) {
+        setHtml(elements.archivedList, html`<div class="empty-state"><h3>Nothing Archived</h3><p>Archived happy hours will show up here.</p></div>`);
+        return;
+    }
+
+    const fragment = document.createDocumentFragment();
+    archived.forEach(hh => {
+        const row = document.createElement('div');
+        row.className = 'archived-row';
+        setHtml(row, renderArchivedRow(hh));
+        fragment.appendChild(row);
+    });
+    elements.archivedList.appendChild(fragment);
+}
+
+function openArchivedModal() {
+    renderArchivedList();
+    elements.archivedModal.style.display = 'flex';
+    updateUrl();
+}
+
+function closeArchivedModal() {
+    elements.archivedModal.style.display = 'none';
+    updateUrl();
+}
+
+function handleArchivedListClick(event: MouseEvent) {
+    const target = event.target as HTMLElement;
+    const actionButton = target.closest('[data-action]');
+    if (actionButton && actionButton instanceof HTMLElement) {
+        const id = parseInt(actionButton.dataset.id!, 10);
+        if (isNaN(id)) return;
+        if (actionButton.dataset.action === 'restore') {
+            setArchived(id, false);
+        } else if (actionButton.dataset.action === 'purge') {
+            deleteHappyHour(id);
+        }
+    }
+}
+
+// --- IMPORT AND EXPORT ---
+
+/**
+ * Triggers a browser download of the given text.
+ * @param filename The suggested file name.
+ * @param content The file contents.
+ * @param mimeType The MIME type of the file.
+ */
+function downloadFile(filename: string, content: string, mimeType: string) {
+    const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+    URL.revokeObjectURL(url);
+}
+
+function getExportFileStem(): string {
+    return `kw-happy-hours-${new Date().toISOString().slice(0, 10)}`;
+}
+
+function handleExportJson() {
+    const payload = { exportedAt: new Date().toISOString(), happyHours };
+    downloadFile(`${getExportFileStem()}.json`, JSON.stringify(payload, null, 2), 'application/json');
+}
+
+function handleExportCsv() {
+    downloadFile(`${getExportFileStem()}.csv`, happyHoursToCsv(happyHours), 'text/csv');
+}
+
+function openDataModal() {
+    elements.importFileInput.value = '';
+    elements.importReport.innerHTML = '';
+    elements.importReport.style.display = 'none';
+    renderSyncStatus();
+    elements.dataModal.style.display = 'flex';
+    updateUrl();
+}
+
+function closeDataModal() {
+    elements.dataModal.style.display = 'none';
+    updateUrl();
+}
+
+/**
+ * Shows the outcome of an import, including a per-row list of validation errors.
+ * @param summary A one-line summary of what was imported.
+ * @param results The per-row validation results.
+ */
+function renderImportReport(summary: string, results: ImportRowResult[]) {
+    const failed = results.filter(r => r.errors.length > 0);
+    const rows = failed.map(r => html`<li><strong>${r.row > 0 ? `Row ${r.row}` : 'File'}:</strong> ${r.errors.join(' ')}</li>`);
+    setHtml(elements.importReport, html`
+        <p>${summary}</p>
+        ${failed.length > 0 ? html`<p>${failed.length} row(s) skipped:</p><ul>${rows}</ul>` : ''}
+    `);
+    elements.importReport.style.display = 'block';
+}
+
+async function handleImport() {
+    const file = elements.importFileInput.files?.[0];
+    if (!file) {
+        renderImportReport('Please choose a JSON or CSV file to import.', []);
+        return;
+    }
+
+    const isCsv = file.name.toLowerCase().endsWith('.csv') || file.type === 'text/csv';
+    let results: ImportRowResult[];
+    try {
+        const text = await file.text();
+        results = isCsv ? parseCsvImport(text) : parseJsonImport(text);
+    } catch (error) {
+        console.error("Failed to read the import file:", error);
+        renderImportReport('Nothing was imported.', [{ row: 0, errors: [`The file couldn't be read (${error instanceof Error ? error.message : String(error)}).`] }]);
+        return;
+    }
+    skipDuplicateRows(results);
+    const records = results.filter(r => r.record);
+    const mode = (elements.dataModal.querySelector('input[name="import-mode"]:checked') as HTMLInputElement).value as ImportMode;
+
+    if (records.length === 0) {
+        renderImportReport('Nothing was imported.', results);
+        return;
+    }
+
+    const previous = happyHours.map(hh => ({ ...hh }));
+    const { merged, added, updated } = mergeImport(happyHours, records, mode, createRandomId);
+    happyHours = merged;
+    saveHappyHoursToDB(happyHours);
+    filterAndRender();
+    renderArchivedList();
+
+    renderImportReport(`Imported ${records.length} happy hour(s): ${added} added, ${updated} updated.`, results);
+    showUndoToast(`Imported ${records.length} happy hour(s)`, () => { happyHours = previous; });
+}
+
+// --- CALENDAR EXPORT ---
+
+/**
+ * Downloads an .ics file for the given happy hours, or explains why there is nothing to export.
+ * @param data The happy hours to export.
+ * @param filename The file name, without extension.
+ */
+function exportCalendar(data: HappyHour[], filename: string) {
+    const ics = happyHoursToIcs(data, new Date());
+    if (!ics) {
+        showToast('Nothing to add to a calendar: no upcoming happy hours.');
+        return;
+    }
+    downloadFile(`${filename}.ics`, ics, 'text/calendar');
+}
+
+function handleExportCalendarForVenue(id: number) {
+    const hh = happyHours.find(h => h.id === id);
+    if (!hh) return;
+    const slug = hh.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'happy-hour';
+    exportCalendar([hh], slug);
+}
+
+function handleExportCalendarForList() {
+    exportCalendar(getFilteredHappyHours(new Date()), getExportFileStem());
+}
+
 function handleListClick(event: MouseEvent) {
     const target = event.target as HTMLElement;
+    const remindButton = target.closest('.remind-btn');
+    if (remindButton && remindButton instanceof HTMLElement) {
+        const id = parseInt(remindButton.dataset.id!, 10);
+        if (!isNaN(id)) {
+            toggleVenueReminder(id);
+        }
+        return;
+    }
+
+    const calendarButton = target.closest('.calendar-btn');
+    if (calendarButton && calendarButton instanceof HTMLElement) {
+        const id = parseInt(calendarButton.dataset.id!, 10);
+        if (!isNaN(id)) {
+            handleExportCalendarForVenue(id);
+        }
+        return;
+    }
+
+    const venueLink = target.closest('.venue-link');
+    if (venueLink && venueLink instanceof HTMLElement) {
+        const id = parseInt(venueLink.dataset.id!, 10);
+        if (!isNaN(id)) {
+            openVenueDetail(id);
+        }
+        return;
+    }
+
     const editButton = target.closest('.edit-btn');
     if (editButton && editButton instanceof HTMLElement) {
         const id = parseInt(editButton.dataset.id!, 10);
@@ -502,8 +1611,83 @@ function handleListClick(event: MouseEvent) {
     }
 }
 
+function handleMapClick(event: MouseEvent) {
+    const target = event.target as Element;
+    if (target.closest('.edit-btn, .remind-btn, .calendar-btn, .venue-link')) {
+        handleListClick(event);
+        return;
+    }
+    if (target.closest('#map-popup')) return;
+
+    // Tapping a marker opens its card; tapping anywhere else on the map closes it.
+    const marker = target.closest('.map-marker');
+    const id = marker instanceof SVGElement ? parseInt(marker.dataset.id!, 10) : NaN;
+    selectedMapVenueId = isNaN(id) ? null : id;
+    filterAndRender();
+}
+
+function handleViewToggleClick(event: MouseEvent) {
+    const target = event.target as HTMLElement;
+    const viewButton = target.closest('[data-view]');
+    if (viewButton && viewButton instanceof HTMLElement) {
+        setView(viewButton.dataset.view as ViewMode);
+        filterAndRender();
+    }
+}
+
+function handleTimelineClick(event: MouseEvent) {
+    const target = event.target as HTMLElement;
+    const modeButton = target.closest('[data-timeline-mode]');
+    if (modeButton && modeButton instanceof HTMLElement) {
+        timelineMode = modeButton.dataset.timelineMode as 'day' | 'week';
+        filterAndRender();
+        return;
+    }
+
+    // Tapping a bar or a venue's name opens the venue.
+    const venueButton = target.closest('[data-id]');
+    if (venueButton && venueButton instanceof HTMLElement) {
+        const id = parseInt(venueButton.dataset.id!, 10);
+        if (!isNaN(id)) {
+            openVenueDetail(id);
+        }
+    }
+}
+
+/**
+ * Returns every tag used by a non-archived happy hour, sorted alphabetically.
+ */
+function getAllTags(): string[] {
+    const tags = new Set<string>();
+    happyHours.filter(hh => !hh.isArchived).forEach(hh => hh.tags.forEach(tag => tags.add(tag)));
+    return Array.from(tags).sort((a, b) => a.localeCompare(b));
+}
+
+/**
+ * Renders a filter chip for each tag in use, and the suggestions offered by the tag input.
+ * Selected tags that are no longer in use are dropped from the active filters.
+ */
+function renderTagFilters() {
+    const allTags = getAllTags();
+    activeTagFilters = activeTagFilters.filter(tag => allTags.includes(tag));
+
+    setHtml(elements.tagFilters, renderTagFilterButtons(allTags, activeTagFilters));
+    setHtml(elements.tagSuggestions, renderSuggestions(allTags));
+}
+
 function handleFilterClick(event: MouseEvent) {
     const target = event.target as HTMLElement;
+    const tagButton = target.closest('[data-tag]');
+    if (tagButton && tagButton instanceof HTMLElement) {
+        const tag = tagButton.dataset.tag!;
+        activeTagFilters = activeTagFilters.includes(tag)
+            ? activeTagFilters.filter(t => t !== tag)
+            : [...activeTagFilters, tag];
+        tagButton.classList.toggle('active');
+        filterAndRender();
+        return;
+    }
+
     const filterButton = target.closest('[data-filter]');
 
     if (filterButton && filterButton instanceof HTMLElement) {
@@ -524,6 +1708,9 @@ function handleFilterClick(event: MouseEvent) {
         }
 
         filterAndRender();
+        if (filterName === 'walkable') {
+            refreshUserLocation();
+        }
     }
 }
 
@@ -536,31 +1723,150 @@ function setupEventListeners() {
         }
     });
     elements.form.addEventListener('submit', handleFormSubmit);
-    elements.addTimeRangeBtn.addEventListener('click', () => addTimeRangeInput());
-    elements.filtersContainer.addEventListener('click', handleFilterClick);
-    elements.sortSelect.addEventListener('change', () => {
-        currentSortOrder = elements.sortSelect.value as 'alphabetic' | 'rating';
-        filterAndRender();
+    elements.archiveBtn.addEventListener('click', handleArchiveFromForm);
+    elements.deleteBtn.addEventListener('click', handleDeleteFromForm);
+    elements.archivedBtn.addEventListener('click', openArchivedModal);
+    elements.closeArchivedModalBtn.addEventListener('click', closeArchivedModal);
+    elements.archivedModal.addEventListener('click', (e) => {
+        if (e.target === elements.archivedModal) {
+            closeArchivedModal();
+        }
     });
-
-    // Event delegation for dynamic elements
-    elements.happyHourList.addEventListener('click', handleListClick);
-
-    elements.timeRangesContainer.addEventListener('click', (e) => {
-        const target = e.target as HTMLElement;
-        if (target.classList.contains('remove-time-range-btn')) {
-            if (elements.timeRangesContainer.children.length > 1) {
-                target.parentElement?.remove();
-            }
+    elements.archivedList.addEventListener('click', handleArchivedListClick);
+    elements.toastUndoBtn.addEventListener('click', handleUndoClick);
+    elements.dataBtn.addEventListener('click', openDataModal);
+    elements.closeDataModalBtn.addEventListener('click', closeDataModal);
+    elements.dataModal.addEventListener('click', (e) => {
+        if (e.target === elements.dataModal) {
+            closeDataModal();
         }
     });
-    
-    elements.daysContainer.addEventListener('click', (e) => {
+    elements.exportJsonBtn.addEventListener('click', handleExportJson);
+    elements.exportCsvBtn.addEventListener('click', handleExportCsv);
+    elements.exportIcsBtn.addEventListener('click', handleExportCalendarForList);
+    elements.importBtn.addEventListener('click', handleImport);
+    elements.downloadQuarantineBtn.addEventListener('click', handleDownloadQuarantine);
+    elements.discardQuarantineBtn.addEventListener('click', handleDiscardQuarantine);
+    elements.assistParseBtn.addEventListener('click', handleAssistParse);
+    elements.askForm.addEventListener('submit', handleAskSubmit);
+    elements.clearAskBtn.addEventListener('click', handleClearAskFilters);
+    elements.saveApiKeyBtn.addEventListener('click', handleSaveApiKey);
+    elements.removeApiKeyBtn.addEventListener('click', handleRemoveApiKey);
+    elements.closeDetailModalBtn.addEventListener('click', closeVenueDetail);
+    elements.detailModal.addEventListener('click', (e) => {
+        if (e.target === elements.detailModal) {
+            closeVenueDetail();
+        }
+    });
+    elements.visitForm.addEventListener('submit', handleVisitSubmit);
+    elements.shareVenueBtn.addEventListener('click', () => handleShareVenue(parseInt(elements.visitForm.dataset.venueId!, 10)));
+    elements.shareViewBtn.addEventListener('click', handleShareView);
+    elements.addSharedVenueBtn.addEventListener('click', handleAcceptShare);
+    elements.dismissSharedVenueBtn.addEventListener('click', handleDismissShare);
+    window.addEventListener('popstate', applyUrlState);
+    elements.visitHistory.addEventListener('click', handleVisitHistoryClick);
+    elements.remindersBtn.addEventListener('click', openRemindersModal);
+    elements.closeRemindersModalBtn.addEventListener('click', closeRemindersModal);
+    elements.remindersModal.addEventListener('click', (e) => {
+        if (e.target === elements.remindersModal) {
+            closeRemindersModal();
+        }
+    });
+    elements.remindersForm.addEventListener('change', handleReminderSettingsChange);
+    elements.saveSyncUrlBtn.addEventListener('click', handleSaveSyncUrl);
+    elements.turnOffSyncBtn.addEventListener('click', handleTurnOffSync);
+    elements.syncNowBtn.addEventListener('click', syncNow);
+    elements.reviewConflictsBtn.addEventListener('click', () => {
+        closeDataModal();
+        openConflictsModal();
+    });
+    elements.closeConflictsModalBtn.addEventListener('click', closeConflictsModal);
+    elements.conflictsModal.addEventListener('click', (e) => {
+        if (e.target === elements.conflictsModal) {
+            closeConflictsModal();
+        }
+    });
+    elements.conflictList.addEventListener('click', handleConflictListClick);
+    window.addEventListener('online', syncNow);
+    elements.crawlBtn.addEventListener('click', openCrawlModal);
+    elements.closeCrawlModalBtn.addEventListener('click', closeCrawlModal);
+    elements.crawlModal.addEventListener('click', (e) => {
+        if (e.target === elements.crawlModal) {
+            closeCrawlModal();
+        }
+    });
+    elements.crawlForm.addEventListener('submit', handlePlanCrawl);
+    elements.crawlResult.addEventListener('click', handleCrawlClick);
+    elements.savedCrawls.addEventListener('click', handleCrawlClick);
+    elements.updateDismissBtn.addEventListener('click', () => {
+        elements.updateBanner.style.display = 'none';
+    });
+    elements.filtersContainer.addEventListener('click', handleFilterClick);
+    elements.sortSelect.addEventListener('change', () => {
+        currentSortOrder = elements.sortSelect.value as SortOrder;
+        filterAndRender();
+        refreshUserLocation();
+    });
+
+    // Event delegation for dynamic elements
+    elements.happyHourList.addEventListener('click', handleListClick);
+    elements.mapView.addEventListener('click', handleMapClick);
+    elements.viewToggle.addEventListener('click', handleViewToggleClick);
+    elements.timelineView.addEventListener('click', handleTimelineClick);
+
+    elements.scheduleEditor.addEventListener('click', handleScheduleEditorClick);
+    elements.scheduleEditor.addEventListener('change', handleScheduleEditorChange);
+    elements.scheduleEditor.addEventListener('input', handleRowInput);
+    elements.eventsContainer.addEventListener('input', handleRowInput);
+    elements.addBlackoutBtn.addEventListener('click', () => {
+        addBlackoutChip(elements.blackoutDateInput.value);
+        elements.blackoutDateInput.value = '';
+    });
+    elements.blackoutDatesContainer.addEventListener('click', (e) => {
+        const target = e.target as HTMLElement;
+        if (target.classList.contains('remove-chip-btn')) {
+            target.parentElement?.remove();
+        }
+    });
+    elements.addEventBtn.addEventListener('click', () => addEventInput());
+    elements.addTagBtn.addEventListener('click', commitTagInput);
+    elements.tagInput.addEventListener('keydown', (e) => {
+        if (e.key === 'Enter' || e.key === ',') {
+            e.preventDefault();
+            commitTagInput();
+        }
+    });
+    elements.tagsContainer.addEventListener('click', (e) => {
+        const target = e.target as HTMLElement;
+        if (target.classList.contains('remove-chip-btn')) {
+            target.parentElement?.remove();
+        }
+    });
+    elements.walkMinutesSelect.addEventListener('change', () => {
+        walkableMinutes = parseInt(elements.walkMinutesSelect.value, 10);
+        filterAndRender();
+    });
+    elements.searchInput.addEventListener('input', () => {
+        searchQuery = elements.searchInput.value;
+        filterAndRender();
+    });
+    elements.eventsContainer.addEventListener('click', (e) => {
+        const target = e.target as HTMLElement;
+        if (target.classList.contains('remove-event-btn')) {
+            target.parentElement?.remove();
+        }
+    });
+    elements.addDealBtn.addEventListener('click', () => addDealInput());
+    elements.dealsContainer.addEventListener('click', (e) => {
         const target = e.target as HTMLElement;
-        if (target.tagName === 'BUTTON') {
-            target.classList.toggle('active');
+        if (target.classList.contains('remove-deal-btn')) {
+            target.parentElement?.remove();
         }
     });
+    elements.priceCeilingSelect.addEventListener('change', () => {
+        maxDealPrice = elements.priceCeilingSelect.value ? parseFloat(elements.priceCeilingSelect.value) : null;
+        filterAndRender();
+    });
 
     elements.ratingContainer.addEventListener('click', (e) => {
         const target = e.target as HTMLElement;
@@ -569,8 +1875,1404 @@ function setupEventListeners() {
         }
     });
 
-    // Set up a timer to refresh the list every minute for time-based filters
-    setInterval(filterAndRender, 60 * 1000);
+    // Set up a timer to refresh the list every minute for time-based filters and status badges
+    setInterval(() => {
+        filterAndRender();
+        refreshUserLocation();
+        checkReminders(new Date());
+    }, 60 * 1000);
+}
+
+// --- ASSISTANT (SPECIALS PARSING AND NATURAL-LANGUAGE SEARCH) ---
+
+const GEMINI_API_KEY_STORAGE_KEY = 'keyWestHappyHours.geminiApiKey';
+
+/**
+ * Picks the assistant: Gemini, once an API key has been saved, and otherwise the on-device parser,
+ * which handles the common promo and search phrasings without a network.
+ */
+function getDefaultAssistantClient(): AssistantClient {
+    const apiKey = localStorage.getItem(GEMINI_API_KEY_STORAGE_KEY);
+    return apiKey ? createGeminiAssistantClient(apiKey) : localAssistantClient;
+}
+
+let assistantClient: AssistantClient = getDefaultAssistantClient();
+
+/**
+ * Reflects the saved API key in the settings.
+ */
+function renderApiKeySettings() {
+    const hasKey = localStorage.getItem(GEMINI_API_KEY_STORAGE_KEY) !== null;
+    elements.apiKeyInput.value = '';
+    elements.apiKeyInput.placeholder = hasKey ? 'A key is saved on this device' : 'Paste your Gemini API key';
+    elements.removeApiKeyBtn.style.display = hasKey ? 'inline-block' : 'none';
+}
+
+function handleSaveApiKey() {
+    const apiKey = elements.apiKeyInput.value.trim();
+    if (!apiKey) return;
+    localStorage.setItem(GEMINI_API_KEY_STORAGE_KEY, apiKey);
+    assistantClient = getDefaultAssistantClient();
+    renderApiKeySettings();
+    showToast('Gemini API key saved. Smart fill and Ask now use Gemini.');
+}
+
+function handleRemoveApiKey() {
+    localStorage.removeItem(GEMINI_API_KEY_STORAGE_KEY);
+    assistantClient = getDefaultAssistantClient();
+    renderApiKeySettings();
+    showToast('Gemini API key removed. Smart fill and Ask are back to the on-device parser.');
+}
+
+/**
+ * Reads the pasted promo text with the assistant and fills in the schedule, food toggle and specials.
+ * Any failure leaves the form as it was, to be filled in by hand.
+ */
+async function handleAssistParse() {
+    const text = elements.assistText.value.trim();
+    if (!text) return;
+
+    elements.assistParseBtn.setAttribute('disabled', '');
+    elements.assistStatus.textContent = 'Reading the promo text...';
+    try {
+        const parsed = await assistantClient.parseSpecials(text);
+        const dayCount = Object.keys(parsed.schedule).length;
+        if (dayCount > 0) renderScheduleEditor(parsed.schedule);
+        if (parsed.specials) elements.specialsInput.value = parsed.specials;
+        elements.foodToggle.checked = parsed.hasFood;
+        elements.assistStatus.textContent = dayCount > 0
+            ? `Filled in hours for ${dayCount} day(s)${parsed.specials ? ' and the specials' : ''}. Check them before saving.`
+            : `Couldn't find any days or hours${parsed.specials ? ', but filled in the specials' : ''}. Set the schedule by hand.`;
+    } catch (error) {
+        console.error("Failed to parse promo text:", error);
+        elements.assistStatus.textContent = "Couldn't read that text right now. Fill in the form by hand.";
+    } finally {
+        elements.assistParseBtn.removeAttribute('disabled');
+    }
+}
+
+/**
+ * Describes the query-only filters (the "open after" time and the place distances are measured from),
+ * which have no buttons of their own.
+ */
+function renderAskSummary() {
+    const parts: string[] = [];
+    if (openAfterTime) parts.push(`Open after ${openAfterTime}`);
+    if (nearPlace) parts.push(`Near ${nearPlace}`);
+    elements.askSummaryText.textContent = parts.join(' · ');
+    elements.askSummary.style.display = parts.length > 0 ? 'flex' : 'none';
+}
+
+/**
+ * Finds the coordinates of a landmark or venue by name.
+ * @param name The landmark or venue name.
+ */
+function findPlaceCoordinates(name: string): Coordinates | undefined {
+    const landmark = KEY_WEST_LANDMARKS.find(l => l.label === name);
+    if (landmark) return { lat: landmark.lat, lng: landmark.lng };
+    return happyHours.find(hh => hh.name === name)?.coordinates;
+}
+
+/**
+ * Replaces the current filters, search and sort order with those read from a query,
+ * and updates the controls to match.
+ * @param query The parsed query.
+ */
+function applyParsedQuery(query: ParsedQuery) {
+    (Object.keys(activeFilters) as (keyof typeof activeFilters)[]).forEach(key => {
+        activeFilters[key] = query.filters[key] === true;
+        document.querySelector(`[data-filter="${key}"]`)?.classList.toggle('active', activeFilters[key]);
+    });
+    activeTagFilters = query.tags;
+    searchQuery = query.search;
+    elements.searchInput.value = query.search;
+    openAfterTime = query.openAfter ?? null;
+    maxDealPrice = query.maxPrice ?? null;
+    elements.priceCeilingSelect.value = maxDealPrice !== null ? String(maxDealPrice) : '';
+    if (maxDealPrice !== null && elements.priceCeilingSelect.value === '') {
+        // Not one of the preset ceilings; offer it as an extra option so the control shows what's applied.
+        elements.priceCeilingSelect.add(new Option(`Deals ≤ ${formatPrice(maxDealPrice)}`, String(maxDealPrice)));
+        elements.priceCeilingSelect.value = String(maxDealPrice);
+    }
+
+    // Measure distances from the named place instead of the user's own location.
+    const coords = query.near ? findPlaceCoordinates(query.near) : undefined;
+    nearPlace = coords ? query.near! : null;
+    locationProvider = coords ? createFixedLocationProvider(coords) : getDefaultLocationProvider();
+    userLocation = coords ? measureFrom(coords) : null;
+
+    const sortOrder = query.sortOrder ?? (coords ? 'distance' : undefined);
+    if (sortOrder) {
+        currentSortOrder = sortOrder;
+        elements.sortSelect.value = sortOrder;
+    }
+
+    renderAskSummary();
+    filterAndRender();
+    refreshUserLocation();
+}
+
+async function handleAskSubmit(event: SubmitEvent) {
+    event.preventDefault();
+    const query = elements.askInput.value.trim();
+    if (!query) return;
+
+    const places = [...KEY_WEST_LANDMARKS.map(l => l.label), ...happyHours.filter(hh => !hh.isArchived && hh.coordinates).map(hh => hh.name)];
+    elements.askInput.setAttribute('disabled', '');
+    try {
+        applyParsedQuery(await assistantClient.parseQuery(query, getAllTags(), places));
+    } catch (error) {
+        console.error("Failed to parse search query:", error);
+        showToast("Couldn't understand that right now. Use the search box and filters instead.");
+    } finally {
+        elements.askInput.removeAttribute('disabled');
+    }
+}
+
+function handleClearAskFilters() {
+    openAfterTime = null;
+    nearPlace = null;
+    locationProvider = getDefaultLocationProvider();
+    userLocation = null;
+    elements.askInput.value = '';
+    renderAskSummary();
+    filterAndRender();
+    refreshUserLocation();
+}
+
+// --- VISIT LOG ---
+
+// Visits are stored apart from the happy hours, in their own versioned envelope.
+const VISIT_LOG_KEY = 'keyWestHappyHours.visits';
+const VISIT_LOG_VERSION = 1;
+// How many days without a visit counts as "not lately"
+const NOT_VISITED_LATELY_DAYS = 30;
+
+interface VisitLogEnvelope {
+    version: number;
+    visits: Visit[];
+}
+
+let visits: Visit[] = [];
+
+function saveVisitLog() {
+    try {
+        const envelope: VisitLogEnvelope = { version: VISIT_LOG_VERSION, visits };
+        localStorage.setItem(VISIT_LOG_KEY, JSON.stringify(envelope));
+    } catch (error) {
+        console.error("Failed to save the visit log to local storage:", error);
+    }
+}
+
+/**
+ * Loads the visit log from localStorage. Unreadable entries are skipped rather than losing the whole log.
+ * @returns The stored visits, oldest first.
+ */
+function loadVisitLog(): Visit[] {
+    try {
+        const stored = localStorage.getItem(VISIT_LOG_KEY);
+        if (!stored) return [];
+        const envelope = JSON.parse(stored) as VisitLogEnvelope;
+        if (typeof envelope.version !== 'number' || envelope.version > VISIT_LOG_VERSION || !Array.isArray(envelope.visits)) {
+            throw new Error(`Unsupported visit log format (version ${envelope.version}).`);
+        }
+        return envelope.visits
+            .filter(v => typeof v.id === 'number' && typeof v.happyHourId === 'number' && isValidDateString(v.date))
+            .sort((a, b) => a.date.localeCompare(b.date));
+    } catch (error) {
+        console.error("Failed to read the visit log from local storage, starting a new one.", error);
+        return [];
+    }
+}
+
+/**
+ * Returns a venue's visits, newest first.
+ * @param id The ID of the happy hour.
+ */
+function getVisitsFor(id: number): Visit[] {
+    return visits.filter(v => v.happyHourId === id).reverse();
+}
+
+/**
+ * Averages the personal ratings given across a venue's visits.
+ * @param venueVisits The venue's visits.
+ * @returns The average rating, or null if no visit was rated.
+ */
+function getAverageVisitRating(venueVisits: Visit[]): number | null {
+    const ratings = venueVisits.map(v => v.rating).filter((r): r is number => r !== undefined);
+    return ratings.length > 0 ? ratings.reduce((sum, r) => sum + r, 0) / ratings.length : null;
+}
+
+/**
+ * Counts the whole days between two "YYYY-MM-DD" dates.
+ * @param from The earlier date.
+ * @param to The later date.
+ */
+function daysBetween(from: string, to: string): number {
+    const toUtc = (key: string) => {
+        const { year, month, day } = parseDateKey(key);
+        return Date.UTC(year, month - 1, day);
+    };
+    return Math.round((toUtc(to) - toUtc(from)) / (24 * 60 * 60 * 1000));
+}
+
+/**
+ * Checks whether a venue hasn't been visited recently (or ever), for the "Not lately" filter.
+ * @param hh The happy hour object.
+ * @param now The current Date object.
+ */
+function isNotVisitedLately(hh: HappyHour, now: Date): boolean {
+    const last = getVisitsFor(hh.id)[0];
+    return !last || daysBetween(last.date, formatDateKey(getKeyWestParts(now))) > NOT_VISITED_LATELY_DAYS;
+}
+
+/**
+ * Describes when a venue was last visited, e.g. "Last visit 3 days ago · 4 visits".
+ * @param hh The happy hour object.
+ * @param now The current Date object.
+ * @returns The description, or null if the venue has never been visited.
+ */
+function describeVisits(hh: HappyHour, now: Date): string | null {
+    const venueVisits = getVisitsFor(hh.id);
+    if (venueVisits.length === 0) return null;
+    const days = daysBetween(venueVisits[0].date, formatDateKey(getKeyWestParts(now)));
+    const when = days <= 0 ? 'today' : days === 1 ? 'yesterday' : `${days} days ago`;
+    return `Last visit ${when} · ${venueVisits.length} visit${venueVisits.length === 1 ? '' : 's'}`;
+}
+
+/**
+ * Fills the venue detail view: the check-in form and the visit history with its average rating.
+ * @param hh The happy hour to show.
+ */
+function renderVenueDetail(hh: HappyHour) {
+    const venueVisits = getVisitsFor(hh.id);
+    const average = getAverageVisitRating(venueVisits);
+
+    elements.detailTitle.textContent = hh.name;
+    setHtml(elements.detailSummary, renderVenueSummary(hh, average));
+    setHtml(elements.visitOrderedSuggestions, renderSuggestions((hh.deals ?? []).map(d => d.description)));
+    setHtml(elements.visitHistory, renderVisitHistory(venueVisits));
+}
+
+function openVenueDetail(id: number) {
+    const hh = happyHours.find(h => h.id === id);
+    if (!hh) return;
+    elements.visitForm.reset();
+    elements.visitForm.dataset.venueId = String(id);
+    elements.visitDateInput.value = formatDateKey(getKeyWestParts(new Date()));
+    elements.visitFormError.style.display = 'none';
+    renderVenueDetail(hh);
+    elements.detailModal.style.display = 'flex';
+    updateUrl();
+}
+
+function closeVenueDetail() {
+    elements.detailModal.style.display = 'none';
+    updateUrl();
+}
+
+function handleVisitSubmit(event: SubmitEvent) {
+    event.preventDefault();
+    const hh = happyHours.find(h => h.id === parseInt(elements.visitForm.dataset.venueId ?? '', 10));
+    if (!hh) return;
+
+    const date = elements.visitDateInput.value;
+    if (!isValidDateString(date)) {
+        elements.visitFormError.textContent = "Please choose the date of your visit.";
+        elements.visitFormError.style.display = 'block';
+        return;
+    }
+    if (date > formatDateKey(getKeyWestParts(new Date()))) {
+        elements.visitFormError.textContent = "A visit can't be in the future.";
+        elements.visitFormError.style.display = 'block';
+        return;
+    }
+
+    const rating = parseInt(elements.visitRatingSelect.value, 10);
+    const ordered = elements.visitOrderedInput.value.trim();
+    const notes = elements.visitNotesInput.value.trim();
+    const visit: Visit = { id: createRandomId(), happyHourId: hh.id, date };
+    if (rating >= 1 && rating <= 5) visit.rating = rating;
+    if (ordered) visit.ordered = ordered;
+    if (notes) visit.notes = notes;
+
+    visits.push(visit);
+    // IDs are random, so same-day visits keep the order they were logged in (the sort is stable).
+    visits.sort((a, b) => a.date.localeCompare(b.date));
+    saveVisitLog();
+
+    elements.visitForm.reset();
+    elements.visitDateInput.value = formatDateKey(getKeyWestParts(new Date()));
+    elements.visitFormError.style.display = 'none';
+    renderVenueDetail(hh);
+    filterAndRender();
+    showToast(`Checked in at ${hh.name}.`);
+}
+
+function handleVisitHistoryClick(event: MouseEvent) {
+    const target = event.target as HTMLElement;
+    const removeButton = target.closest('.remove-visit-btn');
+    if (!(removeButton instanceof HTMLElement)) return;
+
+    const visitId = parseInt(removeButton.dataset.visitId!, 10);
+    const visit = visits.find(v => v.id === visitId);
+    const hh = visit && happyHours.find(h => h.id === visit.happyHourId);
+    if (!visit || !hh) return;
+
+    const previous = visits;
+    visits = visits.filter(v => v.id !== visitId);
+    saveVisitLog();
+    renderVenueDetail(hh);
+    filterAndRender();
+    showUndoToast('Visit deleted', () => {
+        visits = previous;
+        saveVisitLog();
+        renderVenueDetail(hh);
+    });
+}
+
+// --- URL STATE AND SHARING ---
+
+// The view state lives in the URL hash as query-style parameters, e.g.
+// "#filters=activeNow,hasFood&sort=rating&tags=waterfront&view=map&venue=3".
+// The query string isn't used by the app and is passed through unchanged.
+type ModalName = 'add' | 'archived' | 'data' | 'reminders' | 'crawl' | 'conflicts';
+
+// Set while the app is being brought in line with the URL, so that doesn't push new history entries
+let isRestoringUrlState = false;
+// What accepting the share banner does, for a venue or bar crawl received in a share link
+let pendingShareAccept: (() => void) | null = null;
+
+/**
+ * Encodes the current filters, search, sort order, view and open modal as URL hash parameters.
+ */
+function getUrlState(): URLSearchParams {
+    const params = new URLSearchParams();
+    const filters = (Object.keys(activeFilters) as (keyof typeof activeFilters)[]).filter(key => activeFilters[key]);
+    if (filters.length > 0) params.set('filters', filters.join(','));
+    if (activeFilters.walkable && walkableMinutes !== 10) params.set('walk', String(walkableMinutes));
+    if (maxDealPrice !== null) params.set('price', String(maxDealPrice));
+    if (activeTagFilters.length > 0) params.set('tags', activeTagFilters.join(','));
+    if (searchQuery.trim()) params.set('q', searchQuery.trim());
+    if (currentSortOrder !== 'alphabetic') params.set('sort', currentSortOrder);
+    if (currentView !== 'list') params.set('view', currentView);
+    if (currentView === 'timeline' && timelineMode !== 'day') params.set('timeline', timelineMode);
+    if (openAfterTime) params.set('after', openAfterTime);
+    if (nearPlace) params.set('near', nearPlace);
+
+    if (elements.detailModal.style.display === 'flex') {
+        params.set('venue', elements.visitForm.dataset.venueId!);
+    } else if (elements.modal.style.display === 'flex') {
+        if (elements.form.dataset.editingId) params.set('edit', elements.form.dataset.editingId);
+        else params.set('modal', 'add');
+    } else {
+        const openModal = ([['archived', elements.archivedModal], ['data', elements.dataModal], ['reminders', elements.remindersModal], ['crawl', elements.crawlModal], ['conflicts', elements.conflictsModal]] as const)
+            .find(([, modal]) => modal.style.display === 'flex');
+        if (openModal) params.set('modal', openModal[0]);
+    }
+    return params;
+}
+
+/**
+ * Writes the current view state to the URL. Each change gets its own history entry, so back and forward
+ * step through them, except for edits to the search text, which update the entry in place while typing.
+ * @param replace Whether to always update the current history entry instead of adding one.
+ */
+function updateUrl(replace = false) {
+    if (isRestoringUrlState) return;
+    const params = getUrlState();
+    const current = new URLSearchParams(window.location.hash.slice(1));
+    if (params.toString() === current.toString()) return;
+
+    const url = `${window.location.pathname}${window.location.search}${params.toString() ? `#${params}` : ''}`;
+    current.delete('q');
+    const withoutSearch = new URLSearchParams(params);
+    withoutSearch.delete('q');
+    if (replace || current.toString() === withoutSearch.toString()) {
+        history.replaceState(null, '', url);
+    } else {
+        history.pushState(null, '', url);
+    }
+}
+
+/**
+ * Switches between the list and map views.
+ * @param view The view to show.
+ */
+function setView(view: ViewMode) {
+    currentView = view;
+    elements.viewToggle.querySelectorAll('[data-view]').forEach(btn => {
+        btn.classList.toggle('active', (btn as HTMLElement).dataset.view === view);
+    });
+    elements.listView.style.display = view === 'list' ? '' : 'none';
+    elements.mapView.style.display = view === 'map' ? '' : 'none';
+    elements.timelineView.style.display = view === 'timeline' ? '' : 'none';
+}
+
+/**
+ * Sets the filters, search, sort order, view and open modal from the URL hash, and updates the controls to match.
+ * Runs on load and whenever the user goes back or forward.
+ */
+function applyUrlState() {
+    const params = new URLSearchParams(window.location.hash.slice(1));
+    isRestoringUrlState = true;
+    try {
+        const filters = (params.get('filters') ?? '').split(',');
+        (Object.keys(activeFilters) as (keyof typeof activeFilters)[]).forEach(key => {
+            activeFilters[key] = filters.includes(key);
+            document.querySelector(`[data-filter="${key}"]`)?.classList.toggle('active', activeFilters[key]);
+        });
+        // Time filters are mutually exclusive, as they are with the buttons.
+        if (activeFilters.activeNow && activeFilters.activeWithin30Mins) {
+            activeFilters.activeWithin30Mins = false;
+            document.querySelector('[data-filter="activeWithin30Mins"]')?.classList.remove('active');
+        }
+
+        const walk = parseInt(params.get('walk') ?? '10', 10);
+        walkableMinutes = [5, 10, 15, 20].includes(walk) ? walk : 10;
+        elements.walkMinutesSelect.value = String(walkableMinutes);
+
+        const price = parseFloat(params.get('price') ?? '');
+        maxDealPrice = price > 0 ? price : null;
+        elements.priceCeilingSelect.value = maxDealPrice !== null ? String(maxDealPrice) : '';
+        if (maxDealPrice !== null && elements.priceCeilingSelect.value === '') {
+            elements.priceCeilingSelect.add(new Option(`Deals ≤ ${formatPrice(maxDealPrice)}`, String(maxDealPrice)));
+            elements.priceCeilingSelect.value = String(maxDealPrice);
+        }
+
+        activeTagFilters = (params.get('tags') ?? '').split(',').map(normalizeTag).filter(Boolean);
+        searchQuery = params.get('q') ?? '';
+        elements.searchInput.value = searchQuery;
+
+        const sort = params.get('sort') as SortOrder | null;
+        currentSortOrder = sort && Array.from(elements.sortSelect.options).some(o => o.value === sort) ? sort : 'alphabetic';
+        elements.sortSelect.value = currentSortOrder;
+
+        const view = params.get('view') as ViewMode | null;
+        setView(view === 'map' || view === 'timeline' ? view : 'list');
+        timelineMode = params.get('timeline') === 'week' ? 'week' : 'day';
+
+        const after = params.get('after');
+        openAfterTime = isValidTimeString(after) ? after : null;
+        const nearCoords = params.get('near') ? findPlaceCoordinates(params.get('near')!) : undefined;
+        if (nearCoords) {
+            nearPlace = params.get('near');
+            locationProvider = createFixedLocationProvider(nearCoords);
+            userLocation = measureFrom(nearCoords);
+        } else if (nearPlace) {
+            nearPlace = null;
+            locationProvider = getDefaultLocationProvider();
+            userLocation = null;
+        }
+        renderAskSummary();
+
+        // Close whatever is open, then open the modal the URL asks for.
+        closeModal();
+        closeVenueDetail();
+        closeArchivedModal();
+        closeDataModal();
+        closeRemindersModal();
+        closeCrawlModal();
+        closeConflictsModal();
+        const venueId = parseInt(params.get('venue') ?? '', 10);
+        const editId = parseInt(params.get('edit') ?? '', 10);
+        const modal = params.get('modal') as ModalName | null;
+        if (!isNaN(venueId) && happyHours.some(hh => hh.id === venueId)) openVenueDetail(venueId);
+        else if (!isNaN(editId) && happyHours.some(hh => hh.id === editId)) openEditModal(editId);
+        else if (modal === 'add') openAddModal();
+        else if (modal === 'archived') openArchivedModal();
+        else if (modal === 'data') openDataModal();
+        else if (modal === 'reminders') openRemindersModal();
+        else if (modal === 'crawl') openCrawlModal();
+        else if (modal === 'conflicts') openConflictsModal();
+        filterAndRender();
+    } finally {
+        isRestoringUrlState = false;
+    }
+    // Tidy up the URL (e.g. drop unknown values) without adding a history entry.
+    updateUrl(true);
+    refreshUserLocation();
+}
+
+/**
+ * Adds a venue received in a share link to the user's list.
+ * @param shared The venue to add.
+ * @returns The new happy hour.
+ */
+function addSharedVenue(shared: ImportedHappyHour): HappyHour {
+    const newHappyHour: HappyHour = { ...shared, id: createRandomId() };
+    happyHours.push(newHappyHour);
+    saveHappyHoursToDB(happyHours);
+    return newHappyHour;
+}
+
+/**
+ * Shares a link using the device's share sheet, or copies it to the clipboard where that isn't available.
+ * @param url The link to share.
+ * @param title A title for the share sheet.
+ */
+async function shareLink(url: string, title: string) {
+    if (navigator.share) {
+        try {
+            await navigator.share({ title, url });
+            return;
+        } catch (error) {
+            if (error instanceof DOMException && error.name === 'AbortError') return; // The user closed the share sheet
+        }
+    }
+    try {
+        await navigator.clipboard.writeText(url);
+        showToast('Link copied to the clipboard.');
+    } catch (error) {
+        console.error("Failed to copy the link:", error);
+        showToast("Couldn't copy the link. Copy it from the address bar instead.");
+    }
+}
+
+/**
+ * Shares a deep link to a venue. The link carries the venue itself, so someone who doesn't have it can add it.
+ * @param id The ID of the happy hour.
+ */
+async function handleShareVenue(id: number) {
+    const hh = happyHours.find(h => h.id === id);
+    if (!hh) return;
+    const params = new URLSearchParams({ venue: String(hh.id), share: await encodeSharePayload(getShareableVenue(hh)) });
+    await shareLink(`${window.location.origin}${window.location.pathname}#${params}`, hh.name);
+}
+
+function handleShareView() {
+    updateUrl();
+    shareLink(window.location.href, 'Key West happy hours');
+}
+
+/**
+ * Removes a shared venue or bar crawl from the URL hash, so it's handled once and doesn't linger in the
+ * address bar. The venue ID that comes with a shared venue is dropped too, since IDs differ between devices.
+ * @returns What was shared, or null if the URL doesn't carry anything.
+ */
+function takeSharedItemFromUrl(): { kind: 'venue' | 'crawl'; encoded: string } | null {
+    const params = new URLSearchParams(window.location.hash.slice(1));
+    const venue = params.get('share');
+    const crawl = params.get('crawl');
+    if (!venue && !crawl) return null;
+    params.delete('share');
+    params.delete('crawl');
+    if (venue) params.delete('venue');
+    history.replaceState(null, '', `${window.location.pathname}${window.location.search}${params.toString() ? `#${params}` : ''}`);
+    return venue ? { kind: 'venue', encoded: venue } : { kind: 'crawl', encoded: crawl! };
+}
+
+/**
+ * Shows the banner offering to take in something received in a share link.
+ * @param message What was shared.
+ * @param acceptLabel The label of the accept button.
+ * @param onAccept What accepting does.
+ */
+function showShareBanner(message: string, acceptLabel: string, onAccept: () => void) {
+    pendingShareAccept = onAccept;
+    elements.sharedVenueText.textContent = message;
+    elements.addSharedVenueBtn.textContent = acceptLabel;
+    elements.sharedVenueBanner.style.display = 'flex';
+}
+
+/**
+ * Handles a venue received in a share link. If the user already has it, it's opened; otherwise a banner offers to add it.
+ * @param encoded The encoded venue from the link.
+ */
+async function handleSharedVenue(encoded: string) {
+    try {
+        const shared = parseSharedVenue(await decodeSharePayload(encoded));
+        const existing = happyHours.find(hh => getDuplicateKey(hh) === getDuplicateKey(shared));
+        if (existing) {
+            if (existing.isArchived) setArchived(existing.id, false);
+            openVenueDetail(existing.id);
+        } else {
+            showShareBanner(`Someone shared ${shared.name} (${shared.address}) with you.`, 'Add to my list', () => {
+                const added = addSharedVenue(shared);
+                filterAndRender();
+                openVenueDetail(added.id);
+                showToast(`Added ${added.name} to your list.`);
+            });
+        }
+    } catch (error) {
+        console.error("Failed to read the shared venue:", error);
+        showToast("That share link is damaged or from a newer version of the app.");
+    }
+}
+
+function handleAcceptShare() {
+    const accept = pendingShareAccept;
+    handleDismissShare();
+    accept?.();
+}
+
+function handleDismissShare() {
+    pendingShareAccept = null;
+    elements.sharedVenueBanner.style.display = 'none';
+}
+
+// --- BAR CRAWL PLANNER ---
+
+const CRAWL_STORAGE_KEY = 'keyWestHappyHours.crawls';
+const CRAWL_STORAGE_VERSION = 1;
+
+interface CrawlEnvelope {
+    version: number;
+    itineraries: Itinerary[];
+}
+
+let savedItineraries: Itinerary[] = [];
+// The itinerary shown in the planner, saved or not
+let currentItinerary: Itinerary | null = null;
+
+function saveItineraries() {
+    try {
+        const envelope: CrawlEnvelope = { version: CRAWL_STORAGE_VERSION, itineraries: savedItineraries };
+        localStorage.setItem(CRAWL_STORAGE_KEY, JSON.stringify(envelope));
+    } catch (error) {
+        console.error("Failed to save bar crawls to local storage:", error);
+    }
+}
+
+function loadItineraries(): Itinerary[] {
+    try {
+        const stored = localStorage.getItem(CRAWL_STORAGE_KEY);
+        if (!stored) return [];
+        const envelope = JSON.parse(stored) as CrawlEnvelope;
+        if (typeof envelope.version !== 'number' || envelope.version > CRAWL_STORAGE_VERSION || !Array.isArray(envelope.itineraries)) {
+            throw new Error(`Unsupported bar crawl format (version ${envelope.version}).`);
+        }
+        const itineraries = (envelope.itineraries as unknown[]).filter(isValidItinerary);
+        if (itineraries.length < envelope.itineraries.length) {
+            console.warn(`Skipped ${envelope.itineraries.length - itineraries.length} unreadable bar crawl(s) from local storage.`);
+        }
+        return itineraries;
+    } catch (error) {
+        console.error("Failed to read bar crawls from local storage, starting with none.", error);
+        return [];
+    }
+}
+
+/**
+ * Renders the current itinerary in the planner, with each stop's times and any warnings, and the list of saved crawls.
+ */
+function renderCrawlPlanner() {
+    if (!currentItinerary) {
+        elements.crawlResult.innerHTML = '';
+    } else {
+        const isSaved = savedItineraries.some(it => it.id === currentItinerary!.id);
+        setHtml(elements.crawlResult, renderItinerary(currentItinerary, scheduleItinerary(currentItinerary, happyHours), isSaved));
+    }
+    setHtml(elements.savedCrawls, renderSavedItineraries(savedItineraries));
+}
+
+function openCrawlModal() {
+    if (!elements.crawlDateInput.value) {
+        const { date, start, end } = getDefaultCrawlTimes(new Date());
+        elements.crawlDateInput.value = date;
+        elements.crawlStartInput.value = start;
+        elements.crawlEndInput.value = end;
+    }
+    renderCrawlPlanner();
+    elements.crawlModal.style.display = 'flex';
+    updateUrl();
+}
+
+function closeCrawlModal() {
+    elements.crawlModal.style.display = 'none';
+    updateUrl();
+}
+
+function handlePlanCrawl(event: SubmitEvent) {
+    event.preventDefault();
+    const date = elements.crawlDateInput.value;
+    const start = elements.crawlStartInput.value;
+    const end = elements.crawlEndInput.value;
+    if (!isValidDateString(date) || !isValidTimeString(start) || !isValidTimeString(end) || start === end) {
+        showToast('Please choose a date and different start and end times.');
+        return;
+    }
+    const stops = planCrawl(happyHours, {
+        date,
+        start,
+        end,
+        stayMinutes: parseInt(elements.crawlStaySelect.value, 10),
+        favoritesOnly: elements.crawlFavoritesToggle.checked,
+        foodOnly: elements.crawlFoodToggle.checked,
+    });
+    currentItinerary = { id: createRandomId(), name: `Crawl on ${formatDate(date)}`, date, start, end, stops };
+    renderCrawlPlanner();
+}
+
+async function handleShareCrawl(itinerary: Itinerary) {
+    // The venues travel with the crawl, so someone who doesn't have them can still follow it.
+    const payload = {
+        name: itinerary.name,
+        date: itinerary.date,
+        start: itinerary.start,
+        end: itinerary.end,
+        stops: itinerary.stops
+            .map(stop => ({ stop, hh: happyHours.find(h => h.id === stop.happyHourId) }))
+            .filter(({ hh }) => hh)
+            .map(({ stop, hh }) => ({ venue: getShareableVenue(hh!), stayMinutes: stop.stayMinutes })),
+    };
+    const params = new URLSearchParams({ crawl: await encodeSharePayload(payload) });
+    await shareLink(`${window.location.origin}${window.location.pathname}#${params}`, itinerary.name);
+}
+
+function handleCrawlClick(event: MouseEvent) {
+    const target = event.target as HTMLElement;
+    const venueLink = target.closest('.venue-link');
+    if (venueLink instanceof HTMLElement) {
+        closeCrawlModal();
+        openVenueDetail(parseInt(venueLink.dataset.id!, 10));
+        return;
+    }
+
+    const actionButton = target.closest('[data-crawl-action]');
+    if (!(actionButton instanceof HTMLElement)) return;
+    const action = actionButton.dataset.crawlAction;
+    const index = parseInt(actionButton.dataset.index ?? '', 10);
+    const id = parseInt(actionButton.dataset.id ?? '', 10);
+
+    if (action === 'open') {
+        const saved = savedItineraries.find(it => it.id === id);
+        if (saved) currentItinerary = { ...saved, stops: saved.stops.map(s => ({ ...s })) };
+    } else if (action === 'delete') {
+        const previous = savedItineraries;
+        savedItineraries = savedItineraries.filter(it => it.id !== id);
+        saveItineraries();
+        showUndoToast('Crawl deleted', () => {
+            savedItineraries = previous;
+            saveItineraries();
+            renderCrawlPlanner();
+        });
+    } else if (currentItinerary) {
+        const stops = currentItinerary.stops;
+        if (action === 'up' && index > 0) {
+            [stops[index - 1], stops[index]] = [stops[index], stops[index - 1]];
+        } else if (action === 'down' && index < stops.length - 1) {
+            [stops[index + 1], stops[index]] = [stops[index], stops[index + 1]];
+        } else if (action === 'remove') {
+            stops.splice(index, 1);
+        } else if (action === 'save') {
+            const name = (elements.crawlResult.querySelector('#crawl-name') as HTMLInputElement).value.trim();
+            currentItinerary.name = name || currentItinerary.name;
+            const saved = { ...currentItinerary, stops: stops.map(s => ({ ...s })) };
+            const existingIndex = savedItineraries.findIndex(it => it.id === saved.id);
+            if (existingIndex > -1) savedItineraries[existingIndex] = saved;
+            else savedItineraries.push(saved);
+            saveItineraries();
+            showToast(`Saved "${saved.name}".`);
+        } else if (action === 'share') {
+            handleShareCrawl(currentItinerary);
+            return;
+        }
+    }
+    renderCrawlPlanner();
+}
+
+/**
+ * Handles a bar crawl received in a share link: offers to open it, adding any venues the user doesn't have.
+ * @param encoded The encoded crawl from the link.
+ */
+async function handleSharedCrawl(encoded: string) {
+    try {
+        const { name, date, start, end, stops } = parseSharedCrawl(await decodeSharePayload(encoded));
+        const newCount = stops.filter(s => !happyHours.some(hh => getDuplicateKey(hh) === getDuplicateKey(s.venue))).length;
+
+        showShareBanner(
+            `Someone shared "${name}", a bar crawl with ${stops.length} stop${stops.length === 1 ? '' : 's'}${newCount > 0 ? ` (${newCount} new to you)` : ''}.`,
+            'Open crawl',
+            () => {
+                const crawlStops = stops.map(({ venue, stayMinutes }) => {
+                    const existing = happyHours.find(hh => getDuplicateKey(hh) === getDuplicateKey(venue));
+                    return { happyHourId: (existing ?? addSharedVenue(venue)).id, stayMinutes };
+                });
+                currentItinerary = { id: createRandomId(), name, date, start, end, stops: crawlStops };
+                filterAndRender();
+                openCrawlModal();
+            },
+        );
+    } catch (error) {
+        console.error("Failed to read the shared bar crawl:", error);
+        showToast("That share link is damaged or from a newer version of the app.");
+    }
+}
+
+// --- REMINDERS ---
+
+const REMINDER_SETTINGS_KEY = 'keyWestHappyHours.reminders';
+// How long to remember that a reminder was sent, so reloads don't repeat it
+const SENT_REMINDER_RETENTION_MS = 2 * 24 * 60 * 60 * 1000;
+
+interface ReminderSettings {
+    enabled: boolean;
+    // How many minutes before a happy hour starts to send the reminder
+    leadMinutes: number;
+    // Remind about every favorite, in addition to the individually selected venues
+    includeFavorites: boolean;
+    venueIds: number[];
+    // Key West times during which no reminders are sent; may wrap past midnight
+    quietHours: TimeRange | null;
+    // Reminder keys ("<id>@<start ISO>") mapped to when they were sent
+    sent: { [key: string]: number };
+}
+
+const defaultReminderSettings: ReminderSettings = {
+    enabled: false,
+    leadMinutes: 15,
+    includeFavorites: true,
+    venueIds: [],
+    quietHours: null,
+    sent: {},
+};
+
+let reminderSettings: ReminderSettings = { ...defaultReminderSettings };
+
+function saveReminderSettings() {
+    try {
+        localStorage.setItem(REMINDER_SETTINGS_KEY, JSON.stringify(reminderSettings));
+    } catch (error) {
+        console.error("Failed to save reminder settings to local storage:", error);
+    }
+}
+
+/**
+ * Loads reminder settings from localStorage. Each field is checked on its own, and one that is missing
+ * or malformed falls back to its default.
+ * @returns The reminder settings.
+ */
+function loadReminderSettings(): ReminderSettings {
+    try {
+        const stored = localStorage.getItem(REMINDER_SETTINGS_KEY);
+        if (stored) {
+            const settings: unknown = JSON.parse(stored);
+            const { enabled, leadMinutes, includeFavorites, venueIds, quietHours, sent } = settings !== null && typeof settings === 'object' ? settings as Record<string, unknown> : {};
+            const quiet = quietHours !== null && typeof quietHours === 'object' ? quietHours as Record<string, unknown> : {};
+            return {
+                enabled: typeof enabled === 'boolean' ? enabled : defaultReminderSettings.enabled,
+                leadMinutes: Number.isInteger(leadMinutes) && (leadMinutes as number) > 0 ? leadMinutes as number : defaultReminderSettings.leadMinutes,
+                includeFavorites: typeof includeFavorites === 'boolean' ? includeFavorites : defaultReminderSettings.includeFavorites,
+                venueIds: Array.isArray(venueIds) ? venueIds.filter(id => Number.isSafeInteger(id)) : [],
+                quietHours: isValidTimeString(quiet.start) && isValidTimeString(quiet.end) ? { start: quiet.start, end: quiet.end } : null,
+                sent: sent !== null && typeof sent === 'object'
+                    ? Object.fromEntries(Object.entries(sent).filter(([, sentAt]) => Number.isFinite(sentAt)))
+                    : {},
+            };
+        }
+    } catch (error) {
+        console.error("Failed to parse reminder settings from local storage, using defaults.", error);
+    }
+    return { ...defaultReminderSettings };
+}
+
+/**
+ * Checks whether reminders are switched on for a venue, either individually or as a favorite.
+ * @param hh The happy hour object.
+ */
+function isReminderOn(hh: HappyHour): boolean {
+    return reminderSettings.venueIds.includes(hh.id) || (reminderSettings.includeFavorites && hh.isFavorite);
+}
+
+/**
+ * Checks whether the given instant falls inside the configured quiet hours (in Key West time).
+ * @param now The instant to check.
+ */
+function isInQuietHours(now: Date): boolean {
+    const quiet = reminderSettings.quietHours;
+    if (!quiet) return false;
+    const p = getKeyWestParts(now);
+    const time = `${String(p.hours).padStart(2, '0')}:${String(p.minutes).padStart(2, '0')}`;
+    return quiet.start <= quiet.end
+        ? time >= quiet.start && time < quiet.end
+        : time >= quiet.start || time < quiet.end; // Wraps past midnight
+}
+
+/**
+ * Displays a notification, through the service worker when possible so it also works on mobile.
+ * @param title The notification title.
+ * @param body The notification text.
+ * @param tag A tag that makes the system replace, rather than stack, a repeat of the same reminder.
+ */
+async function showNotification(title: string, body: string, tag: string) {
+    const options: NotificationOptions = { body, tag, icon: 'icon.svg' };
+    try {
+        const registration = 'serviceWorker' in navigator ? await navigator.serviceWorker.getRegistration() : undefined;
+        if (registration) {
+            await registration.showNotification(title, options);
+            return;
+        }
+    } catch (error) {
+        console.error("Failed to show a notification through the service worker:", error);
+    }
+    new Notification(title, options);
+}
+
+/**
+ * Sends any reminders that are due. Runs on the same one-minute timer as the list refresh, using
+ * getHappyHourStatus to find each venue's next start. Sent reminders are recorded per occurrence,
+ * so reloading the page or a missed tick never sends the same reminder twice.
+ * @param now The current Date object.
+ */
+function checkReminders(now: Date) {
+    if (!reminderSettings.enabled || !('Notification' in window) || Notification.permission !== 'granted') return;
+
+    // Forget reminders old enough that they can't come up again.
+    Object.entries(reminderSettings.sent).forEach(([key, sentAt]) => {
+        if (now.getTime() - sentAt > SENT_REMINDER_RETENTION_MS) delete reminderSettings.sent[key];
+    });
+
+    if (!isInQuietHours(now)) {
+        happyHours.filter(hh => !hh.isArchived && isReminderOn(hh)).forEach(hh => {
+            const status = getHappyHourStatus(hh, now);
+            if (status.status === 'active' || status.minutesUntilStart === undefined) return;
+            if (status.minutesUntilStart > reminderSettings.leadMinutes) return;
+
+            const start = new Date(now.getTime() + status.minutesUntilStart * 60000);
+            start.setSeconds(0, 0);
+            const key = `${hh.id}@${start.toISOString()}`;
+            if (reminderSettings.sent[key]) return;
+
+            reminderSettings.sent[key] = now.getTime();
+            const when = status.minutesUntilStart <= 0 ? 'now' : `in ${formatDuration(status.minutesUntilStart)}`;
+            showNotification(`${hh.name} happy hour starts ${when}`, hh.specials, key);
+        });
+    }
+    saveReminderSettings();
+}
+
+/**
+ * Asks for notification permission if it hasn't been decided yet.
+ * @returns Whether notifications are allowed.
+ */
+async function ensureNotificationPermission(): Promise<boolean> {
+    if (!('Notification' in window)) {
+        showToast("Notifications aren't supported on this device.");
+        return false;
+    }
+    if (Notification.permission === 'default') {
+        await Notification.requestPermission();
+    }
+    if (Notification.permission !== 'granted') {
+        showToast("Notifications are blocked. Allow them in your browser settings to get reminders.");
+        return false;
+    }
+    return true;
+}
+
+/**
+ * Turns reminders on or off for a single venue (from the bell on its card).
+ * Turning one on also switches reminders on overall.
+ * @param id The ID of the happy hour.
+ */
+async function toggleVenueReminder(id: number) {
+    const hh = happyHours.find(h => h.id === id);
+    if (!hh) return;
+
+    if (isReminderOn(hh)) {
+        reminderSettings.venueIds = reminderSettings.venueIds.filter(v => v !== id);
+        if (hh.isFavorite && reminderSettings.includeFavorites) {
+            showToast(`Reminders are on for all favorites. Change that in Reminders settings.`);
+        }
+    } else {
+        if (!(await ensureNotificationPermission())) return;
+        reminderSettings.venueIds.push(id);
+        reminderSettings.enabled = true;
+        showToast(`You'll be reminded ${reminderSettings.leadMinutes} min before ${hh.name}'s happy hour.`);
+    }
+    saveReminderSettings();
+    filterAndRender();
+    checkReminders(new Date());
+}
+
+/**
+ * Fills the reminder settings panel from the current settings.
+ */
+function renderReminderSettings() {
+    elements.remindersEnabled.checked = reminderSettings.enabled;
+    elements.reminderLeadSelect.value = String(reminderSettings.leadMinutes);
+    elements.remindFavoritesToggle.checked = reminderSettings.includeFavorites;
+    elements.quietHoursToggle.checked = reminderSettings.quietHours !== null;
+    elements.quietStartInput.value = reminderSettings.quietHours?.start ?? '23:00';
+    elements.quietEndInput.value = reminderSettings.quietHours?.end ?? '09:00';
+
+    const permission = 'Notification' in window ? Notification.permission : 'unsupported';
+    elements.notificationPermission.textContent = {
+        granted: 'Notifications are allowed. Reminders are sent while the app is open or running in the background.',
+        denied: 'Notifications are blocked for this site. Allow them in your browser settings to get reminders.',
+        default: 'You will be asked to allow notifications when you turn reminders on.',
+        unsupported: "This device doesn't support notifications.",
+    }[permission];
+
+    const venues = happyHours.filter(hh => !hh.isArchived).sort((a, b) => a.name.localeCompare(b.name));
+    setHtml(elements.reminderVenueList, renderReminderVenueList(venues, reminderSettings.venueIds));
+}
+
+function openRemindersModal() {
+    renderReminderSettings();
+    elements.remindersModal.style.display = 'flex';
+    updateUrl();
+}
+
+function closeRemindersModal() {
+    elements.remindersModal.style.display = 'none';
+    updateUrl();
+}
+
+/**
+ * Reads the reminder settings panel back into the settings and saves them.
+ */
+async function handleReminderSettingsChange() {
+    if (elements.remindersEnabled.checked && !reminderSettings.enabled) {
+        if (!(await ensureNotificationPermission())) {
+            elements.remindersEnabled.checked = false;
+        }
+    }
+
+    reminderSettings.enabled = elements.remindersEnabled.checked;
+    reminderSettings.leadMinutes = parseInt(elements.reminderLeadSelect.value, 10);
+    reminderSettings.includeFavorites = elements.remindFavoritesToggle.checked;
+    reminderSettings.quietHours = elements.quietHoursToggle.checked && elements.quietStartInput.value && elements.quietEndInput.value
+        ? { start: elements.quietStartInput.value, end: elements.quietEndInput.value }
+        : null;
+    reminderSettings.venueIds = Array.from(elements.reminderVenueList.querySelectorAll('input:checked'))
+        .map(el => parseInt((el as HTMLElement).dataset.id!, 10));
+
+    saveReminderSettings();
+    renderReminderSettings();
+    filterAndRender();
+    checkReminders(new Date());
+}
+
+// --- SYNC ---
+
+const SYNC_SETTINGS_KEY = 'keyWestHappyHours.sync';
+const SYNC_SETTINGS_VERSION = 1;
+// How long to wait after a change before syncing, so a burst of edits goes up together
+const SYNC_DELAY_MS = 2000;
+// How many times to pull and merge again when another device pushes first
+const SYNC_MAX_ATTEMPTS = 3;
+
+interface SyncSettings {
+    version: number;
+    // The sync server's URL, or null when sync is off
+    serverUrl: string | null;
+    // When this device last synced; entries changed on both sides since then are conflicts
+    lastSyncedAt: string | null;
+    conflicts: SyncConflict[];
+}
+
+/**
+ * Checks that a sync server address is a web address.
+ * @param url The address to check.
+ */
+function isSyncServerUrl(url: string): boolean {
+    try {
+        return ['http:', 'https:'].includes(new URL(url).protocol);
+    } catch {
+        return false;
+    }
+}
+
+function loadSyncSettings(): SyncSettings {
+    const defaults: SyncSettings = { version: SYNC_SETTINGS_VERSION, serverUrl: null, lastSyncedAt: null, conflicts: [] };
+    try {
+        const stored = localStorage.getItem(SYNC_SETTINGS_KEY);
+        if (!stored) return defaults;
+        const settings: unknown = JSON.parse(stored);
+        const { version, serverUrl, lastSyncedAt, conflicts } = settings !== null && typeof settings === 'object' ? settings as Record<string, unknown> : {};
+        if (typeof version !== 'number' || version > SYNC_SETTINGS_VERSION) {
+            throw new Error(`Unsupported sync settings format (version ${version}).`);
+        }
+        // Each field is checked on its own, so one bad field only resets that field
+        return {
+            version: SYNC_SETTINGS_VERSION,
+            serverUrl: typeof serverUrl === 'string' && isSyncServerUrl(serverUrl) ? serverUrl : defaults.serverUrl,
+            lastSyncedAt: typeof lastSyncedAt === 'string' && !isNaN(Date.parse(lastSyncedAt)) ? lastSyncedAt : defaults.lastSyncedAt,
+            conflicts: parseSyncConflicts(conflicts),
+        };
+    } catch (error) {
+        console.error("Failed to read sync settings from local storage, sync is off.", error);
+        return defaults;
+    }
+}
+
+function saveSyncSettings() {
+    try {
+        localStorage.setItem(SYNC_SETTINGS_KEY, JSON.stringify(syncSettings));
+    } catch (error) {
+        console.error("Failed to save sync settings to local storage:", error);
+    }
+}
+
+let syncSettings: SyncSettings = loadSyncSettings();
+
+/**
+ * Picks the sync backend: the server saved in the sync settings, or null when sync is off.
+ */
+function getDefaultSyncBackend(): SyncBackend | null {
+    return syncSettings.serverUrl ? createHttpSyncBackend(syncSettings.serverUrl) : null;
+}
+
+let syncBackend: SyncBackend | null = getDefaultSyncBackend();
+let isSyncing = false;
+let lastSyncError: string | null = null;
+let syncTimeoutId: number | undefined;
+
+/**
+ * Queues a sync shortly after a change, if sync is on.
+ */
+function scheduleSync() {
+    if (!syncBackend) return;
+    window.clearTimeout(syncTimeoutId);
+    syncTimeoutId = window.setTimeout(syncNow, SYNC_DELAY_MS);
+}
+
+/**
+ * Replaces this device's list with the result of an accepted push, keeping each entry's personal
+ * fields. Entries edited, added or deleted here while the push was in flight keep that change; the
+ * next sync sends it.
+ * @param merged The merged entries and tombstones.
+ * @param startedAt When the merge was made, as an ISO timestamp.
+ */
+function applyMergedHappyHours(merged: { happyHours: SyncedHappyHour[]; deleted: Tombstone[] }, startedAt: string) {
+    const changedIds = new Set([
+        ...happyHours.filter(hh => (hh.updatedAt ?? SYNC_EPOCH) > startedAt).map(hh => hh.id),
+        ...deletedHappyHours.filter(tombstone => tombstone.deletedAt > startedAt).map(tombstone => tombstone.id),
+    ]);
+    const personal = new Map(happyHours.map(hh => [hh.id, { isFavorite: hh.isFavorite, isArchived: hh.isArchived }]));
+    happyHours = [
+        ...merged.happyHours
+            .filter(hh => !changedIds.has(hh.id))
+            .map(hh => ({ ...hh, ...(personal.get(hh.id) ?? { isFavorite: false, isArchived: false }) })),
+        ...happyHours.filter(hh => changedIds.has(hh.id)),
+    ];
+    deletedHappyHours = [
+        ...merged.deleted.filter(tombstone => !changedIds.has(tombstone.id)),
+        ...deletedHappyHours.filter(tombstone => changedIds.has(tombstone.id)),
+    ];
+    rememberSavedState(happyHours);
+    writeHappyHoursToDB(happyHours);
+    filterAndRender();
+    renderArchivedList();
+}
+
+/**
+ * Renames entries to the shared copy's IDs for the same venues, along with the visits, reminders and
+ * crawls that point at them, so the first sync merges them instead of listing each venue twice.
+ * @param sharedIds The shared copy's ID for each local ID to rename.
+ */
+function adoptSharedIds(sharedIds: Map<number, number>) {
+    if (sharedIds.size === 0) return;
+    const rename = (id: number) => sharedIds.get(id) ?? id;
+    happyHours.forEach(hh => hh.id = rename(hh.id));
+    visits.forEach(visit => visit.happyHourId = rename(visit.happyHourId));
+    reminderSettings.venueIds = reminderSettings.venueIds.map(rename);
+    [...savedItineraries, ...(currentItinerary ? [currentItinerary] : [])].forEach(itinerary => {
+        itinerary.stops.forEach(stop => stop.happyHourId = rename(stop.happyHourId));
+    });
+    if (selectedMapVenueId !== null) selectedMapVenueId = rename(selectedMapVenueId);
+    saveVisitLog();
+    saveReminderSettings();
+    saveItineraries();
+}
+
+/**
+ * Syncs with the backend: pulls the shared copy, merges it into this device's list and pushes the
+ * result back. If another device pushed in the meantime, starts over from its copy.
+ */
+async function syncNow() {
+    if (!syncBackend) return;
+    if (isSyncing) {
+        scheduleSync(); // Catch the latest changes once this sync is done
+        return;
+    }
+    isSyncing = true;
+    renderSyncStatus();
+    const conflictCount = syncSettings.conflicts.length;
+    try {
+        let pushed = false;
+        for (let attempt = 0; attempt < SYNC_MAX_ATTEMPTS && !pushed; attempt++) {
+            const remote = await syncBackend.pull();
+            const startedAt = new Date().toISOString();
+            const sharedIds = syncSettings.lastSyncedAt ? new Map<number, number>() : matchFirstSyncDuplicates(happyHours, remote);
+            const local = {
+                happyHours: happyHours.map(({ isFavorite, isArchived, ...synced }) => ({ ...synced, id: sharedIds.get(synced.id) ?? synced.id })),
+                deleted: deletedHappyHours,
+            };
+            const merged = mergeForSync(local, remote, syncSettings.lastSyncedAt, startedAt);
+            merged.deleted = pruneTombstones(merged.deleted, remote.deleted, startedAt);
+            pushed = await syncBackend.push(merged.happyHours, merged.deleted, remote.revision);
+            // Until the shared copy takes the merge, nothing here changes: a rejected attempt starts over
+            if (!pushed) continue;
+            adoptSharedIds(sharedIds);
+            applyMergedHappyHours(merged, startedAt);
+            syncSettings.conflicts.push(...merged.conflicts);
+            syncSettings.lastSyncedAt = startedAt;
+        }
+        lastSyncError = pushed ? null : 'The shared list kept changing. Try again in a moment.';
+    } catch (error) {
+        console.error("Failed to sync:", error);
+        lastSyncError = error instanceof Error ? error.message : String(error);
+    } finally {
+        isSyncing = false;
+        saveSyncSettings();
+        renderSyncStatus();
+    }
+    const newConflicts = syncSettings.conflicts.length - conflictCount;
+    if (newConflicts > 0) {
+        showToast(`Sync found ${newConflicts} conflicting change${newConflicts === 1 ? '' : 's'}. Review them under Import / Export.`);
+    }
+}
+
+/**
+ * Shows whether sync is on, how the last sync went, and how many conflicts are waiting for review.
+ */
+function renderSyncStatus() {
+    const isOn = syncBackend !== null;
+    elements.syncUrlInput.value = syncSettings.serverUrl ?? '';
+    elements.turnOffSyncBtn.style.display = syncSettings.serverUrl ? 'inline-block' : 'none';
+    elements.syncNowBtn.style.display = isOn ? 'inline-block' : 'none';
+    elements.syncNowBtn.toggleAttribute('disabled', isSyncing);
+
+    if (!isOn) {
+        elements.syncStatus.textContent = 'Sync is off.';
+    } else if (isSyncing) {
+        elements.syncStatus.textContent = `Syncing with ${syncBackend!.label}…`;
+    } else if (lastSyncError) {
+        elements.syncStatus.textContent = `Sync with ${syncBackend!.label} failed: ${lastSyncError}`;
+    } else {
+        elements.syncStatus.textContent = syncSettings.lastSyncedAt
+            ? `Synced with ${syncBackend!.label} at ${new Date(syncSettings.lastSyncedAt).toLocaleString()}.`
+            : `Not synced with ${syncBackend!.label} yet.`;
+    }
+
+    const count = syncSettings.conflicts.length;
+    elements.reviewConflictsBtn.textContent = `Review conflicts (${count})`;
+    elements.reviewConflictsBtn.style.display = count > 0 ? 'inline-block' : 'none';
+}
+
+function handleSaveSyncUrl() {
+    const url = elements.syncUrlInput.value.trim();
+    if (!isSyncServerUrl(url)) {
+        showToast('Please enter the sync server\'s web address, starting with https://.');
+        return;
+    }
+    if (url !== syncSettings.serverUrl) {
+        // A different server has its own history, so nothing has been synced with it yet.
+        syncSettings.serverUrl = url;
+        syncSettings.lastSyncedAt = null;
+    }
+    saveSyncSettings();
+    syncBackend = getDefaultSyncBackend();
+    lastSyncError = null;
+    syncNow();
+}
+
+function handleTurnOffSync() {
+    syncSettings.serverUrl = null;
+    syncSettings.lastSyncedAt = null;
+    saveSyncSettings();
+    syncBackend = getDefaultSyncBackend();
+    lastSyncError = null;
+    renderSyncStatus();
+    showToast('Sync is off. Your list stays on this device.');
+}
+
+function renderConflictList() {
+    setHtml(elements.conflictList, renderConflicts(syncSettings.conflicts));
+}
+
+function openConflictsModal() {
+    renderConflictList();
+    elements.conflictsModal.style.display = 'flex';
+    updateUrl();
+}
+
+function closeConflictsModal() {
+    elements.conflictsModal.style.display = 'none';
+    updateUrl();
+}
+
+/**
+ * Handles the conflict review buttons. Using the replaced version saves it as a new change, so it
+ * wins on every device at the next sync.
+ */
+function handleConflictListClick(event: MouseEvent) {
+    const button = (event.target as HTMLElement).closest('[data-conflict-action]');
+    if (!(button instanceof HTMLElement)) return;
+    const conflictIndex = parseInt(button.dataset.index!, 10);
+    const conflict = syncSettings.conflicts[conflictIndex];
+    if (!conflict) return;
+
+    if (button.dataset.conflictAction === 'restore') {
+        const index = happyHours.findIndex(hh => hh.id === conflict.id);
+        const existing = happyHours[index];
+        if (!conflict.discarded) {
+            happyHours = happyHours.filter(hh => hh.id !== conflict.id);
+        } else if (existing) {
+            happyHours[index] = { ...conflict.discarded, isFavorite: existing.isFavorite, isArchived: existing.isArchived };
+        } else {
+            happyHours.push({ ...conflict.discarded, isFavorite: false, isArchived: false });
+        }
+        saveHappyHoursToDB(happyHours);
+        filterAndRender();
+        renderArchivedList();
+    }
+    syncSettings.conflicts.splice(conflictIndex, 1);
+    saveSyncSettings();
+    renderConflictList();
+    renderSyncStatus();
+}
+
+// --- OFFLINE SUPPORT ---
+
+/**
+ * Registers the service worker that caches the app for offline use, and offers a reload
+ * whenever a newer version has finished downloading in the background.
+ */
+function registerServiceWorker() {
+    if (!('serviceWorker' in navigator)) return;
+
+    window.addEventListener('load', async () => {
+        try {
+            const registration = await navigator.serviceWorker.register('sw.js');
+
+            // A worker may already be waiting from a previous visit.
+            if (registration.waiting && navigator.serviceWorker.controller) {
+                showUpdateBanner(registration.waiting);
+            }
+            registration.addEventListener('updatefound', () => {
+                const installing = registration.installing;
+                installing?.addEventListener('statechange', () => {
+                    // Only prompt for updates, not for the very first install.
+                    if (installing.state === 'installed' && navigator.serviceWorker.controller) {
+                        showUpdateBanner(installing);
+                    }
+                });
+            });
+        } catch (error) {
+            console.error("Failed to register the service worker:", error);
+        }
+    });
+
+    // Once the new worker takes over, reload so the page uses its files.
+    let isReloading = false;
+    navigator.serviceWorker.addEventListener('controllerchange', () => {
+        if (isReloading) return;
+        isReloading = true;
+        window.location.reload();
+    });
+}
+
+/**
+ * Shows the "update available" banner.
+ * @param worker The new service worker, waiting to take over.
+ */
+function showUpdateBanner(worker: ServiceWorker) {
+    elements.updateBanner.style.display = 'flex';
+    elements.updateReloadBtn.onclick = () => worker.postMessage({ type: 'SKIP_WAITING' });
 }
 
 /**
@@ -579,8 +3281,21 @@ function setupEventListeners() {
 async function main() {
   try {
     happyHours = loadHappyHoursFromDB();
+    reminderSettings = loadReminderSettings();
+    visits = loadVisitLog();
+    savedItineraries = loadItineraries();
     filterAndRender(); // Initial render with filters and default sort applied
+    renderArchivedList();
+    renderStorageWarning();
+    renderApiKeySettings();
     setupEventListeners();
+    const shared = takeSharedItemFromUrl();
+    applyUrlState(); // Restore filters, sort, view and any open modal from the URL
+    if (shared?.kind === 'venue') handleSharedVenue(shared.encoded);
+    if (shared?.kind === 'crawl') handleSharedCrawl(shared.encoded);
+    registerServiceWorker();
+    syncNow();
+    checkReminders(new Date()); // Catch up on anything due while the app was closed
   } catch (error) {
     console.error("Failed to initialize the application:", error);
     renderError("Could not load the application. Please try reloading the page.");
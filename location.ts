@@ -0,0 +1,123 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// Where the user is and how far each venue is from there: the location providers, walking distances
+// and the "best right now" score. Positions come from a provider passed in, never from the page.
+
+import { formatDuration } from './schedule.ts';
+import { type Coordinates, type HappyHour, type HappyHourStatus } from './types.ts';
+
+// Average walking pace, in meters per minute (about 3 mph)
+const WALKING_METERS_PER_MINUTE = 80;
+
+/** Supplies the user's position. Swappable so location features can be tested without a real GPS fix. */
+export interface LocationProvider {
+    getCurrentPosition(): Promise<Coordinates>;
+}
+
+/** Where the user is, and how far each venue is from there. */
+export interface UserLocation {
+    coords: Coordinates;
+    /** The walk to a venue in minutes, or null if the venue's location is unknown. */
+    getWalkingMinutes(hh: HappyHour): number | null;
+    /** The distance to a venue for display, e.g. "0.4 mi · 8 min walk", or null if it's unknown. */
+    describeDistance(hh: HappyHour): string | null;
+}
+
+export const browserLocationProvider: LocationProvider = {
+    getCurrentPosition: () => new Promise((resolve, reject) => {
+        if (!('geolocation' in navigator)) {
+            reject(new Error("Location isn't available on this device."));
+            return;
+        }
+        navigator.geolocation.getCurrentPosition(
+            pos => resolve({ lat: pos.coords.latitude, lng: pos.coords.longitude }),
+            err => reject(new Error(err.code === err.PERMISSION_DENIED ? "Location permission was denied." : "Couldn't determine your location.")),
+            { enableHighAccuracy: true, timeout: 10000, maximumAge: 60000 }
+        );
+    }),
+};
+
+/**
+ * Creates a provider that always reports the same position.
+ * @param coords The position to report.
+ */
+export function createFixedLocationProvider(coords: Coordinates): LocationProvider {
+    return { getCurrentPosition: () => Promise.resolve(coords) };
+}
+
+/**
+ * Calculates the great-circle distance between two coordinates using the haversine formula.
+ * @param a The first coordinate.
+ * @param b The second coordinate.
+ * @returns The distance in meters.
+ */
+export function getDistanceMeters(a: Coordinates, b: Coordinates): number {
+    const toRadians = (deg: number) => deg * Math.PI / 180;
+    const earthRadius = 6371000;
+    const dLat = toRadians(b.lat - a.lat);
+    const dLng = toRadians(b.lng - a.lng);
+    const h = Math.sin(dLat / 2) ** 2 + Math.cos(toRadians(a.lat)) * Math.cos(toRadians(b.lat)) * Math.sin(dLng / 2) ** 2;
+    return 2 * earthRadius * Math.asin(Math.sqrt(h));
+}
+
+/**
+ * Estimates how many minutes it takes to walk between two points.
+ * @param from Where the walk starts.
+ * @param to Where it ends.
+ */
+export function getWalkingMinutesBetween(from: Coordinates, to: Coordinates): number {
+    return Math.round(getDistanceMeters(from, to) / WALKING_METERS_PER_MINUTE);
+}
+
+/**
+ * Measures distances to venues from a known position.
+ * @param coords The user's position.
+ */
+export function measureFrom(coords: Coordinates): UserLocation {
+    const getWalkingMinutes = (hh: HappyHour) => hh.coordinates ? getWalkingMinutesBetween(coords, hh.coordinates) : null;
+    return {
+        coords,
+        getWalkingMinutes,
+        describeDistance: hh => {
+            if (!hh.coordinates) return null;
+            const miles = getDistanceMeters(coords, hh.coordinates) / 1609.344;
+            return `${miles < 10 ? miles.toFixed(1) : Math.round(miles)} mi · ${formatDuration(getWalkingMinutes(hh)!)} walk`;
+        },
+    };
+}
+
+/**
+ * Asks a location provider where the user is.
+ * @param provider Where the position comes from: the device, or a fixed place.
+ * @throws If the provider can't determine the position.
+ */
+export async function locateUser(provider: LocationProvider): Promise<UserLocation> {
+    return measureFrom(await provider.getCurrentPosition());
+}
+
+/**
+ * Scores how good a venue is to head to right now, weighing rating, walking time and how long the
+ * happy hour will still be running when you get there. Higher is better.
+ * @param hh The happy hour object.
+ * @param status The venue's current status.
+ * @param walkingMinutes The walk to the venue in minutes, or null if it's unknown.
+ */
+export function getBestOptionScore(hh: HappyHour, status: HappyHourStatus, walkingMinutes: number | null): number {
+    // Venues without a known distance are treated as a fairly long walk.
+    const walkMinutes = walkingMinutes ?? 30;
+
+    let timeScore: number;
+    if (status.status === 'active') {
+        // Minutes of happy hour left on arrival, capped so a long window doesn't dominate.
+        timeScore = Math.min(status.minutesUntilEnd! - walkMinutes, 90);
+    } else if (status.minutesUntilStart !== undefined && status.minutesUntilStart <= 60) {
+        // Starting soon: arriving early costs only the wait beyond the walk.
+        timeScore = -Math.max(status.minutesUntilStart - walkMinutes, 0);
+    } else {
+        return -Infinity;
+    }
+    return hh.rating * 15 + timeScore - walkMinutes * 2;
+}
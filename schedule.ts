@@ -0,0 +1,389 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// Key West time and happy hour schedules: when a happy hour runs, and its status at a given instant.
+// Nothing here reads the clock or touches the page; callers pass the current time in.
+
+import { DAY_CODES, type HappyHour, type HappyHourStatus, type TimeRange, type WeeklySchedule } from './types.ts';
+
+/**
+ * Builds a schedule in which every listed day shares the same time ranges.
+ * @param days The day codes to include.
+ * @param timeRanges The time ranges for each of those days.
+ */
+export function buildWeeklySchedule(days: string[], timeRanges: TimeRange[]): WeeklySchedule {
+    const schedule: WeeklySchedule = {};
+    days.forEach(day => {
+        schedule[day] = timeRanges.map(r => ({ ...r }));
+    });
+    return schedule;
+}
+
+// All happy hour schedules are Key West wall-clock times, regardless of where the device is.
+export const KEY_WEST_TIME_ZONE = 'America/New_York';
+
+/** A calendar date (no time of day) as seen on a Key West wall calendar. */
+export interface CalendarDay { year: number; month: number; day: number; }
+
+const keyWestPartsFormatter = new Intl.DateTimeFormat('en-US', {
+    timeZone: KEY_WEST_TIME_ZONE,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    second: 'numeric',
+});
+
+/**
+ * Breaks an instant down into its Key West wall-clock components.
+ * @param date The instant to convert.
+ * @returns The calendar day plus hours, minutes and seconds in Key West.
+ */
+export function getKeyWestParts(date: Date): CalendarDay & { hours: number; minutes: number; seconds: number } {
+    const parts: Record<string, number> = {};
+    keyWestPartsFormatter.formatToParts(date).forEach(p => {
+        if (p.type !== 'literal') parts[p.type] = parseInt(p.value, 10);
+    });
+    return {
+        year: parts.year,
+        month: parts.month,
+        day: parts.day,
+        hours: parts.hour % 24,
+        minutes: parts.minute,
+        seconds: parts.second,
+    };
+}
+
+/**
+ * Returns the Key West UTC offset (in minutes) in effect at the given instant, e.g. -240 during EDT.
+ * @param date The instant to check.
+ */
+export function getKeyWestOffsetMinutes(date: Date): number {
+    const p = getKeyWestParts(date);
+    const asUtc = Date.UTC(p.year, p.month - 1, p.day, p.hours, p.minutes, p.seconds);
+    return Math.round((asUtc - Math.floor(date.getTime() / 1000) * 1000) / 60000);
+}
+
+/**
+ * Converts a Key West wall-clock time on a given calendar day into an absolute Date.
+ * Wall times skipped by the spring-forward DST jump resolve to the instant just after the gap.
+ * @param day The Key West calendar day.
+ * @param timeStr The wall-clock time in "HH:MM" format.
+ */
+export function keyWestTimeToDate(day: CalendarDay, timeStr: string): Date {
+    const [hours, minutes] = timeStr.split(':').map(Number);
+    const wallAsUtc = Date.UTC(day.year, day.month - 1, day.day, hours, minutes);
+    // Guess with the offset at the naive instant, then correct it in case a DST change lies in between.
+    let offset = getKeyWestOffsetMinutes(new Date(wallAsUtc));
+    const corrected = getKeyWestOffsetMinutes(new Date(wallAsUtc - offset * 60000));
+    if (corrected !== offset) {
+        // If the corrected offset doesn't round-trip, the wall time falls in the spring-forward gap.
+        const check = getKeyWestOffsetMinutes(new Date(wallAsUtc - corrected * 60000));
+        if (check === corrected) offset = corrected;
+    }
+    return new Date(wallAsUtc - offset * 60000);
+}
+
+/**
+ * Moves a calendar day forwards or backwards by whole days.
+ * @param day The starting calendar day.
+ * @param delta The number of days to add (may be negative).
+ */
+export function addCalendarDays(day: CalendarDay, delta: number): CalendarDay {
+    const d = new Date(Date.UTC(day.year, day.month - 1, day.day + delta));
+    return { year: d.getUTCFullYear(), month: d.getUTCMonth() + 1, day: d.getUTCDate() };
+}
+
+/**
+ * Returns the short weekday name ("Mon", "Tue", ...) of a calendar day.
+ * @param day The calendar day.
+ */
+export function getWeekdayName(day: CalendarDay): string {
+    const dayMap = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+    return dayMap[new Date(Date.UTC(day.year, day.month - 1, day.day)).getUTCDay()];
+}
+
+/**
+ * Returns the time ranges a happy hour's weekly schedule lists for the given weekday.
+ * This ignores season bounds, blackouts and one-off events; see getRangesForDate for those.
+ * @param hh The happy hour object.
+ * @param day The short weekday name, e.g. "Mon".
+ */
+export function getRangesForDay(hh: HappyHour, day: string): TimeRange[] {
+    return hh.schedule[day] ?? [];
+}
+
+/**
+ * Formats a calendar day as an ISO date key, e.g. "2025-10-24".
+ * @param day The calendar day.
+ */
+export function formatDateKey(day: CalendarDay): string {
+    return `${day.year}-${String(day.month).padStart(2, '0')}-${String(day.day).padStart(2, '0')}`;
+}
+
+/**
+ * Returns the time ranges a happy hour actually runs on a specific Key West date. The weekly schedule
+ * applies only inside the season bounds and outside blackout dates; one-off events on that date are added on top.
+ * @param hh The happy hour object.
+ * @param day The Key West calendar day.
+ */
+export function getRangesForDate(hh: HappyHour, day: CalendarDay): TimeRange[] {
+    const dateKey = formatDateKey(day);
+    const inSeason = (!hh.startDate || dateKey >= hh.startDate) && (!hh.endDate || dateKey <= hh.endDate);
+    const blackedOut = hh.blackoutDates?.includes(dateKey) ?? false;
+
+    const ranges = inSeason && !blackedOut ? [...getRangesForDay(hh, getWeekdayName(day))] : [];
+    (hh.events ?? []).filter(ev => ev.date === dateKey).forEach(ev => ranges.push({ start: ev.start, end: ev.end }));
+    return ranges;
+}
+
+/** A single run of a happy hour, as absolute instants. */
+export interface Occurrence { start: Date; end: Date; }
+
+/**
+ * Lists every run of a happy hour that overlaps a time window, including an overnight run that
+ * started the day before the window. Takes season bounds, blackouts and one-off events into account.
+ * @param hh The happy hour object.
+ * @param from The start of the window.
+ * @param to The end of the window.
+ * @returns The runs, in start order.
+ */
+export function getOccurrencesBetween(hh: HappyHour, from: Date, to: Date): Occurrence[] {
+    const occurrences: Occurrence[] = [];
+    const lastKey = formatDateKey(getKeyWestParts(to));
+    for (let day = addCalendarDays(getKeyWestParts(from), -1); formatDateKey(day) <= lastKey; day = addCalendarDays(day, 1)) {
+        getRangesForDate(hh, day).forEach(range => {
+            if (!range.start || !range.end) return;
+            const start = keyWestTimeToDate(day, range.start);
+            // Overnight ranges end on the following Key West calendar day.
+            const end = keyWestTimeToDate(range.end <= range.start ? addCalendarDays(day, 1) : day, range.end);
+            if (start < to && end > from) occurrences.push({ start, end });
+        });
+    }
+    return occurrences.sort((a, b) => a.start.getTime() - b.start.getTime());
+}
+
+/**
+ * Checks whether a happy hour can never run again: its season has ended (or it has no weekly schedule)
+ * and all of its one-off events are in the past.
+ * @param hh The happy hour object.
+ * @param now The current Date object.
+ */
+export function isHappyHourExpired(hh: HappyHour, now: Date): boolean {
+    // Compare against yesterday so an overnight range that started yesterday still counts.
+    const yesterdayKey = formatDateKey(addCalendarDays(getKeyWestParts(now), -1));
+
+    const hasWeeklySchedule = DAY_CODES.some(day => getRangesForDay(hh, day).length > 0);
+    const weeklyScheduleEnded = !hasWeeklySchedule || (hh.endDate !== undefined && hh.endDate < yesterdayKey);
+    const hasFutureEvent = (hh.events ?? []).some(ev => ev.date >= yesterdayKey);
+    return weeklyScheduleEnded && !hasFutureEvent;
+}
+
+/**
+ * Formats a "YYYY-MM-DD" date key for display, e.g. "Oct 24, 2025".
+ * @param key The date key.
+ */
+export function formatDate(key: string): string {
+    const [year, month, day] = key.split('-').map(Number);
+    return new Date(Date.UTC(year, month - 1, day)).toLocaleDateString('en-US', { timeZone: 'UTC', month: 'short', day: 'numeric', year: 'numeric' });
+}
+
+/**
+ * Describes a happy hour's season bounds, blackout dates and one-off events for display.
+ * @param hh The happy hour object.
+ * @returns One line per kind of date constraint; empty when there are none.
+ */
+export function describeDateConstraints(hh: HappyHour): string[] {
+    const lines: string[] = [];
+    if (hh.startDate && hh.endDate) lines.push(`Season: ${formatDate(hh.startDate)} – ${formatDate(hh.endDate)}`);
+    else if (hh.startDate) lines.push(`Starts ${formatDate(hh.startDate)}`);
+    else if (hh.endDate) lines.push(`Ends ${formatDate(hh.endDate)}`);
+    if (hh.blackoutDates?.length) lines.push(`Closed: ${hh.blackoutDates.map(formatDate).join(', ')}`);
+    (hh.events ?? []).forEach(ev => {
+        lines.push(`${ev.label || 'Event'}: ${formatDate(ev.date)} ${ev.start} - ${ev.end}`);
+    });
+    return lines;
+}
+
+/**
+ * Summarizes a weekly schedule, grouping consecutive days that share the same hours.
+ * @param schedule The weekly schedule.
+ * @returns A string such as "Mon–Fri 16:00 - 19:00 · Sun 14:00 - 17:00".
+ */
+export function describeSchedule(schedule: WeeklySchedule): string {
+    const groups: { days: string[]; hours: string }[] = [];
+    DAY_CODES.forEach(day => {
+        const ranges = schedule[day] ?? [];
+        if (ranges.length === 0) return;
+        const hours = ranges.map(r => `${r.start} - ${r.end}`).join(', ');
+        const last = groups[groups.length - 1];
+        const previousDay = DAY_CODES[DAY_CODES.indexOf(day) - 1];
+        if (last && last.hours === hours && last.days[last.days.length - 1] === previousDay) {
+            last.days.push(day);
+        } else {
+            groups.push({ days: [day], hours });
+        }
+    });
+    if (groups.length === 0) return 'No scheduled hours';
+
+    return groups.map(g => {
+        const days = g.days.length > 2 ? `${g.days[0]}–${g.days[g.days.length - 1]}` : g.days.join(', ');
+        return `${days} ${g.hours}`;
+    }).join(' · ');
+}
+
+/**
+ * Checks whether the device's clock currently shows the same local time as Key West.
+ * @param now The current Date object.
+ */
+export function isDeviceOnKeyWestTime(now: Date): boolean {
+    return -now.getTimezoneOffset() === getKeyWestOffsetMinutes(now);
+}
+
+/**
+ * Determines the current status of a happy hour (active, upcoming, or ended).
+ * All schedule math is done in Key West time (America/New_York), so the result is the same on any device
+ * and stays correct across DST transitions.
+ * @param hh The happy hour object.
+ * @param now The current Date object.
+ * @returns A HappyHourStatus object.
+ */
+export function getHappyHourStatus(hh: HappyHour, now: Date): HappyHourStatus {
+    const nowParts = getKeyWestParts(now);
+    const today: CalendarDay = { year: nowParts.year, month: nowParts.month, day: nowParts.day };
+    const yesterday = addCalendarDays(today, -1);
+
+    let soonestUpcomingStart: Date | null = null;
+
+    // --- STEP 1: Check if we are currently in an "overnight" happy hour that started yesterday. ---
+    for (const range of getRangesForDate(hh, yesterday)) {
+        if (!range.start || !range.end) continue;
+
+        if (range.end <= range.start) { // This is an overnight range
+            const startDate = keyWestTimeToDate(yesterday, range.start);
+            const endDate = keyWestTimeToDate(today, range.end);
+
+            if (now >= startDate && now < endDate) {
+                const millisUntilEnd = endDate.getTime() - now.getTime();
+                return {
+                    status: 'active',
+                    minutesUntilEnd: Math.round(millisUntilEnd / 60000)
+                };
+            }
+        }
+    }
+
+    // --- STEP 2: Check for active or upcoming happy hours based on today's schedule. ---
+    for (const range of getRangesForDate(hh, today)) {
+        if (!range.start || !range.end) continue;
+
+        const startDate = keyWestTimeToDate(today, range.start);
+        // Overnight ranges end on the following Key West calendar day.
+        const endDay = range.end <= range.start ? addCalendarDays(today, 1) : today;
+        const endDate = keyWestTimeToDate(endDay, range.end);
+
+        // Is it active right now?
+        if (now >= startDate && now < endDate) {
+            const millisUntilEnd = endDate.getTime() - now.getTime();
+            return {
+                status: 'active',
+                minutesUntilEnd: Math.round(millisUntilEnd / 60000)
+            };
+        }
+        // Is it upcoming later today?
+        else if (startDate > now) {
+            if (!soonestUpcomingStart || startDate < soonestUpcomingStart) {
+                soonestUpcomingStart = startDate;
+            }
+        }
+    }
+
+    // --- STEP 3: If we found any upcoming slots, return the soonest one. ---
+    if (soonestUpcomingStart) {
+        const millisUntilStart = soonestUpcomingStart.getTime() - now.getTime();
+        return {
+            status: 'upcoming',
+            minutesUntilStart: Math.round(millisUntilStart / 60000)
+        };
+    }
+
+    // --- STEP 4: Nothing left today, so look ahead over the coming week for the next occurrence. ---
+    for (let offset = 1; offset <= 7; offset++) {
+        const day = addCalendarDays(today, offset);
+
+        let nextStart: Date | null = null;
+        for (const range of getRangesForDate(hh, day)) {
+            if (!range.start || !range.end) continue;
+            const startDate = keyWestTimeToDate(day, range.start);
+            if (!nextStart || startDate < nextStart) {
+                nextStart = startDate;
+            }
+        }
+        if (nextStart) {
+            return {
+                status: 'ended',
+                minutesUntilStart: Math.round((nextStart.getTime() - now.getTime()) / 60000),
+                nextStart
+            };
+        }
+    }
+
+    // --- STEP 5: No occurrences at all in the coming week. ---
+    return { status: 'ended' };
+}
+
+/**
+ * Formats a number of minutes as a short duration, e.g. "42 min" or "1h 10m".
+ * @param minutes The duration in minutes.
+ */
+export function formatDuration(minutes: number): string {
+    if (minutes < 60) return `${minutes} min`;
+    const hours = Math.floor(minutes / 60);
+    const mins = minutes % 60;
+    return mins === 0 ? `${hours}h` : `${hours}h ${mins}m`;
+}
+
+/**
+ * Formats an instant as a Key West time, e.g. "16:00".
+ * @param date The instant to format.
+ */
+export function formatKeyWestTime(date: Date): string {
+    const p = getKeyWestParts(date);
+    return `${String(p.hours).padStart(2, '0')}:${String(p.minutes).padStart(2, '0')}`;
+}
+
+/**
+ * Formats an instant as a Key West weekday and time, e.g. "Fri 16:00".
+ * @param date The instant to format.
+ */
+export function formatKeyWestDayAndTime(date: Date): string {
+    return `${getWeekdayName(getKeyWestParts(date))} ${formatKeyWestTime(date)}`;
+}
+
+/**
+ * Describes a happy hour's status for display on its card's badge.
+ * @param status The status returned by getHappyHourStatus.
+ * @returns Badge text such as "Active – ends in 42 min", "Starts in 1h 10m" or "Next: Fri 16:00".
+ */
+export function describeStatus(status: HappyHourStatus): string {
+    if (status.status === 'active') {
+        return `Active – ends in ${formatDuration(status.minutesUntilEnd!)}`;
+    }
+    if (status.status === 'upcoming') {
+        return `Starts in ${formatDuration(status.minutesUntilStart!)}`;
+    }
+    return status.nextStart ? `Next: ${formatKeyWestDayAndTime(status.nextStart)}` : 'No upcoming happy hours';
+}
+
+/**
+ * Parses a "YYYY-MM-DD" date key into a calendar day.
+ * @param key The date key.
+ */
+export function parseDateKey(key: string): CalendarDay {
+    const [year, month, day] = key.split('-').map(Number);
+    return { year, month, day };
+}
@@ -0,0 +1,117 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// Share links: how venues and bar crawls are packed into a URL, and how what comes back out of one is
+// checked. A share link can come from anyone, so everything decoded from it is validated like an import.
+
+import { formatDate } from './schedule.ts';
+import { type HappyHour } from './types.ts';
+import { type ImportedHappyHour, isValidDateString, isValidStayMinutes, isValidTimeString, validateImportedRecord } from './validation.ts';
+
+/** A venue as it travels in a share link: without the local ID and the personal fields. */
+export type SharedVenue = Omit<HappyHour, 'id' | 'isFavorite' | 'isArchived'>;
+
+/** A bar crawl read from a share link. Its venues travel with it, since IDs differ between devices. */
+export interface SharedCrawl {
+    name: string;
+    date: string;
+    start: string;
+    end: string;
+    stops: { venue: ImportedHappyHour; stayMinutes: number }[];
+}
+
+/**
+ * Encodes bytes as URL-safe base64 without padding.
+ * @param bytes The bytes to encode.
+ */
+function toBase64Url(bytes: Uint8Array): string {
+    let binary = '';
+    bytes.forEach(b => { binary += String.fromCharCode(b); });
+    return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(text: string) {
+    const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'));
+    return Uint8Array.from(binary, c => c.charCodeAt(0));
+}
+
+/**
+ * Runs bytes through a compression or decompression stream.
+ * @param bytes The input bytes.
+ * @param stream The (de)compression stream to use.
+ */
+async function transformBytes(bytes: BufferSource, stream: CompressionStream | DecompressionStream): Promise<Uint8Array> {
+    const output = new Response(bytes).body!.pipeThrough(stream);
+    return new Uint8Array(await new Response(output).arrayBuffer());
+}
+
+/**
+ * Encodes a value compactly for a share link: as JSON, deflated and base64url-encoded.
+ * @param value The value to encode.
+ */
+export async function encodeSharePayload(value: unknown): Promise<string> {
+    const json = new TextEncoder().encode(JSON.stringify(value));
+    return toBase64Url(await transformBytes(json, new CompressionStream('deflate-raw')));
+}
+
+/**
+ * Decodes a value from a share link. The value is whatever the link holds; check it before use.
+ * @param encoded The encoded value.
+ * @throws If the link is damaged.
+ */
+export async function decodeSharePayload(encoded: string): Promise<unknown> {
+    const json = new TextDecoder().decode(await transformBytes(fromBase64Url(encoded), new DecompressionStream('deflate-raw')));
+    return JSON.parse(json);
+}
+
+/**
+ * Returns the fields of a venue that go into a share link. Personal fields (favorite, archived)
+ * and the local ID are left out.
+ * @param hh The happy hour to share.
+ */
+export function getShareableVenue(hh: HappyHour): SharedVenue {
+    const { id, isFavorite, isArchived, ...shared } = hh;
+    return shared;
+}
+
+/**
+ * Validates a venue received in a share link with the import checks. The sender's personal fields
+ * are ignored.
+ * @param raw The decoded venue.
+ * @returns The venue, ready to import.
+ * @throws If the venue fails validation.
+ */
+export function parseSharedVenue(raw: unknown): ImportedHappyHour {
+    const venue = raw !== null && typeof raw === 'object' ? { ...raw, isFavorite: false, isArchived: false } : raw;
+    const result = validateImportedRecord(venue, 0);
+    if (!result.record) throw new Error(result.errors.join(' '));
+    return result.record;
+}
+
+/**
+ * Validates a bar crawl received in a share link: its date and times, and each stop's venue (with the
+ * import checks) and length of stay.
+ * @param raw The decoded crawl.
+ * @returns The crawl, named after its date if it has no name.
+ * @throws If the crawl or any of its stops fails validation.
+ */
+export function parseSharedCrawl(raw: unknown): SharedCrawl {
+    const crawl = raw !== null && typeof raw === 'object' ? raw as Record<string, unknown> : {};
+    const { name, date, start, end, stops } = crawl;
+    if (!isValidDateString(date) || !isValidTimeString(start) || !isValidTimeString(end) || !Array.isArray(stops) || stops.length === 0) {
+        throw new Error('Not a bar crawl.');
+    }
+    return {
+        name: typeof name === 'string' && name.trim() ? name.trim() : `Crawl on ${formatDate(date)}`,
+        date,
+        start,
+        end,
+        stops: stops.map((value: unknown, i) => {
+            const stop = value !== null && typeof value === 'object' ? value as Record<string, unknown> : {};
+            if (!isValidStayMinutes(stop.stayMinutes)) throw new Error(`Stop ${i + 1} has no valid length of stay.`);
+            return { venue: parseSharedVenue(stop.venue), stayMinutes: stop.stayMinutes };
+        }),
+    };
+}
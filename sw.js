@@ -0,0 +1,157 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// Service worker for offline use. App files are fetched from the network whenever it answers and
+// the cache only stands in when it doesn't, so releases reach installed copies without a version bump.
+// Bump CACHE_VERSION when PRECACHE_URLS changes, so existing installs download the new list.
+const CACHE_VERSION = 'v8';
+const PRECACHE = `kw-happy-hour-precache-${CACHE_VERSION}`;
+const RUNTIME_CACHE = `kw-happy-hour-runtime-${CACHE_VERSION}`;
+
+const FONT_STYLESHEET_URL = 'https://fonts.googleapis.com/css2?family=Roboto:wght@400;500;700&display=swap';
+
+// The app shell, plus the stylesheet that declares the Roboto web font.
+const PRECACHE_URLS = [
+    './',
+    'index.html',
+    'index.css',
+    'index.tsx',
+    'types.ts',
+    'assistant.ts',
+    'schedule.ts',
+    'share.ts',
+    'sync.ts',
+    'filters.ts',
+    'html.ts',
+    'templates.ts',
+    'validation.ts',
+    'deals.ts',
+    'ics.ts',
+    'location.ts',
+    'crawl.ts',
+    'csv.ts',
+    'importing.ts',
+    'icon.svg',
+    'manifest.json',
+    FONT_STYLESHEET_URL,
+];
+
+// Cross-origin hosts whose responses are cached as they're fetched (font files and import-map modules).
+const RUNTIME_HOSTS = ['fonts.googleapis.com', 'fonts.gstatic.com', 'esm.sh'];
+
+// How long to wait for the network before answering from the cache, so a weak signal doesn't stall the app.
+const NETWORK_TIMEOUT_MS = 3000;
+
+self.addEventListener('install', (event) => {
+    // Don't call skipWaiting() here: the page asks the user before switching to a new version.
+    event.waitUntil(
+        caches.open(PRECACHE)
+            .then(cache => cache.addAll(PRECACHE_URLS))
+            .then(precacheFontFiles)
+    );
+});
+
+/**
+ * Downloads the font files referenced by the cached font stylesheet, so text renders
+ * in Roboto offline. A failure here doesn't block the install; fonts fall back to sans-serif.
+ */
+async function precacheFontFiles() {
+    try {
+        const response = await caches.match(FONT_STYLESHEET_URL);
+        if (!response) return;
+        const css = await response.text();
+        const fontUrls = Array.from(css.matchAll(/url\((https:\/\/fonts\.gstatic\.com\/[^)]+)\)/g), match => match[1]);
+        const cache = await caches.open(RUNTIME_CACHE);
+        await cache.addAll(fontUrls);
+    } catch (error) {
+        console.warn('Could not precache font files:', error);
+    }
+}
+
+self.addEventListener('activate', (event) => {
+    // Remove caches left behind by previous versions.
+    event.waitUntil(
+        caches.keys()
+            .then(keys => Promise.all(
+                keys.filter(key => key !== PRECACHE && key !== RUNTIME_CACHE).map(key => caches.delete(key))
+            ))
+            .then(() => self.clients.claim())
+    );
+});
+
+self.addEventListener('message', (event) => {
+    if (event.data && event.data.type === 'SKIP_WAITING') {
+        self.skipWaiting();
+    }
+});
+
+// Tapping a happy hour reminder brings the app to the front (or opens it).
+self.addEventListener('notificationclick', (event) => {
+    event.notification.close();
+    event.waitUntil(
+        self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then((clients) => {
+            const client = clients.find((c) => 'focus' in c);
+            return client ? client.focus() : self.clients.openWindow('./');
+        })
+    );
+});
+
+/**
+ * Answers a request from the network, refreshing the cached copy, and falls back to the cache when the
+ * network fails or takes longer than NETWORK_TIMEOUT_MS. A slow response still refreshes the cache.
+ * @param {FetchEvent} event The fetch event.
+ * @param {RequestInfo} cacheKey What the response is cached under.
+ */
+function networkFirst(event, cacheKey) {
+    const network = fetch(event.request);
+    event.waitUntil(
+        network
+            .then(response => response.ok && caches.open(PRECACHE).then(cache => cache.put(cacheKey, response.clone())))
+            .catch(() => undefined)
+    );
+
+    const timeout = new Promise((_, reject) => setTimeout(() => reject(new Error('Network timeout')), NETWORK_TIMEOUT_MS));
+    return Promise.race([network, timeout]).catch(() =>
+        caches.match(cacheKey, { ignoreSearch: true }).then(cached => cached || network)
+    );
+}
+
+self.addEventListener('fetch', (event) => {
+    const request = event.request;
+    if (request.method !== 'GET') return;
+
+    const url = new URL(request.url);
+
+    // Page navigations get the app shell: fresh from the network, or the cached copy when there's no signal.
+    if (request.mode === 'navigate') {
+        event.respondWith(networkFirst(event, 'index.html'));
+        return;
+    }
+
+    if (url.origin === self.location.origin) {
+        // App files: network first, so a new release is picked up on the next load.
+        event.respondWith(networkFirst(event, request));
+        return;
+    }
+
+    if (RUNTIME_HOSTS.includes(url.hostname)) {
+        // Fonts and modules: serve from cache when we can, and refresh the copy in the background.
+        event.respondWith(
+            caches.open(RUNTIME_CACHE).then(cache =>
+                cache.match(request).then(cached => {
+                    const network = fetch(request)
+                        .then(response => {
+                            if (response.ok || response.type === 'opaque') {
+                                cache.put(request, response.clone());
+                            }
+                            return response;
+                        })
+                        .catch(() => cached);
+                    return cached || network;
+                })
+            )
+        );
+    }
+});
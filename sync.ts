@@ -0,0 +1,281 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// Syncing the list between devices: the backends that hold the shared copy, and the merge that
+// combines it with each device's list. Nothing here touches the page or localStorage.
+
+import { type HappyHour } from './types.ts';
+import { getDuplicateKey, validateImportedRecord } from './validation.ts';
+
+/** Marks a deleted happy hour. */
+export interface Tombstone {
+    id: number;
+    deletedAt: string;
+}
+
+/** A happy hour as it's shared between devices: without the fields that stay on each device. */
+export type SyncedHappyHour = Omit<HappyHour, 'isFavorite' | 'isArchived'>;
+
+/** The shared copy of the list held by a sync backend. */
+export interface SyncSnapshot {
+    // Goes up by one with every accepted push, so a push based on an out-of-date copy can be refused
+    revision: number;
+    happyHours: SyncedHappyHour[];
+    deleted: Tombstone[];
+}
+
+/** Where devices sync the list through. Swappable so sync can be tested without a server. */
+export interface SyncBackend {
+    // Names the backend in the sync status, e.g. "sync.example.com"
+    label: string;
+    /** Fetches the shared copy. */
+    pull(): Promise<SyncSnapshot>;
+    /**
+     * Replaces the shared copy, unless another device has pushed since `baseRevision`.
+     * @returns Whether the push was accepted; if not, pull and merge again.
+     */
+    push(happyHours: SyncedHappyHour[], deleted: Tombstone[], baseRevision: number): Promise<boolean>;
+}
+
+/** A change that lost to another change of the same entry, kept so the user can review it. */
+export interface SyncConflict {
+    id: number;
+    detectedAt: string;
+    // The version now in the list, or null if the entry was deleted
+    kept: SyncedHappyHour | null;
+    // The version that lost, or null if the losing change was a deletion
+    discarded: SyncedHappyHour | null;
+    // Which device the losing change was made on
+    discardedFrom: 'local' | 'remote';
+}
+
+// The timestamp used for entries without an updatedAt: older than any real change
+export const SYNC_EPOCH = new Date(0).toISOString();
+
+// How long a tombstone the server has accepted is kept, so devices that sync less often still see the
+// deletion. A device that stays offline for longer can bring the entry back.
+export const TOMBSTONE_RETENTION_DAYS = 30;
+
+/**
+ * Returns the synced fields of a happy hour (all but the ID, timestamp and the personal isFavorite and
+ * isArchived) as a string that is equal for equal content, whatever order the fields were set in.
+ * @param hh The happy hour.
+ */
+export function getSyncFingerprint(hh: Omit<HappyHour, 'isFavorite' | 'isArchived'>): string {
+    const { id, updatedAt, isFavorite, isArchived, ...synced } = hh as HappyHour;
+    return JSON.stringify(synced, (_, value) => value && typeof value === 'object' && !Array.isArray(value)
+        ? Object.fromEntries(Object.entries(value).sort(([a], [b]) => a < b ? -1 : a > b ? 1 : 0))
+        : value);
+}
+
+/**
+ * Creates a sync backend that keeps the shared copy in memory. It's the reference implementation of
+ * the protocol; tests point several devices at one instance.
+ */
+export function createMemorySyncBackend(): SyncBackend {
+    let snapshot: SyncSnapshot = { revision: 0, happyHours: [], deleted: [] };
+    return {
+        label: 'the in-memory test server',
+        async pull() {
+            return structuredClone(snapshot);
+        },
+        async push(happyHours, deleted, baseRevision) {
+            if (baseRevision !== snapshot.revision) return false;
+            snapshot = structuredClone({ revision: baseRevision + 1, happyHours, deleted });
+            return true;
+        },
+    };
+}
+
+/**
+ * Creates a sync backend for a server that holds the shared copy as a JSON snapshot at one URL.
+ * GET returns the snapshot (404 before the first push). PUT replaces it, with the base revision in
+ * an If-Match header, and answers 412 if the stored revision is different.
+ * @param url The snapshot's URL.
+ */
+export function createHttpSyncBackend(url: string): SyncBackend {
+    return {
+        label: new URL(url).host,
+        async pull() {
+            const response = await fetch(url, { cache: 'no-store' });
+            if (response.status === 404) return { revision: 0, happyHours: [], deleted: [] };
+            if (!response.ok) throw new Error(`The sync server answered ${response.status}.`);
+            return parseSyncSnapshot(await response.json());
+        },
+        async push(happyHours, deleted, baseRevision) {
+            const response = await fetch(url, {
+                method: 'PUT',
+                headers: { 'Content-Type': 'application/json', 'If-Match': `"${baseRevision}"` },
+                body: JSON.stringify({ revision: baseRevision + 1, happyHours, deleted }),
+            });
+            if (response.status === 412) return false;
+            if (!response.ok) throw new Error(`The sync server answered ${response.status}.`);
+            return true;
+        },
+    };
+}
+
+/**
+ * Returns the value as a plain object, or null if it isn't one.
+ * @param value The value to check.
+ */
+function asRecord(value: unknown): Record<string, unknown> | null {
+    return value !== null && typeof value === 'object' && !Array.isArray(value) ? value as Record<string, unknown> : null;
+}
+
+/**
+ * Returns the value as a normalized ISO timestamp, or undefined if it isn't a date string.
+ * @param value The value to check.
+ */
+function toTimestamp(value: unknown): string | undefined {
+    return typeof value === 'string' && !isNaN(Date.parse(value)) ? new Date(value).toISOString() : undefined;
+}
+
+/**
+ * Validates a synced entry with the same checks as an import.
+ * @param value The decoded entry.
+ * @param row Which entry it is, for error messages.
+ * @returns The entry, or the reasons it failed validation.
+ */
+function parseSyncedHappyHour(value: unknown, row: number): { entry: SyncedHappyHour | null; errors: string[] } {
+    const result = validateImportedRecord(value, row);
+    if (!result.record) return { entry: null, errors: result.errors };
+    if (result.id === undefined) return { entry: null, errors: ['Missing ID.'] };
+    const { isFavorite, isArchived, ...synced } = result.record;
+    return { entry: { ...synced, id: result.id, updatedAt: toTimestamp(asRecord(value)?.updatedAt) }, errors: [] };
+}
+
+/**
+ * Validates a snapshot received from a sync server with the same checks as an import. Entries that
+ * fail validation are left out.
+ * @param raw The decoded snapshot.
+ * @throws If it isn't a snapshot at all.
+ */
+export function parseSyncSnapshot(raw: unknown): SyncSnapshot {
+    const data = asRecord(raw);
+    if (!data || !Number.isSafeInteger(data.revision) || !Array.isArray(data.happyHours) || !Array.isArray(data.deleted)) {
+        throw new Error('The sync server sent something that is not a happy hour list.');
+    }
+    const happyHours: SyncedHappyHour[] = [];
+    data.happyHours.forEach((value: unknown, i) => {
+        const { entry, errors } = parseSyncedHappyHour(value, i + 1);
+        if (entry) happyHours.push(entry);
+        else console.warn(`Skipping invalid entry ${i + 1} from the sync server:`, errors);
+    });
+    const deleted = data.deleted.flatMap((value: unknown): Tombstone[] => {
+        const tombstone = asRecord(value);
+        const deletedAt = toTimestamp(tombstone?.deletedAt);
+        return tombstone && Number.isSafeInteger(tombstone.id) && deletedAt ? [{ id: tombstone.id as number, deletedAt }] : [];
+    });
+    return { revision: data.revision as number, happyHours, deleted };
+}
+
+/**
+ * Validates conflicts read back from storage. Conflicts that are malformed, or whose versions fail the
+ * import checks, are left out.
+ * @param raw The stored conflicts.
+ */
+export function parseSyncConflicts(raw: unknown): SyncConflict[] {
+    if (!Array.isArray(raw)) return [];
+    return raw.flatMap((value: unknown, i): SyncConflict[] => {
+        const conflict = asRecord(value);
+        const detectedAt = toTimestamp(conflict?.detectedAt);
+        if (!conflict || !Number.isSafeInteger(conflict.id) || !detectedAt) return [];
+        if (conflict.discardedFrom !== 'local' && conflict.discardedFrom !== 'remote') return [];
+        const kept = conflict.kept === null ? null : parseSyncedHappyHour(conflict.kept, i + 1).entry;
+        const discarded = conflict.discarded === null ? null : parseSyncedHappyHour(conflict.discarded, i + 1).entry;
+        if ((conflict.kept !== null && !kept) || (conflict.discarded !== null && !discarded) || (!kept && !discarded)) return [];
+        return [{ id: conflict.id as number, detectedAt, kept, discarded, discardedFrom: conflict.discardedFrom }];
+    });
+}
+
+/**
+ * Finds this device's entries that are the same venue (same name and address) as an entry in the
+ * shared copy under another ID, e.g. one added on each device before they first synced. Only entries
+ * the shared copy has never seen are matched, and each shared entry is matched at most once.
+ * @param local This device's entries.
+ * @param remote The shared copy.
+ * @returns The shared copy's ID for each matched local ID.
+ */
+export function matchFirstSyncDuplicates(local: SyncedHappyHour[], remote: SyncSnapshot): Map<number, number> {
+    const remoteIds = new Set([...remote.happyHours.map(hh => hh.id), ...remote.deleted.map(t => t.id)]);
+    const localIds = new Set(local.map(hh => hh.id));
+    const candidates = new Map<string, number>();
+    remote.happyHours.forEach(hh => {
+        const key = getDuplicateKey(hh);
+        if (!localIds.has(hh.id) && !candidates.has(key)) candidates.set(key, hh.id);
+    });
+
+    const matches = new Map<number, number>();
+    local.forEach(hh => {
+        if (remoteIds.has(hh.id)) return;
+        const key = getDuplicateKey(hh);
+        const remoteId = candidates.get(key);
+        if (remoteId === undefined) return;
+        matches.set(hh.id, remoteId);
+        candidates.delete(key);
+    });
+    return matches;
+}
+
+/**
+ * Merges this device's list with the shared copy, entry by entry: the side that changed (or deleted)
+ * an entry last wins, with ties going to the shared copy so every device settles on the same version.
+ * When both sides changed an entry since this device last synced, and differently, the losing
+ * version is reported as a conflict.
+ * @param local This device's entries and tombstones.
+ * @param remote The shared copy.
+ * @param lastSyncedAt When this device last synced, or null if it never has.
+ * @param now The current time, as an ISO timestamp.
+ * @returns The merged entries and tombstones, and the conflicts found.
+ */
+export function mergeForSync(
+    local: { happyHours: SyncedHappyHour[]; deleted: Tombstone[] },
+    remote: { happyHours: SyncedHappyHour[]; deleted: Tombstone[] },
+    lastSyncedAt: string | null,
+    now: string,
+): { happyHours: SyncedHappyHour[]; deleted: Tombstone[]; conflicts: SyncConflict[] } {
+    type Version = { record: SyncedHappyHour | null; at: string };
+    const getVersions = (side: typeof local) => {
+        const versions = new Map<number, Version>();
+        side.deleted.forEach(t => versions.set(t.id, { record: null, at: t.deletedAt }));
+        side.happyHours.forEach(hh => versions.set(hh.id, { record: hh, at: hh.updatedAt ?? SYNC_EPOCH }));
+        return versions;
+    };
+    const localVersions = getVersions(local);
+    const remoteVersions = getVersions(remote);
+    const since = lastSyncedAt ?? SYNC_EPOCH;
+
+    const merged = { happyHours: [] as SyncedHappyHour[], deleted: [] as Tombstone[], conflicts: [] as SyncConflict[] };
+    new Set([...localVersions.keys(), ...remoteVersions.keys()]).forEach(id => {
+        const mine = localVersions.get(id);
+        const theirs = remoteVersions.get(id);
+        const winner = !theirs ? mine! : !mine ? theirs : mine.at > theirs.at ? mine : theirs;
+        if (winner.record) merged.happyHours.push(winner.record);
+        else merged.deleted.push({ id, deletedAt: winner.at });
+
+        if (!mine || !theirs || mine.at <= since || theirs.at <= since) return;
+        const isSame = mine.record && theirs.record
+            ? getSyncFingerprint(mine.record) === getSyncFingerprint(theirs.record)
+            : mine.record === theirs.record;
+        if (isSame) return;
+        const loser = winner === mine ? theirs : mine;
+        merged.conflicts.push({ id, detectedAt: now, kept: winner.record, discarded: loser.record, discardedFrom: loser === mine ? 'local' : 'remote' });
+    });
+    return merged;
+}
+
+/**
+ * Drops the tombstones the server has already accepted (those in the shared copy) once they are
+ * older than the retention period. Tombstones only this device has are always kept.
+ * @param deleted The merged tombstones.
+ * @param acknowledged The tombstones in the shared copy.
+ * @param now The current time, as an ISO timestamp.
+ */
+export function pruneTombstones(deleted: Tombstone[], acknowledged: Tombstone[], now: string): Tombstone[] {
+    const acknowledgedIds = new Set(acknowledged.map(t => t.id));
+    const cutoff = new Date(Date.parse(now) - TOMBSTONE_RETENTION_DAYS * 24 * 60 * 60 * 1000).toISOString();
+    return deleted.filter(t => !acknowledgedIds.has(t.id) || t.deletedAt >= cutoff);
+}
@@ -0,0 +1,393 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// Markup for everything that shows user data: venue cards, the visit log, the crawl planner, the sync
+// conflict review and the form rows. Every template takes the data it shows as arguments and builds its markup with the html tag.
+
+import { DEAL_CATEGORY_LABELS, formatPrice } from './deals.ts';
+import { getSearchTerms } from './filters.ts';
+import { html, setHtml, type SafeHtml } from './html.ts';
+import {
+    describeDateConstraints,
+    describeSchedule,
+    describeStatus,
+    formatDate,
+    formatDuration,
+    formatKeyWestTime,
+    getHappyHourStatus,
+    getRangesForDay,
+    isHappyHourExpired,
+} from './schedule.ts';
+import { type SyncConflict, type SyncedHappyHour } from './sync.ts';
+import {
+    DAY_CODES,
+    DEAL_CATEGORIES,
+    type DealItem,
+    type HappyHour,
+    type Itinerary,
+    type OneOffEvent,
+    type ScheduledStop,
+    type Visit,
+} from './types.ts';
+
+/**
+ * Wraps every occurrence of the search terms in <mark> tags.
+ * @param text The raw text to display.
+ * @param query The current search query.
+ * @returns Markup with matches highlighted.
+ */
+export function highlightMatches(text: string, query: string): SafeHtml {
+    const terms = getSearchTerms(query);
+    if (terms.length === 0) return html`${text}`;
+
+    const pattern = new RegExp(`(${terms.map(t => t.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')).join('|')})`, 'gi');
+    return html`${text.split(pattern).map((part, i) => i % 2 === 1 ? html`<mark>${part}</mark>` : part)}`;
+}
+
+/**
+ * Builds the table of deal items shown on a card, with regular prices struck through.
+ * @param deals The deal items.
+ * @param searchQuery The current search query, highlighted in the item descriptions.
+ */
+export function renderDealsTable(deals: DealItem[], searchQuery: string): SafeHtml {
+    const rows = deals.map(d => html`
+        <tr>
+            <td><span class="deal-category deal-${d.category}">${DEAL_CATEGORY_LABELS[d.category]}</span></td>
+            <td>${highlightMatches(d.description, searchQuery)}</td>
+            <td class="price-regular">${d.regularPrice !== undefined ? html`<s>${formatPrice(d.regularPrice)}</s>` : ''}</td>
+            <td class="price-hh">${formatPrice(d.happyHourPrice)}</td>
+        </tr>
+    `);
+    return html`
+        <table class="deals-table">
+            <thead><tr><th>Type</th><th>Item</th><th>Reg.</th><th>Happy hour</th></tr></thead>
+            <tbody>${rows}</tbody>
+        </table>
+    `;
+}
+
+/** What a venue card shows beyond the happy hour itself. */
+export interface HappyHourCardOptions {
+    // The current search query, highlighted in the card
+    searchQuery: string;
+    // Whether to flag that the hours are in Key West time
+    showKeyWestTimeNote: boolean;
+    // e.g. "12 min walk", or null when the distance is unknown
+    distance: string | null;
+    // e.g. "Last visit 3 days ago · 4 visits", or null when never visited
+    visits: string | null;
+    reminderOn: boolean;
+}
+
+/**
+ * Builds the card element that displays a single happy hour.
+ * Used by both the list view and the map's marker popup.
+ * @param hh The happy hour to display.
+ * @param now The current Date object, used for the status badge.
+ * @param options The search query, distance, visits and reminder state to show.
+ * @returns The card element.
+ */
+export function createHappyHourCard(hh: HappyHour, now: Date, options: HappyHourCardOptions): HTMLElement {
+    const card = document.createElement('div');
+    const isExpired = isHappyHourExpired(hh, now);
+    card.className = isExpired ? 'happy-hour-card expired' : 'happy-hour-card';
+
+    const status = getHappyHourStatus(hh, now);
+    const badge = isExpired
+        ? html`<span class="status-badge status-expired">Expired</span>`
+        : html`<span class="status-badge status-${status.status}">${describeStatus(status)}</span>`;
+
+    const stars = '★'.repeat(hh.rating) + '☆'.repeat(5 - hh.rating);
+    const hasWeeklySchedule = DAY_CODES.some(day => getRangesForDay(hh, day).length > 0);
+    const scheduleStr = describeSchedule(hh.schedule);
+    const dateLines = describeDateConstraints(hh);
+    const { searchQuery, reminderOn } = options;
+
+    setHtml(card, html`
+        <div class="card-header">
+            <div class="card-title-group">
+                <h3><button class="venue-link" data-id="${hh.id}" title="Visits and details">${highlightMatches(hh.name, searchQuery)}</button></h3>
+                <p class="address">${highlightMatches(hh.address, searchQuery)}</p>
+                ${badge}
+            </div>
+            <div class="card-top-right">
+                <div class="card-rating">
+                    <span>${stars}</span>
+                    ${hh.isFavorite ? html`<span class="card-favorite" aria-label="Personal favorite">❤️</span>` : ''}
+                    ${hh.hasFood ? html`<span class="card-rating-food" aria-label="Food deals available">🍽️</span>` : ''}
+                </div>
+                <div class="card-actions">
+                    <button class="remind-btn${reminderOn ? ' active' : ''}" data-id="${hh.id}" aria-label="${reminderOn ? 'Turn off reminders' : 'Remind me'}" title="${reminderOn ? 'Reminders on' : 'Remind me'}">${reminderOn ? '🔔' : '🔕'}</button>
+                    <button class="calendar-btn" data-id="${hh.id}" aria-label="Add to calendar" title="Add to calendar">📅</button>
+                    <button class="edit-btn" data-id="${hh.id}">Edit</button>
+                </div>
+            </div>
+        </div>
+        <p class="summary">${highlightMatches(hh.specials, searchQuery)}</p>
+        ${hh.deals?.length ? renderDealsTable(hh.deals, searchQuery) : ''}
+        ${hh.tags.length > 0 ? html`<div class="card-tags">${hh.tags.map(tag => html`<span class="card-tag">#${tag}</span>`)}</div>` : ''}
+        <div class="card-footer">
+            ${hasWeeklySchedule || !hh.events?.length ? html`<span class="time"><strong>Hours:</strong> ${scheduleStr}</span>` : ''}
+            ${dateLines.map(line => html`<span class="dates">${line}</span>`)}
+            ${options.distance ? html`<span class="distance">📍 ${options.distance}</span>` : ''}
+            ${options.visits ? html`<span class="visits">✔️ ${options.visits}</span>` : ''}
+            ${options.showKeyWestTimeNote ? html`<span class="tz-note">🕒 Key West local time</span>` : ''}
+        </div>
+    `);
+    return card;
+}
+
+/**
+ * Builds a row for an archived happy hour, with buttons to restore or delete it.
+ * @param hh The archived happy hour.
+ */
+export function renderArchivedRow(hh: HappyHour): SafeHtml {
+    return html`
+        <div class="card-title-group">
+            <h3>${hh.name}</h3>
+            <p class="address">${hh.address}</p>
+        </div>
+        <div class="archived-row-actions">
+            <button class="edit-btn" data-action="restore" data-id="${hh.id}">Restore</button>
+            <button class="edit-btn danger" data-action="purge" data-id="${hh.id}">Delete forever</button>
+        </div>
+    `;
+}
+
+/**
+ * Builds a filter chip for each tag.
+ * @param tags The tags in use.
+ * @param activeTags The tags currently filtered by.
+ */
+export function renderTagFilterButtons(tags: string[], activeTags: string[]): SafeHtml {
+    return html`${tags.map(tag =>
+        html`<button class="filter-btn tag-filter${activeTags.includes(tag) ? ' active' : ''}" data-tag="${tag}">#${tag}</button>`
+    )}`;
+}
+
+/**
+ * Builds the options of a datalist offering suggestions.
+ * @param values The suggested values.
+ */
+export function renderSuggestions(values: string[]): SafeHtml {
+    return html`${values.map(value => html`<option value="${value}"></option>`)}`;
+}
+
+// --- FORM ROWS ---
+
+/**
+ * Builds the inputs of a one-off event row in the form.
+ * @param event The event to prefill, if any.
+ */
+export function renderEventRow(event?: OneOffEvent): SafeHtml {
+    return html`
+        <input type="date" class="event-date" value="${event?.date}" aria-label="Event date">
+        <input type="time" class="time-start" value="${event?.start}" aria-label="Event start">
+        <span>to</span>
+        <input type="time" class="time-end" value="${event?.end}" aria-label="Event end">
+        <input type="text" class="event-label" value="${event?.label}" placeholder="Label, e.g. Fantasy Fest">
+        <button type="button" class="remove-event-btn" aria-label="Remove event">&times;</button>
+    `;
+}
+
+/**
+ * Builds the inputs of a deal item row in the form.
+ * @param deal The deal to prefill, if any.
+ */
+export function renderDealRow(deal?: DealItem): SafeHtml {
+    return html`
+        <select class="deal-category" aria-label="Deal category">
+            ${DEAL_CATEGORIES.map(c => html`<option value="${c}" ${deal?.category === c ? 'selected' : ''}>${DEAL_CATEGORY_LABELS[c]}</option>`)}
+        </select>
+        <input type="text" class="deal-description" value="${deal?.description}" placeholder="e.g. Draft Yuengling">
+        <input type="number" class="deal-regular-price" min="0" step="0.01" value="${deal?.regularPrice}" placeholder="Reg. $" aria-label="Regular price">
+        <input type="number" class="deal-price" min="0" step="0.01" value="${deal?.happyHourPrice}" placeholder="HH $" aria-label="Happy hour price">
+        <button type="button" class="remove-deal-btn" aria-label="Remove deal">&times;</button>
+    `;
+}
+
+/**
+ * Builds the inputs of a time range row in the schedule editor.
+ * @param startValue The start time to prefill.
+ * @param endValue The end time to prefill.
+ */
+export function renderTimeRangeRow(startValue = '', endValue = ''): SafeHtml {
+    return html`
+        <input type="time" class="time-start" value="${startValue}">
+        <span>to</span>
+        <input type="time" class="time-end" value="${endValue}">
+        <button type="button" class="remove-time-range-btn" aria-label="Remove time range">&times;</button>
+    `;
+}
+
+// --- VISITS ---
+
+/**
+ * Builds the top of the venue detail view: the address and the ratings.
+ * @param hh The happy hour shown.
+ * @param averageVisitRating The average rating across the venue's visits, or null if none was rated.
+ */
+export function renderVenueSummary(hh: HappyHour, averageVisitRating: number | null): SafeHtml {
+    return html`
+        <p class="address">${hh.address}</p>
+        <p class="detail-ratings">
+            <span>Your rating: ${'★'.repeat(hh.rating)}${'☆'.repeat(5 - hh.rating)}</span>
+            <span>${averageVisitRating !== null ? `Average of visits: ${averageVisitRating.toFixed(1)} ★` : 'No rated visits yet'}</span>
+        </p>
+    `;
+}
+
+/**
+ * Builds a venue's visit history, newest first.
+ * @param venueVisits The venue's visits, newest first.
+ */
+export function renderVisitHistory(venueVisits: Visit[]): SafeHtml {
+    if (venueVisits.length === 0) {
+        return html`<div class="empty-state"><h3>No Visits Yet</h3><p>Check in above to start your history here.</p></div>`;
+    }
+    return html`
+        <h3 class="visit-history-title">History (${venueVisits.length} visit${venueVisits.length === 1 ? '' : 's'})</h3>
+        ${venueVisits.map(v => html`
+            <div class="visit-row">
+                <div class="visit-row-main">
+                    <strong>${formatDate(v.date)}</strong>
+                    ${v.rating ? html`<span class="visit-rating">${'★'.repeat(v.rating)}${'☆'.repeat(5 - v.rating)}</span>` : ''}
+                    ${v.ordered ? html`<p class="visit-ordered">Ordered: ${v.ordered}</p>` : ''}
+                    ${v.notes ? html`<p class="visit-notes">${v.notes}</p>` : ''}
+                </div>
+                <button type="button" class="remove-visit-btn" data-visit-id="${v.id}" aria-label="Delete visit">&times;</button>
+            </div>
+        `)}
+    `;
+}
+
+// --- BAR CRAWLS ---
+
+/**
+ * Builds the planner's view of an itinerary, with each stop's times and any warnings.
+ * @param itinerary The itinerary.
+ * @param scheduled Its stops with their times worked out.
+ * @param isSaved Whether the itinerary is one of the saved crawls.
+ */
+export function renderItinerary(itinerary: Itinerary, scheduled: ScheduledStop[], isSaved: boolean): SafeHtml {
+    if (itinerary.stops.length === 0) {
+        return html`<div class="empty-state"><h3>No Crawl Found</h3><p>No happy hours line up in that window. Try a different time or fewer constraints.</p></div>`;
+    }
+    return html`
+        <div class="crawl-header">
+            <input type="text" id="crawl-name" value="${itinerary.name}" aria-label="Crawl name">
+            <span class="form-hint">${formatDate(itinerary.date)}, ${itinerary.start}–${itinerary.end}</span>
+        </div>
+        <ol class="crawl-stops">
+            ${scheduled.map((s, i) => html`
+                <li class="crawl-stop${s.warning ? ' has-warning' : ''}">
+                    ${s.walkMinutes > 0 ? html`<p class="crawl-walk">🚶 ${formatDuration(s.walkMinutes)} walk${s.hh.coordinates ? '' : ' (estimated)'}</p>` : ''}
+                    <div class="crawl-stop-main">
+                        <div>
+                            <button type="button" class="venue-link" data-id="${s.hh.id}">${s.hh.name}</button>
+                            <p class="crawl-times">${formatKeyWestTime(s.begin)} – ${formatKeyWestTime(s.leave)}${s.begin > s.arrive ? ` (arrive ${formatKeyWestTime(s.arrive)}, happy hour starts ${formatKeyWestTime(s.begin)})` : ''}</p>
+                            ${s.windowEnd ? html`<p class="crawl-window">Happy hour until ${formatKeyWestTime(s.windowEnd)}</p>` : ''}
+                            ${s.warning ? html`<p class="crawl-warning" role="alert">⚠️ ${s.warning}</p>` : ''}
+                        </div>
+                        <div class="crawl-stop-actions">
+                            <button type="button" data-crawl-action="up" data-index="${i}" aria-label="Move up" ${i === 0 ? 'disabled' : ''}>↑</button>
+                            <button type="button" data-crawl-action="down" data-index="${i}" aria-label="Move down" ${i === scheduled.length - 1 ? 'disabled' : ''}>↓</button>
+                            <button type="button" data-crawl-action="remove" data-index="${i}" aria-label="Remove stop">&times;</button>
+                        </div>
+                    </div>
+                </li>
+            `)}
+        </ol>
+        <div class="edit-actions">
+            <button type="button" data-crawl-action="save" class="button-primary">${isSaved ? 'Save changes' : 'Save crawl'}</button>
+            <button type="button" data-crawl-action="share" class="button-secondary">Share</button>
+        </div>
+    `;
+}
+
+/**
+ * Builds the list of saved crawls; empty when there are none.
+ * @param itineraries The saved itineraries.
+ */
+export function renderSavedItineraries(itineraries: Itinerary[]): SafeHtml {
+    if (itineraries.length === 0) return html``;
+    return html`
+        <h3 class="visit-history-title">Saved crawls</h3>
+        ${itineraries.map(it => html`
+            <div class="archived-row">
+                <div class="card-title-group">
+                    <h3>${it.name}</h3>
+                    <p class="address">${formatDate(it.date)}, ${it.start}–${it.end} · ${it.stops.length} stop${it.stops.length === 1 ? '' : 's'}</p>
+                </div>
+                <div class="archived-row-actions">
+                    <button class="edit-btn" data-crawl-action="open" data-id="${it.id}">Open</button>
+                    <button class="edit-btn danger" data-crawl-action="delete" data-id="${it.id}">Delete</button>
+                </div>
+            </div>
+        `)}
+    `;
+}
+
+// --- REMINDERS ---
+
+/**
+ * Builds the checklist of venues to be reminded about.
+ * @param venues The venues to list.
+ * @param venueIds The IDs of the venues reminders are on for.
+ */
+export function renderReminderVenueList(venues: HappyHour[], venueIds: number[]): SafeHtml {
+    return html`${venues.map(hh => html`
+        <label class="reminder-venue">
+            <input type="checkbox" data-id="${hh.id}" ${venueIds.includes(hh.id) ? 'checked' : ''}>
+            ${hh.name}${hh.isFavorite ? ' ❤️' : ''}
+        </label>
+    `)}`;
+}
+
+// --- SYNC CONFLICTS ---
+
+/**
+ * Summarizes one version of an entry for the conflict review.
+ * @param version The version, or null for a deletion.
+ */
+function describeSyncedVersion(version: SyncedHappyHour | null): SafeHtml {
+    if (!version) return html`<p class="conflict-deleted">Deleted</p>`;
+    return html`
+        <p><strong>${version.name}</strong>, ${version.address}</p>
+        <p>${describeSchedule(version.schedule)}</p>
+        <p>${version.specials}</p>
+        ${version.deals?.length ? html`<p>${version.deals.length} deal item${version.deals.length === 1 ? '' : 's'}</p>` : ''}
+        <p class="form-hint">Changed ${version.updatedAt ? new Date(version.updatedAt).toLocaleString() : 'before sync was set up'}</p>
+    `;
+}
+
+/**
+ * Builds the conflict review: both versions of each conflicting entry, with buttons to pick one.
+ * @param conflicts The conflicts waiting for review.
+ */
+export function renderConflicts(conflicts: SyncConflict[]): SafeHtml {
+    if (conflicts.length === 0) {
+        return html`<div class="empty-state"><h3>No Conflicts</h3><p>Changes from all your devices have been merged.</p></div>`;
+    }
+    return html`${conflicts.map((conflict, i) => html`
+        <div class="conflict-row">
+            <h3>${(conflict.kept ?? conflict.discarded)!.name}</h3>
+            <div class="conflict-versions">
+                <div class="conflict-version">
+                    <h4>Kept (${conflict.discardedFrom === 'local' ? 'from another device' : 'from this device'})</h4>
+                    ${describeSyncedVersion(conflict.kept)}
+                </div>
+                <div class="conflict-version discarded">
+                    <h4>Replaced (${conflict.discardedFrom === 'local' ? 'from this device' : 'from another device'})</h4>
+                    ${describeSyncedVersion(conflict.discarded)}
+                </div>
+            </div>
+            <div class="archived-row-actions">
+                <button class="edit-btn" data-conflict-action="restore" data-index="${i}">Use replaced version</button>
+                <button class="edit-btn" data-conflict-action="dismiss" data-index="${i}">Keep current</button>
+            </div>
+        </div>
+    `)}`;
+}
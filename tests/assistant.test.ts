@@ -0,0 +1,168 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { createGeminiAssistantClient, localAssistantClient, readParsedQuery, readParsedSpecials } from '../assistant.ts';
+
+// Stands in for the Gemini SDK: replies with whatever the test puts in `reply`.
+const sdk = vi.hoisted(() => ({ reply: '{}', constructed: 0, requests: [] as unknown[] }));
+vi.mock('@google/genai', () => ({
+    Type: { OBJECT: 'OBJECT', ARRAY: 'ARRAY', STRING: 'STRING', BOOLEAN: 'BOOLEAN', NUMBER: 'NUMBER' },
+    GoogleGenAI: class {
+        constructor() { sdk.constructed++; }
+        models = {
+            generateContent: async (request: unknown) => {
+                sdk.requests.push(request);
+                return { text: sdk.reply };
+            },
+        };
+    },
+}));
+
+beforeEach(() => {
+    sdk.reply = '{}';
+    sdk.constructed = 0;
+    sdk.requests = [];
+});
+
+describe('readParsedSpecials', () => {
+    it('keeps well-formed schedule entries', () => {
+        const parsed = readParsedSpecials({
+            schedule: [{ days: ['Mon', 'Tue'], start: '16:00', end: '19:00' }, { days: ['Mon'], start: '22:00', end: '02:00' }],
+            hasFood: true,
+            specials: ' $3 drafts ',
+        });
+        expect(parsed).toEqual({
+            schedule: { Mon: [{ start: '16:00', end: '19:00' }, { start: '22:00', end: '02:00' }], Tue: [{ start: '16:00', end: '19:00' }] },
+            hasFood: true,
+            specials: '$3 drafts',
+        });
+    });
+
+    it('drops anything with the wrong shape', () => {
+        const parsed = readParsedSpecials({
+            schedule: [null, 'Mon 4-7', { days: 'Mon', start: '16:00', end: '19:00' }, { days: ['Funday', 3, 'Fri'], start: '4pm', end: '19:00' }, { days: ['Sat', 7], start: '15:00', end: '18:00' }],
+            hasFood: 'yes',
+            specials: ['beer'],
+        });
+        expect(parsed).toEqual({ schedule: { Sat: [{ start: '15:00', end: '18:00' }] }, hasFood: false, specials: '' });
+    });
+
+    it.each([null, 'text', 42, []])('reads %j as nothing found', reply => {
+        expect(readParsedSpecials(reply)).toEqual({ schedule: {}, hasFood: false, specials: '' });
+    });
+});
+
+describe('readParsedQuery', () => {
+    const tags = ['waterfront', 'live music'];
+    const places = ['Mallory Square'];
+
+    it('keeps known filters, tags, places and sort orders', () => {
+        const parsed = readParsedQuery({
+            search: ' oysters ',
+            activeNow: true,
+            hasFood: true,
+            walkable: false,
+            tags: ['#Waterfront', 'rooftop'],
+            sortOrder: 'cheapestDrink',
+            near: 'Mallory Square',
+            openAfter: '17:00',
+            maxPrice: 5,
+        }, tags, places);
+        expect(parsed).toEqual({
+            search: 'oysters',
+            filters: { activeNow: true, hasFood: true },
+            tags: ['waterfront'],
+            sortOrder: 'cheapestDrink',
+            near: 'Mallory Square',
+            openAfter: '17:00',
+            maxPrice: 5,
+        });
+    });
+
+    it('drops unknown or malformed values', () => {
+        const parsed = readParsedQuery({
+            search: 7,
+            activeNow: 'true',
+            isArchived: true,
+            tags: 'waterfront',
+            sortOrder: 'random',
+            near: 'Atlantis',
+            openAfter: '5pm',
+            maxPrice: -2,
+        }, tags, places);
+        expect(parsed).toEqual({ search: '', filters: {}, tags: [], sortOrder: undefined, near: undefined, openAfter: undefined, maxPrice: undefined });
+    });
+});
+
+describe('createGeminiAssistantClient', () => {
+    it('loads the SDK only once the assistant is used, and reuses it', async () => {
+        const client = createGeminiAssistantClient('key');
+        expect(sdk.constructed).toBe(0);
+        await client.parseSpecials('Daily 4-7pm');
+        await client.parseQuery('oysters', [], []);
+        expect(sdk.constructed).toBe(1);
+        expect(sdk.requests).toHaveLength(2);
+    });
+
+    it('narrows the reply before returning it', async () => {
+        sdk.reply = JSON.stringify({ schedule: [{ days: ['Fri'], start: '16:00', end: '18:00' }, { days: ['Sat'] }], hasFood: 1, specials: 'Half-price wings' });
+        expect(await createGeminiAssistantClient('key').parseSpecials('text')).toEqual({
+            schedule: { Fri: [{ start: '16:00', end: '18:00' }] },
+            hasFood: false,
+            specials: 'Half-price wings',
+        });
+    });
+
+    it('fails when the reply is not JSON, so the caller can fall back to manual entry', async () => {
+        sdk.reply = 'Sorry, I cannot help with that.';
+        await expect(createGeminiAssistantClient('key').parseQuery('oysters', [], [])).rejects.toThrow(SyntaxError);
+    });
+});
+
+describe('localAssistantClient', () => {
+    describe('parseSpecials', () => {
+        it('pairs each line\'s hours with its days', async () => {
+            const parsed = await localAssistantClient.parseSpecials('Mon-Fri 4-7pm: $3 drafts\nSat & Sun 11am to 2pm: bottomless mimosas');
+            expect(parsed.schedule).toEqual({
+                Mon: [{ start: '16:00', end: '19:00' }],
+                Tue: [{ start: '16:00', end: '19:00' }],
+                Wed: [{ start: '16:00', end: '19:00' }],
+                Thu: [{ start: '16:00', end: '19:00' }],
+                Fri: [{ start: '16:00', end: '19:00' }],
+                Sat: [{ start: '11:00', end: '14:00' }],
+                Sun: [{ start: '11:00', end: '14:00' }],
+            });
+            expect(parsed.specials).toBe('$3 drafts; bottomless mimosas');
+            expect(parsed.hasFood).toBe(false);
+        });
+
+        it('reads overnight and 24-hour ranges and applies "daily" to every day', async () => {
+            const parsed = await localAssistantClient.parseSpecials('Daily 22:00-02:00 late night $2 wells and wings');
+            expect(Object.keys(parsed.schedule)).toHaveLength(7);
+            expect(parsed.schedule.Sun).toEqual([{ start: '22:00', end: '02:00' }]);
+            expect(parsed.hasFood).toBe(true);
+        });
+
+        it('finds nothing in text without hours', async () => {
+            expect((await localAssistantClient.parseSpecials('Great vibes')).schedule).toEqual({});
+        });
+    });
+
+    describe('parseQuery', () => {
+        it('turns a query into filters, a place, a time and a price', async () => {
+            const parsed = await localAssistantClient.parseQuery('cheap oysters near Mallory Square after 5 under $6 waterfront', ['waterfront'], ['Mallory Square']);
+            expect(parsed).toEqual({
+                search: 'oysters',
+                filters: { hasFood: true },
+                tags: ['waterfront'],
+                sortOrder: 'cheapestDrink',
+                near: 'Mallory Square',
+                openAfter: '17:00',
+                maxPrice: 6,
+            });
+        });
+
+        it('reads the time filters', async () => {
+            expect((await localAssistantClient.parseQuery('open now', [], [])).filters).toEqual({ activeNow: true });
+            expect((await localAssistantClient.parseQuery('starting soon', [], [])).filters).toEqual({ activeWithin30Mins: true });
+        });
+    });
+});
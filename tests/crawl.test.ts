@@ -0,0 +1,136 @@
+import { describe, expect, it } from 'vitest';
+import { type CrawlOptions, getDefaultCrawlTimes, planCrawl, scheduleCrawlStop, scheduleItinerary } from '../crawl.ts';
+import { keyWestTimeToDate } from '../schedule.ts';
+import type { Coordinates, HappyHour, WeeklySchedule } from '../types.ts';
+
+// Mallory Square
+const START: Coordinates = { lat: 24.5594, lng: -81.8069 };
+// About 111 m per thousandth of a degree of latitude, so 0.0036 is a 5-minute walk
+const northOfStart = (degrees: number): Coordinates => ({ lat: START.lat + degrees, lng: START.lng });
+
+let nextId = 1;
+function makeHappyHour(name: string, schedule: WeeklySchedule, extra: Partial<HappyHour> = {}): HappyHour {
+    return {
+        id: nextId++,
+        name,
+        address: `${nextId} Duval St`,
+        schedule,
+        specials: '',
+        hasFood: false,
+        rating: 3,
+        isFavorite: false,
+        isArchived: false,
+        tags: [],
+        coordinates: START,
+        ...extra,
+    };
+}
+
+// Thursday, January 15 2026
+const thursdayAt = (time: string) => keyWestTimeToDate({ year: 2026, month: 1, day: 15 }, time);
+const crawl = (start: string, end: string, extra: Partial<CrawlOptions> = {}): CrawlOptions =>
+    ({ date: '2026-01-15', start, end, stayMinutes: 60, favoritesOnly: false, foodOnly: false, ...extra });
+
+describe('scheduleCrawlStop', () => {
+    const running = makeHappyHour('Running', { Thu: [{ start: '16:00', end: '19:00' }] }, { coordinates: northOfStart(0.0036) });
+
+    it('does not walk to the first stop', () => {
+        const stop = scheduleCrawlStop(running, null, thursdayAt('17:00'), 60);
+        expect(stop.walkMinutes).toBe(0);
+        expect(stop.arrive).toEqual(thursdayAt('17:00'));
+    });
+
+    it('walks from the previous stop, assuming a fixed walk when a location is unknown', () => {
+        expect(scheduleCrawlStop(running, START, thursdayAt('17:00'), 60)).toMatchObject({ walkMinutes: 5, arrive: thursdayAt('17:05') });
+        const unplaced = makeHappyHour('Unplaced', { Thu: [{ start: '16:00', end: '19:00' }] }, { coordinates: undefined });
+        expect(scheduleCrawlStop(unplaced, START, thursdayAt('17:00'), 60)).toMatchObject({ walkMinutes: 10, arrive: thursdayAt('17:10') });
+    });
+
+    it('stays within a running happy hour', () => {
+        const stop = scheduleCrawlStop(running, START, thursdayAt('17:00'), 60);
+        expect(stop).toMatchObject({ begin: thursdayAt('17:05'), leave: thursdayAt('18:05'), windowEnd: thursdayAt('19:00') });
+        expect(stop.warning).toBeUndefined();
+    });
+
+    it('waits up to half an hour for the happy hour to start', () => {
+        const stop = scheduleCrawlStop(running, null, thursdayAt('15:30'), 60);
+        expect(stop).toMatchObject({ arrive: thursdayAt('15:30'), begin: thursdayAt('16:00'), leave: thursdayAt('17:00') });
+        expect(scheduleCrawlStop(running, null, thursdayAt('15:29'), 60).windowEnd).toBeUndefined();
+    });
+
+    it('warns when the happy hour is over or ends during the stay', () => {
+        expect(scheduleCrawlStop(running, null, thursdayAt('19:30'), 60).warning).toBe('Happy hour closes at 19:00, before you arrive at 19:30.');
+        expect(scheduleCrawlStop(running, null, thursdayAt('18:30'), 60).warning).toBe('Happy hour ends at 19:00, before you leave at 19:30.');
+    });
+});
+
+describe('planCrawl', () => {
+    const early = makeHappyHour('Early', { Thu: [{ start: '16:00', end: '18:00' }] });
+    const middle = makeHappyHour('Middle', { Thu: [{ start: '17:00', end: '19:00' }] }, { coordinates: northOfStart(0.0036) });
+    const late = makeHappyHour('Late', { Thu: [{ start: '18:30', end: '20:30' }] }, { coordinates: northOfStart(0.0072) });
+    const tonight = makeHappyHour('Tonight', { Thu: [{ start: '21:00', end: '23:00' }] });
+    const list = [tonight, late, middle, early];
+    const allDay = [
+        makeHappyHour('Plain', { Thu: [{ start: '12:00', end: '23:00' }] }, { rating: 5 }),
+        makeHappyHour('Favorite', { Thu: [{ start: '12:00', end: '23:00' }] }, { rating: 4, isFavorite: true }),
+        makeHappyHour('Food', { Thu: [{ start: '12:00', end: '23:00' }] }, { rating: 3, hasFood: true }),
+        makeHappyHour('Favorite with food', { Thu: [{ start: '12:00', end: '23:00' }] }, { rating: 2, isFavorite: true, hasFood: true }),
+        makeHappyHour('Archived', { Thu: [{ start: '12:00', end: '23:00' }] }, { rating: 5, isArchived: true }),
+    ];
+    const names = (stops: { happyHourId: number }[]) => stops.map(stop => list.concat(allDay).find(hh => hh.id === stop.happyHourId)!.name);
+
+    it('chains the happy hours that can be reached in time, in order', () => {
+        const stops = planCrawl(list, crawl('16:00', '20:00'));
+        expect(names(stops)).toEqual(['Early', 'Middle', 'Late']);
+        expect(stops.map(stop => stop.stayMinutes)).toEqual([60, 60, 60]);
+    });
+
+    it('lands every stop inside its venue\'s happy hour, with the walks in between', () => {
+        const itinerary = { id: 1, name: 'Test crawl', ...crawl('16:00', '20:00'), stops: planCrawl(list, crawl('16:00', '20:00')) };
+        const scheduled = scheduleItinerary(itinerary, list);
+        expect(scheduled.map(stop => stop.walkMinutes)).toEqual([0, 5, 5]);
+        scheduled.forEach(stop => {
+            expect(stop.warning).toBeUndefined();
+            expect(stop.windowEnd).toBeDefined();
+            expect(stop.leave.getTime()).toBeLessThanOrEqual(stop.windowEnd!.getTime());
+        });
+        // Arrive at Late at 18:10 and wait for it to open at 18:30.
+        expect(scheduled[2]).toMatchObject({ arrive: thursdayAt('18:10'), begin: thursdayAt('18:30'), leave: thursdayAt('19:30') });
+    });
+
+    it('cuts a stay short when the happy hour or the crawl ends first', () => {
+        expect(planCrawl([early], crawl('17:30', '20:00'))).toEqual([{ happyHourId: early.id, stayMinutes: 30 }]);
+        expect(planCrawl([middle], crawl('17:00', '17:40'))).toEqual([{ happyHourId: middle.id, stayMinutes: 40 }]);
+    });
+
+    it('skips happy hours with too little time left, and stops when nothing else is running', () => {
+        expect(planCrawl([early], crawl('17:45', '20:00'))).toEqual([]);
+        expect(planCrawl([tonight], crawl('16:00', '20:00'))).toEqual([]);
+    });
+
+    it('picks from every venue that is not archived, best rated first', () => {
+        expect(names(planCrawl(allDay, crawl('17:00', '19:00', { stayMinutes: 30 })))).toEqual(['Plain', 'Favorite', 'Food', 'Favorite with food']);
+    });
+
+    it('keeps to favorites or to venues with food when asked', () => {
+        expect(names(planCrawl(allDay, crawl('17:00', '19:00', { stayMinutes: 30, favoritesOnly: true })))).toEqual(['Favorite', 'Favorite with food']);
+        expect(names(planCrawl(allDay, crawl('17:00', '19:00', { stayMinutes: 30, foodOnly: true })))).toEqual(['Food', 'Favorite with food']);
+        expect(names(planCrawl(allDay, crawl('17:00', '19:00', { stayMinutes: 30, favoritesOnly: true, foodOnly: true })))).toEqual(['Favorite with food']);
+    });
+});
+
+describe('getDefaultCrawlTimes', () => {
+    it('starts at the next quarter hour and runs four hours', () => {
+        expect(getDefaultCrawlTimes(thursdayAt('17:01'))).toEqual({ date: '2026-01-15', start: '17:15', end: '21:15' });
+        expect(getDefaultCrawlTimes(thursdayAt('17:44'))).toEqual({ date: '2026-01-15', start: '17:45', end: '21:45' });
+    });
+
+    it('keeps a time already on the quarter hour', () => {
+        expect(getDefaultCrawlTimes(thursdayAt('17:30'))).toEqual({ date: '2026-01-15', start: '17:30', end: '21:30' });
+    });
+
+    it('wraps the end past midnight, and rounds into the next day', () => {
+        expect(getDefaultCrawlTimes(thursdayAt('22:50'))).toEqual({ date: '2026-01-15', start: '23:00', end: '03:00' });
+        expect(getDefaultCrawlTimes(thursdayAt('23:55'))).toEqual({ date: '2026-01-16', start: '00:00', end: '04:00' });
+    });
+});
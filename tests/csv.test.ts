@@ -0,0 +1,116 @@
+import { describe, expect, it } from 'vitest';
+import { escapeCsvValue, happyHoursToCsv, parseCsv, parseCsvImport } from '../csv.ts';
+import type { HappyHour } from '../types.ts';
+
+function makeHappyHour(extra: Partial<HappyHour> = {}): HappyHour {
+    return {
+        id: 1,
+        name: 'Test Bar',
+        address: '1 Duval St',
+        schedule: { Thu: [{ start: '16:00', end: '19:00' }] },
+        specials: '$3 beers',
+        hasFood: false,
+        rating: 3,
+        isFavorite: false,
+        isArchived: false,
+        tags: [],
+        ...extra,
+    };
+}
+
+describe('parseCsv', () => {
+    it('splits rows and fields', () => {
+        expect(parseCsv('a,b,c\n1,2,3')).toEqual([['a', 'b', 'c'], ['1', '2', '3']]);
+    });
+
+    it('keeps empty fields', () => {
+        expect(parseCsv('a,,c\n1,,')).toEqual([['a', '', 'c'], ['1', '', '']]);
+    });
+
+    it('reads quoted fields with commas and doubled quotes', () => {
+        expect(parseCsv('"Sloppy Joe\'s, Duval","The ""Original"" bar"')).toEqual([["Sloppy Joe's, Duval", 'The "Original" bar']]);
+    });
+
+    it('keeps line breaks inside quoted fields', () => {
+        expect(parseCsv('name,specials\nBar,"Line 1\nLine 2\r\nLine 3"\nNext,x')).toEqual([
+            ['name', 'specials'],
+            ['Bar', 'Line 1\nLine 2\r\nLine 3'],
+            ['Next', 'x'],
+        ]);
+    });
+
+    it('accepts CRLF and CR line endings', () => {
+        expect(parseCsv('a,b\r\n1,2\r\n3,4\r5,6')).toEqual([['a', 'b'], ['1', '2'], ['3', '4'], ['5', '6']]);
+    });
+
+    it('ignores blank lines, including a trailing newline', () => {
+        expect(parseCsv('a,b\r\n\r\n1,2\r\n')).toEqual([['a', 'b'], ['1', '2']]);
+    });
+});
+
+describe('escapeCsvValue', () => {
+    it('quotes only values that need it', () => {
+        expect(escapeCsvValue('plain')).toBe('plain');
+        expect(escapeCsvValue('a,b')).toBe('"a,b"');
+        expect(escapeCsvValue('say "hi"')).toBe('"say ""hi"""');
+        expect(escapeCsvValue('two\nlines')).toBe('"two\nlines"');
+    });
+
+    it('round-trips through parseCsv', () => {
+        const values = ['plain', 'a,b', 'say "hi"', 'two\r\nlines', ''];
+        expect(parseCsv(`${values.map(escapeCsvValue).join(',')}\r\nx`)[0]).toEqual(values);
+    });
+});
+
+describe('happyHoursToCsv and parseCsvImport', () => {
+    it('round-trips every field', () => {
+        const hh = makeHappyHour({
+            name: 'Bar, "The" Grill',
+            specials: 'Two-for-one\nwell drinks',
+            schedule: { Mon: [{ start: '16:00', end: '18:00' }, { start: '22:00', end: '02:00' }], Fri: [{ start: '15:00', end: '19:00' }] },
+            hasFood: true,
+            rating: 4,
+            isFavorite: true,
+            tags: ['live music', 'rooftop'],
+            coordinates: { lat: 24.5594, lng: -81.8069 },
+            startDate: '2026-01-01',
+            endDate: '2026-04-30',
+            blackoutDates: ['2026-02-14'],
+            events: [{ date: '2026-03-17', start: '12:00', end: '20:00', label: "St. Patrick's Day" }],
+            deals: [{ category: 'beer', description: 'Draft Yuengling', regularPrice: 6, happyHourPrice: 3 }, { category: 'food', description: 'Wings', happyHourPrice: 5.5 }],
+        });
+        const [result] = parseCsvImport(happyHoursToCsv([hh]));
+        const { id, ...record } = hh;
+        expect(result.errors).toEqual([]);
+        expect(result.record).toEqual(record);
+    });
+
+    it('writes a header and one CRLF-separated line per entry', () => {
+        const csv = happyHoursToCsv([makeHappyHour(), makeHappyHour({ name: 'Second' })]);
+        const lines = csv.split('\r\n');
+        expect(lines).toHaveLength(3);
+        expect(lines[0].startsWith('name,address,Mon,Tue,Wed,Thu,Fri,Sat,Sun,specials')).toBe(true);
+    });
+
+    it('numbers rows like a spreadsheet and reports each invalid one', () => {
+        const csv = 'name,address,Thu,specials,hasFood,rating\r\nGood,1 Duval St,16:00-19:00,$3 beers,no,3\r\nBad,2 Duval St,16:00-19:00,$3 beers,no,9';
+        const results = parseCsvImport(csv);
+        expect(results.map(r => r.row)).toEqual([2, 3]);
+        expect(results[0].record?.name).toBe('Good');
+        expect(results[1].record).toBeUndefined();
+        expect(results[1].errors).toEqual(['Rating "9" is out of range (must be 1-5).']);
+    });
+
+    it('reads the legacy shared days and timeRanges columns', () => {
+        const csv = 'name,address,days,timeRanges,specials,hasFood,rating\nOld,1 Duval St,Mon;Tue,16:00-18:00;21:00-23:00,$3 beers,false,3';
+        const [result] = parseCsvImport(csv);
+        const ranges = [{ start: '16:00', end: '18:00' }, { start: '21:00', end: '23:00' }];
+        expect(result.record?.schedule).toEqual({ Mon: ranges, Tue: ranges });
+    });
+
+    it('reports missing required columns', () => {
+        expect(parseCsvImport('name,address\nBar,1 Duval St')).toEqual([
+            { row: 1, errors: ['Missing column(s): specials, hasFood, rating, Mon…Sun.'] },
+        ]);
+    });
+});
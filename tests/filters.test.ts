@@ -0,0 +1,153 @@
+import { describe, expect, it } from 'vitest';
+import { filterAndSortHappyHours, type FilterContext, type FilterCriteria, matchesFilters } from '../filters.ts';
+import { keyWestTimeToDate } from '../schedule.ts';
+import type { HappyHour, WeeklySchedule } from '../types.ts';
+
+let nextId = 1;
+function makeHappyHour(name: string, schedule: WeeklySchedule, extra: Partial<HappyHour> = {}): HappyHour {
+    return {
+        id: nextId++,
+        name,
+        address: `${nextId} Duval St`,
+        schedule,
+        specials: '',
+        hasFood: false,
+        rating: 3,
+        isFavorite: false,
+        isArchived: false,
+        tags: [],
+        ...extra,
+    };
+}
+
+const noFilters: FilterCriteria = {
+    isFavorite: false,
+    hasFood: false,
+    tags: [],
+    searchTerms: [],
+    activeNow: false,
+    activeWithin30Mins: false,
+    notVisitedLately: false,
+    maxDealPrice: null,
+    openAfterTime: null,
+    walkableMinutes: null,
+};
+
+// Thursday, January 15 2026
+const thursdayAt = (time: string) => keyWestTimeToDate({ year: 2026, month: 1, day: 15 }, time);
+
+function contextAt(now: Date, walkingMinutes: Record<number, number> = {}): FilterContext {
+    return {
+        now,
+        getWalkingMinutes: hh => walkingMinutes[hh.id] ?? null,
+        isNotVisitedLately: () => true,
+    };
+}
+
+describe('time filters', () => {
+    const active = makeHappyHour('Active', { Thu: [{ start: '16:00', end: '19:00' }] });
+    const soon = makeHappyHour('Soon', { Thu: [{ start: '17:30', end: '19:00' }] });
+    const edge = makeHappyHour('Edge', { Thu: [{ start: '17:30', end: '19:00' }] });
+    const later = makeHappyHour('Later', { Thu: [{ start: '18:00', end: '20:00' }] });
+    const afterMidnight = makeHappyHour('After midnight', { Fri: [{ start: '00:15', end: '02:00' }] });
+    const names = (list: HappyHour[], criteria: FilterCriteria, now: Date) =>
+        list.filter(hh => matchesFilters(hh, criteria, contextAt(now))).map(hh => hh.name);
+
+    it('keeps only running happy hours for "active now"', () => {
+        expect(names([active, soon, later], { ...noFilters, activeNow: true }, thursdayAt('17:10'))).toEqual(['Active']);
+    });
+
+    it('keeps running happy hours and those starting within 30 minutes', () => {
+        expect(names([active, soon, later], { ...noFilters, activeWithin30Mins: true }, thursdayAt('17:10'))).toEqual(['Active', 'Soon']);
+    });
+
+    it('includes a start exactly 30 minutes away', () => {
+        expect(names([edge, later], { ...noFilters, activeWithin30Mins: true }, thursdayAt('17:00'))).toEqual(['Edge']);
+    });
+
+    it('looks past midnight for the 30-minute window', () => {
+        expect(names([afterMidnight], { ...noFilters, activeWithin30Mins: true }, thursdayAt('23:50'))).toEqual(['After midnight']);
+    });
+
+    it('applies only the 30-minute window when both time filters are set', () => {
+        const both = { ...noFilters, activeNow: true, activeWithin30Mins: true };
+        expect(names([active, soon, later], both, thursdayAt('17:10'))).toEqual(['Active', 'Soon']);
+    });
+
+    it('keeps happy hours still running after a given time, including overnight ones', () => {
+        const overnight = makeHappyHour('Overnight', { Thu: [{ start: '22:00', end: '01:00' }] });
+        const criteria = { ...noFilters, openAfterTime: '19:30' };
+        expect(names([active, later, overnight], criteria, thursdayAt('12:00'))).toEqual(['Later', 'Overnight']);
+    });
+});
+
+describe('other filters', () => {
+    it('requires every search term somewhere in the entry, including deal items', () => {
+        const hh = makeHappyHour('Sloppy Joe', {}, { deals: [{ category: 'beer', description: 'Draft pints', happyHourPrice: 3 }] });
+        expect(matchesFilters(hh, { ...noFilters, searchTerms: ['sloppy', 'draft'] }, contextAt(thursdayAt('12:00')))).toBe(true);
+        expect(matchesFilters(hh, { ...noFilters, searchTerms: ['sloppy', 'wine'] }, contextAt(thursdayAt('12:00')))).toBe(false);
+    });
+
+    it('requires every selected tag', () => {
+        const hh = makeHappyHour('Tagged', {}, { tags: ['waterfront', 'live music'] });
+        expect(matchesFilters(hh, { ...noFilters, tags: ['waterfront'] }, contextAt(thursdayAt('12:00')))).toBe(true);
+        expect(matchesFilters(hh, { ...noFilters, tags: ['waterfront', 'rooftop'] }, contextAt(thursdayAt('12:00')))).toBe(false);
+    });
+
+    it('needs a deal at or under the price ceiling', () => {
+        const hh = makeHappyHour('Deals', {}, { deals: [{ category: 'wine', description: 'House wine', happyHourPrice: 5 }] });
+        expect(matchesFilters(hh, { ...noFilters, maxDealPrice: 5 }, contextAt(thursdayAt('12:00')))).toBe(true);
+        expect(matchesFilters(hh, { ...noFilters, maxDealPrice: 4 }, contextAt(thursdayAt('12:00')))).toBe(false);
+    });
+
+    it('drops venues with an unknown or too long walk when the walkable filter is on', () => {
+        const near = makeHappyHour('Near', {});
+        const far = makeHappyHour('Far', {});
+        const unknown = makeHappyHour('Unknown', {});
+        const context = contextAt(thursdayAt('12:00'), { [near.id]: 8, [far.id]: 25 });
+        const result = filterAndSortHappyHours([near, far, unknown], { ...noFilters, walkableMinutes: 10 }, 'alphabetic', context);
+        expect(result.map(hh => hh.name)).toEqual(['Near']);
+    });
+
+    it('always leaves out archived entries', () => {
+        const archived = makeHappyHour('Archived', {}, { isArchived: true });
+        expect(filterAndSortHappyHours([archived], noFilters, 'alphabetic', contextAt(thursdayAt('12:00')))).toEqual([]);
+    });
+});
+
+describe('sorting', () => {
+    it('puts favorites first, then applies the sort order', () => {
+        const list = [
+            makeHappyHour('Charlie', {}, { rating: 5 }),
+            makeHappyHour('Alpha', {}, { rating: 2 }),
+            makeHappyHour('Bravo', {}, { rating: 1, isFavorite: true }),
+        ];
+        const context = contextAt(thursdayAt('12:00'));
+        expect(filterAndSortHappyHours(list, noFilters, 'alphabetic', context).map(hh => hh.name)).toEqual(['Bravo', 'Alpha', 'Charlie']);
+        expect(filterAndSortHappyHours(list, noFilters, 'rating', context).map(hh => hh.name)).toEqual(['Bravo', 'Charlie', 'Alpha']);
+    });
+
+    it('sorts by walking distance with unknown distances last', () => {
+        const near = makeHappyHour('Near', {});
+        const far = makeHappyHour('Far', {});
+        const unknown = makeHappyHour('Unknown', {});
+        const context = contextAt(thursdayAt('12:00'), { [near.id]: 5, [far.id]: 20 });
+        expect(filterAndSortHappyHours([unknown, far, near], noFilters, 'distance', context).map(hh => hh.name)).toEqual(['Near', 'Far', 'Unknown']);
+    });
+
+    it('sorts by the cheapest drink among running happy hours only', () => {
+        const beer = { category: 'beer' as const, description: 'Draft', happyHourPrice: 4 };
+        const cheapButClosed = makeHappyHour('Closed', { Thu: [{ start: '20:00', end: '22:00' }] }, { deals: [{ ...beer, happyHourPrice: 1 }] });
+        const pricier = makeHappyHour('Pricier', { Thu: [{ start: '16:00', end: '19:00' }] }, { deals: [beer] });
+        const cheaper = makeHappyHour('Cheaper', { Thu: [{ start: '16:00', end: '19:00' }] }, { deals: [{ ...beer, happyHourPrice: 2 }] });
+        const result = filterAndSortHappyHours([cheapButClosed, pricier, cheaper], noFilters, 'cheapestDrink', contextAt(thursdayAt('17:00')));
+        expect(result.map(hh => hh.name)).toEqual(['Cheaper', 'Pricier', 'Closed']);
+    });
+
+    it('ranks the best option by time left on arrival and the walk there', () => {
+        const endingSoon = makeHappyHour('Ending soon', { Thu: [{ start: '16:00', end: '17:20' }] });
+        const plentyLeft = makeHappyHour('Plenty left', { Thu: [{ start: '16:00', end: '19:00' }] });
+        const context = contextAt(thursdayAt('17:00'), { [endingSoon.id]: 5, [plentyLeft.id]: 5 });
+        expect(filterAndSortHappyHours([endingSoon, plentyLeft], noFilters, 'best', context).map(hh => hh.name)).toEqual(['Plenty left', 'Ending soon']);
+    });
+});
@@ -0,0 +1,148 @@
+import { describe, expect, it } from 'vitest';
+import { escapeIcsText, foldIcsLine, happyHoursToIcs } from '../ics.ts';
+import { keyWestTimeToDate } from '../schedule.ts';
+import type { HappyHour, WeeklySchedule } from '../types.ts';
+
+function makeHappyHour(schedule: WeeklySchedule, extra: Partial<HappyHour> = {}): HappyHour {
+    return {
+        id: 1,
+        name: 'Test Bar',
+        address: '1 Duval St',
+        schedule,
+        specials: '$3 beers',
+        hasFood: false,
+        rating: 3,
+        isFavorite: false,
+        isArchived: false,
+        tags: [],
+        ...extra,
+    };
+}
+
+// Thursday, January 15 2026, at noon in Key West
+const NOW = keyWestTimeToDate({ year: 2026, month: 1, day: 15 }, '12:00');
+
+/** Exports the happy hours and returns the unfolded content lines. */
+function exportLines(data: HappyHour[], now = NOW): string[] {
+    const ics = happyHoursToIcs(data, now);
+    expect(ics).not.toBeNull();
+    return ics!.replace(/\r\n /g, '').split('\r\n').filter(Boolean);
+}
+
+/** Returns the lines of each VEVENT in the export. */
+function exportEvents(data: HappyHour[], now = NOW): string[][] {
+    const lines = exportLines(data, now);
+    const events: string[][] = [];
+    lines.forEach((line, i) => {
+        if (line === 'BEGIN:VEVENT') events.push(lines.slice(i + 1, lines.indexOf('END:VEVENT', i)));
+    });
+    return events;
+}
+
+describe('escapeIcsText', () => {
+    it('escapes backslashes, semicolons, commas and line breaks', () => {
+        expect(escapeIcsText('Beer, wine; well\\cocktails')).toBe(String.raw`Beer\, wine\; well\\cocktails`);
+        expect(escapeIcsText('Line 1\nLine 2\r\nLine 3\rLine 4')).toBe(String.raw`Line 1\nLine 2\nLine 3\nLine 4`);
+    });
+
+    it('is applied to the venue fields in the export', () => {
+        const lines = exportLines([makeHappyHour({ Thu: [{ start: '16:00', end: '19:00' }] }, { name: 'Bar; Grill', address: '1 Duval St, Key West' })]);
+        expect(lines).toContain(String.raw`SUMMARY:Bar\; Grill happy hour`);
+        expect(lines).toContain(String.raw`LOCATION:1 Duval St\, Key West`);
+    });
+});
+
+describe('foldIcsLine', () => {
+    const octets = (text: string) => new TextEncoder().encode(text).length;
+
+    it('leaves lines of up to 75 octets alone', () => {
+        const line = `DESCRIPTION:${'x'.repeat(63)}`;
+        expect(octets(line)).toBe(75);
+        expect(foldIcsLine(line)).toBe(line);
+    });
+
+    it('folds longer lines into physical lines of at most 75 octets', () => {
+        const line = `DESCRIPTION:${'x'.repeat(200)}`;
+        const physical = foldIcsLine(line).split('\r\n');
+        expect(physical.length).toBeGreaterThan(1);
+        physical.forEach((part, i) => {
+            expect(octets(part)).toBeLessThanOrEqual(75);
+            if (i > 0) expect(part.startsWith(' ')).toBe(true);
+        });
+        expect(physical.map((part, i) => i > 0 ? part.slice(1) : part).join('')).toBe(line);
+    });
+
+    it('counts octets, not characters, and never splits a multi-byte character', () => {
+        const line = `SUMMARY:${'é'.repeat(40)}${'🍹'.repeat(20)}`;
+        const physical = foldIcsLine(line).split('\r\n');
+        physical.forEach(part => {
+            expect(octets(part)).toBeLessThanOrEqual(75);
+            expect(part).not.toContain('�');
+            // A lone surrogate would mean an emoji was cut in half.
+            expect(part).not.toMatch(/[\uD800-\uDBFF](?![\uDC00-\uDFFF])|(?<![\uD800-\uDBFF])[\uDC00-\uDFFF]/);
+        });
+        expect(physical.map((part, i) => i > 0 ? part.slice(1) : part).join('')).toBe(line);
+    });
+});
+
+describe('happyHoursToIcs', () => {
+    it('describes the Key West time zone, with both the daylight and standard rules', () => {
+        const lines = exportLines([makeHappyHour({ Thu: [{ start: '16:00', end: '19:00' }] })]);
+        const timezone = lines.slice(lines.indexOf('BEGIN:VTIMEZONE'), lines.indexOf('END:VTIMEZONE') + 1);
+        expect(timezone).toContain('TZID:America/New_York');
+        expect(timezone.join('\n')).toContain('BEGIN:DAYLIGHT\nTZOFFSETFROM:-0500\nTZOFFSETTO:-0400');
+        expect(timezone.join('\n')).toContain('BEGIN:STANDARD\nTZOFFSETFROM:-0400\nTZOFFSETTO:-0500');
+    });
+
+    it('writes weekly events in Key West wall-clock time, so they keep their time across DST', () => {
+        const [event] = exportEvents([makeHappyHour({ Mon: [{ start: '16:00', end: '19:00' }], Fri: [{ start: '16:00', end: '19:00' }] })]);
+        expect(event).toContain('DTSTART;TZID=America/New_York:20260116T160000');
+        expect(event).toContain('DTEND;TZID=America/New_York:20260116T190000');
+        expect(event).toContain('RRULE:FREQ=WEEKLY;BYDAY=MO,FR');
+    });
+
+    it('ends overnight ranges on the following day', () => {
+        const [event] = exportEvents([makeHappyHour({ Fri: [{ start: '22:00', end: '02:00' }] })]);
+        expect(event).toContain('DTSTART;TZID=America/New_York:20260116T220000');
+        expect(event).toContain('DTEND;TZID=America/New_York:20260117T020000');
+    });
+
+    it('ends the recurrence at the last start of the season, in UTC for either side of DST', () => {
+        const summer = makeHappyHour({ Thu: [{ start: '16:00', end: '19:00' }] }, { endDate: '2026-07-30' });
+        const winter = makeHappyHour({ Thu: [{ start: '16:00', end: '19:00' }] }, { endDate: '2026-12-31' });
+        expect(exportEvents([summer])[0]).toContain('RRULE:FREQ=WEEKLY;BYDAY=TH;UNTIL=20260730T200000Z');
+        expect(exportEvents([winter])[0]).toContain('RRULE:FREQ=WEEKLY;BYDAY=TH;UNTIL=20261231T210000Z');
+    });
+
+    it('starts the recurrence at the season start when that is later than today', () => {
+        const [event] = exportEvents([makeHappyHour({ Thu: [{ start: '16:00', end: '19:00' }] }, { startDate: '2026-03-01' })]);
+        // March 5 is the first Thursday on or after March 1.
+        expect(event).toContain('DTSTART;TZID=America/New_York:20260305T160000');
+    });
+
+    it('excludes blackout dates that fall on the recurring days', () => {
+        const hh = makeHappyHour({ Thu: [{ start: '16:00', end: '19:00' }] }, { blackoutDates: ['2026-01-22', '2026-01-23', '2026-01-01', '2026-07-02'] });
+        const [event] = exportEvents([hh]);
+        // January 23 is a Friday and January 1 is before the first occurrence.
+        expect(event).toContain('EXDATE;TZID=America/New_York:20260122T160000,20260702T160000');
+    });
+
+    it('adds one-off events, leaving out those that are already over', () => {
+        const hh = makeHappyHour({}, {
+            events: [
+                { date: '2026-01-10', start: '16:00', end: '19:00', label: 'Last week' },
+                { date: '2026-01-14', start: '22:00', end: '01:00', label: 'Last night' },
+                { date: '2026-01-14', start: '23:00', end: '13:00', label: 'Still going' },
+                { date: '2026-01-20', start: '18:00', end: '20:00', label: 'Next week' },
+            ],
+        });
+        const summaries = exportEvents([hh]).map(event => event.find(line => line.startsWith('SUMMARY:')));
+        expect(summaries).toEqual(['SUMMARY:Test Bar: Still going', 'SUMMARY:Test Bar: Next week']);
+    });
+
+    it('returns null when nothing is left to export', () => {
+        const past = makeHappyHour({}, { events: [{ date: '2026-01-10', start: '16:00', end: '19:00' }] });
+        const ended = makeHappyHour({ Thu: [{ start: '16:00', end: '19:00' }] }, { endDate: '2026-01-01' });
+        expect(happyHoursToIcs([past, ended], NOW)).toBeNull();
+    });
+});
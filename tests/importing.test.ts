@@ -0,0 +1,99 @@
+import { describe, expect, it } from 'vitest';
+import { mergeImport, parseJsonImport, skipDuplicateRows } from '../importing.ts';
+import type { HappyHour } from '../types.ts';
+import type { ImportedHappyHour, ImportRowResult } from '../validation.ts';
+
+function makeRecord(name: string, extra: Partial<ImportedHappyHour> = {}): ImportedHappyHour {
+    return {
+        name,
+        address: `${name} St`,
+        schedule: { Thu: [{ start: '16:00', end: '19:00' }] },
+        specials: '$3 beers',
+        hasFood: false,
+        rating: 3,
+        isFavorite: false,
+        isArchived: false,
+        tags: [],
+        ...extra,
+    };
+}
+
+const existing: HappyHour[] = [
+    { ...makeRecord('Alpha'), id: 1 },
+    { ...makeRecord('Bravo'), id: 2 },
+    { ...makeRecord('Charlie'), id: 3 },
+];
+
+const row = (record: ImportedHappyHour, id?: number): ImportRowResult => ({ row: 1, id, record, errors: [] });
+
+/** Returns an ID factory counting up from 100. */
+function idsFrom100() {
+    let next = 100;
+    return () => next++;
+}
+
+describe('parseJsonImport', () => {
+    it('reads a bare array or an export envelope', () => {
+        const records = [makeRecord('Alpha'), makeRecord('Bravo')];
+        expect(parseJsonImport(JSON.stringify(records)).map(r => r.record?.name)).toEqual(['Alpha', 'Bravo']);
+        expect(parseJsonImport(JSON.stringify({ exportedAt: '', happyHours: records })).map(r => r.row)).toEqual([1, 2]);
+    });
+
+    it('keeps the IDs records were exported with', () => {
+        expect(parseJsonImport(JSON.stringify([{ ...makeRecord('Alpha'), id: 7 }]))[0].id).toBe(7);
+    });
+
+    it('reports a file that is not JSON or holds no list', () => {
+        expect(parseJsonImport('{ nope')).toEqual([{ row: 0, errors: ['The file is not valid JSON.'] }]);
+        expect(parseJsonImport('{"happyHours": 3}')).toEqual([{ row: 0, errors: ['No list of happy hours found in the file.'] }]);
+    });
+});
+
+describe('skipDuplicateRows', () => {
+    it('skips a later row for the same name and address, ignoring case and spaces', () => {
+        const results = [row(makeRecord('Alpha')), { ...row(makeRecord(' alpha ', { address: 'ALPHA ST' })), row: 2 }, { ...row(makeRecord('Bravo')), row: 3 }];
+        skipDuplicateRows(results);
+        expect(results.map(r => r.record?.name)).toEqual(['Alpha', undefined, 'Bravo']);
+        expect(results[1].errors).toEqual(['Same name and address as row 1, so it was skipped.']);
+    });
+});
+
+describe('mergeImport', () => {
+    it('adds new venues and replaces matched ones whole, keeping their IDs, in merge mode', () => {
+        const updated = makeRecord('Bravo', { rating: 5, hasFood: true });
+        const { merged, added, updated: updatedCount } = mergeImport(existing, [row(updated), row(makeRecord('Delta'))], 'merge', idsFrom100());
+        expect(merged).toEqual([existing[0], { ...updated, id: 2 }, existing[2], { ...makeRecord('Delta'), id: 100 }]);
+        expect({ added, updated: updatedCount }).toEqual({ added: 1, updated: 1 });
+    });
+
+    it('matches by name and address, ignoring the exported ID, in merge mode', () => {
+        const { merged } = mergeImport(existing, [row(makeRecord('Delta'), 1)], 'merge', idsFrom100());
+        expect(merged.map(hh => [hh.id, hh.name])).toEqual([[1, 'Alpha'], [2, 'Bravo'], [3, 'Charlie'], [100, 'Delta']]);
+    });
+
+    it('keeps only the imported venues in replace mode, reusing the IDs of those it matches', () => {
+        const { merged, added, updated } = mergeImport(existing, [row(makeRecord('Charlie')), row(makeRecord('Echo'))], 'replace', idsFrom100());
+        expect(merged.map(hh => [hh.id, hh.name])).toEqual([[3, 'Charlie'], [100, 'Echo']]);
+        expect({ added, updated }).toEqual({ added: 1, updated: 1 });
+    });
+
+    it('matches by exported ID before name and address in replace mode', () => {
+        // Alpha was renamed, and a new venue took its old name.
+        const renamed = row(makeRecord('Alpha Bar', { address: 'Alpha St' }), 1);
+        const newcomer = row(makeRecord('Alpha'));
+        const { merged } = mergeImport(existing, [renamed, newcomer], 'replace', idsFrom100());
+        expect(merged.map(hh => [hh.id, hh.name])).toEqual([[1, 'Alpha Bar'], [100, 'Alpha']]);
+    });
+
+    it('matches each existing entry at most once', () => {
+        const { merged, added } = mergeImport(existing, [row(makeRecord('Alpha'), 1), row(makeRecord('Alpha'))], 'replace', idsFrom100());
+        expect(merged.map(hh => hh.id)).toEqual([1, 100]);
+        expect(added).toBe(1);
+    });
+
+    it('leaves the list it was given unchanged', () => {
+        const before = structuredClone(existing);
+        mergeImport(existing, [row(makeRecord('Alpha', { rating: 1 }))], 'merge', idsFrom100());
+        expect(existing).toEqual(before);
+    });
+});
@@ -0,0 +1,132 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { filterAndSortHappyHours, type FilterCriteria } from '../filters.ts';
+import {
+    browserLocationProvider,
+    createFixedLocationProvider,
+    getDistanceMeters,
+    locateUser,
+    type UserLocation,
+} from '../location.ts';
+import { keyWestTimeToDate } from '../schedule.ts';
+import type { Coordinates, HappyHour, WeeklySchedule } from '../types.ts';
+
+// Mallory Square
+const START: Coordinates = { lat: 24.5594, lng: -81.8069 };
+// About 111 m per thousandth of a degree of latitude, so these are roughly 5, 10 and 15 minutes' walk north
+const northOfStart = (degrees: number): Coordinates => ({ lat: START.lat + degrees, lng: START.lng });
+
+let nextId = 1;
+function makeHappyHour(name: string, coordinates: Coordinates | undefined, schedule: WeeklySchedule = {}, extra: Partial<HappyHour> = {}): HappyHour {
+    return {
+        id: nextId++,
+        name,
+        address: `${nextId} Duval St`,
+        schedule,
+        specials: '',
+        hasFood: false,
+        rating: 3,
+        isFavorite: false,
+        isArchived: false,
+        tags: [],
+        coordinates,
+        ...extra,
+    };
+}
+
+const noFilters: FilterCriteria = {
+    isFavorite: false,
+    hasFood: false,
+    tags: [],
+    searchTerms: [],
+    activeNow: false,
+    activeWithin30Mins: false,
+    notVisitedLately: false,
+    maxDealPrice: null,
+    openAfterTime: null,
+    walkableMinutes: null,
+};
+
+// Thursday, January 15 2026, at 17:00 in Key West
+const NOW = keyWestTimeToDate({ year: 2026, month: 1, day: 15 }, '17:00');
+
+const near = makeHappyHour('Near', northOfStart(0.0036));
+const middle = makeHappyHour('Middle', northOfStart(0.0072));
+const far = makeHappyHour('Far', northOfStart(0.0108));
+const unknown = makeHappyHour('Unknown', undefined);
+
+/** Filters and sorts the venues the way the app does, measuring walks from the user's location. */
+function show(list: HappyHour[], user: UserLocation, criteria: FilterCriteria, sortOrder: 'distance' | 'best'): string[] {
+    return filterAndSortHappyHours(list, criteria, sortOrder, { now: NOW, getWalkingMinutes: user.getWalkingMinutes, isNotVisitedLately: () => true })
+        .map(hh => hh.name);
+}
+
+describe('getDistanceMeters', () => {
+    it('measures great-circle distances', () => {
+        expect(getDistanceMeters(START, START)).toBe(0);
+        expect(getDistanceMeters({ lat: 0, lng: 0 }, { lat: 1, lng: 0 })).toBeCloseTo(111195, 0);
+        expect(getDistanceMeters(START, northOfStart(0.0036))).toBeCloseTo(400, 0);
+    });
+});
+
+describe('locateUser', () => {
+    it('measures walks from where a fixed provider puts the user', async () => {
+        const user = await locateUser(createFixedLocationProvider(START));
+        expect(user.coords).toEqual(START);
+        expect([near, middle, far, unknown].map(user.getWalkingMinutes)).toEqual([5, 10, 15, null]);
+        expect(user.describeDistance(near)).toBe('0.2 mi · 5 min walk');
+        expect(user.describeDistance(unknown)).toBeNull();
+    });
+
+    it('measures from wherever the provider says, not from a fixed point', async () => {
+        const user = await locateUser(createFixedLocationProvider(northOfStart(0.0108)));
+        expect([near, middle, far].map(user.getWalkingMinutes)).toEqual([10, 5, 0]);
+    });
+
+    it('sorts by walking distance, with venues of unknown location last', async () => {
+        const user = await locateUser(createFixedLocationProvider(START));
+        expect(show([unknown, far, near, middle], user, noFilters, 'distance')).toEqual(['Near', 'Middle', 'Far', 'Unknown']);
+    });
+
+    it('keeps only venues within the walkable cutoff, inclusive', async () => {
+        const user = await locateUser(createFixedLocationProvider(START));
+        const list = [near, middle, far, unknown];
+        expect(show(list, user, { ...noFilters, walkableMinutes: 10 }, 'distance')).toEqual(['Near', 'Middle']);
+        expect(show(list, user, { ...noFilters, walkableMinutes: 4 }, 'distance')).toEqual([]);
+    });
+
+    it('ranks the best option now by rating, time left on arrival and the walk there', async () => {
+        const user = await locateUser(createFixedLocationProvider(START));
+        const until19 = { Thu: [{ start: '16:00', end: '19:00' }] };
+        const list = [
+            makeHappyHour('Nearby, ending soon', northOfStart(0.0036), { Thu: [{ start: '16:00', end: '17:20' }] }),
+            makeHappyHour('Nearby, plenty of time', northOfStart(0.0036), until19),
+            makeHappyHour('Far, but top rated', northOfStart(0.0108), until19, { rating: 5 }),
+            makeHappyHour('Nearby, tonight', northOfStart(0.0036), { Thu: [{ start: '21:00', end: '23:00' }] }),
+        ];
+        expect(show(list, user, noFilters, 'best')).toEqual(['Far, but top rated', 'Nearby, plenty of time', 'Nearby, ending soon', 'Nearby, tonight']);
+    });
+});
+
+describe('browserLocationProvider', () => {
+    afterEach(() => {
+        vi.unstubAllGlobals();
+    });
+
+    it('reads the position from the device', async () => {
+        vi.stubGlobal('navigator', {
+            geolocation: { getCurrentPosition: (resolve: PositionCallback) => resolve({ coords: { latitude: START.lat, longitude: START.lng } } as GeolocationPosition) },
+        });
+        await expect(browserLocationProvider.getCurrentPosition()).resolves.toEqual(START);
+    });
+
+    it('explains why the position is unavailable', async () => {
+        vi.stubGlobal('navigator', {
+            geolocation: {
+                getCurrentPosition: (_: PositionCallback, reject: PositionErrorCallback) => reject({ code: 1, PERMISSION_DENIED: 1 } as GeolocationPositionError),
+            },
+        });
+        await expect(browserLocationProvider.getCurrentPosition()).rejects.toThrow('Location permission was denied.');
+        vi.stubGlobal('navigator', {});
+        await expect(browserLocationProvider.getCurrentPosition()).rejects.toThrow("Location isn't available on this device.");
+    });
+});
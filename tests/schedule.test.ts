@@ -0,0 +1,177 @@
+import { describe, expect, it } from 'vitest';
+import {
+    getHappyHourStatus,
+    getKeyWestParts,
+    getOccurrencesBetween,
+    keyWestTimeToDate,
+} from '../schedule.ts';
+import type { HappyHour, WeeklySchedule } from '../types.ts';
+
+function makeHappyHour(schedule: WeeklySchedule, extra: Partial<HappyHour> = {}): HappyHour {
+    return {
+        id: 1,
+        name: 'Test Bar',
+        address: '1 Duval St',
+        schedule,
+        specials: '',
+        hasFood: false,
+        rating: 3,
+        isFavorite: false,
+        isArchived: false,
+        tags: [],
+        ...extra,
+    };
+}
+
+describe('Key West time helpers', () => {
+    it('converts Key West wall-clock times to instants on either side of DST', () => {
+        expect(keyWestTimeToDate({ year: 2026, month: 1, day: 15 }, '17:00').toISOString()).toBe('2026-01-15T22:00:00.000Z');
+        expect(keyWestTimeToDate({ year: 2026, month: 7, day: 15 }, '17:00').toISOString()).toBe('2026-07-15T21:00:00.000Z');
+    });
+
+    it('reads the Key West calendar day, not the UTC one', () => {
+        // 02:00 UTC on the 16th is still 21:00 on the 15th in Key West.
+        const parts = getKeyWestParts(new Date('2026-01-16T02:00:00Z'));
+        expect(parts).toMatchObject({ year: 2026, month: 1, day: 15, hours: 21, minutes: 0 });
+    });
+});
+
+describe('getHappyHourStatus', () => {
+    // Thursday, January 15 2026
+    const thursdayAt = (time: string) => keyWestTimeToDate({ year: 2026, month: 1, day: 15 }, time);
+
+    it('is active during a range and counts down to its end', () => {
+        const hh = makeHappyHour({ Thu: [{ start: '16:00', end: '19:00' }] });
+        expect(getHappyHourStatus(hh, thursdayAt('17:30'))).toEqual({ status: 'active', minutesUntilEnd: 90 });
+    });
+
+    it('treats the start as inclusive and the end as exclusive', () => {
+        const hh = makeHappyHour({ Thu: [{ start: '16:00', end: '19:00' }] });
+        expect(getHappyHourStatus(hh, thursdayAt('16:00')).status).toBe('active');
+        expect(getHappyHourStatus(hh, thursdayAt('19:00')).status).toBe('ended');
+    });
+
+    it('is upcoming before a range starts later today', () => {
+        const hh = makeHappyHour({ Thu: [{ start: '16:00', end: '19:00' }] });
+        expect(getHappyHourStatus(hh, thursdayAt('15:45'))).toEqual({ status: 'upcoming', minutesUntilStart: 15 });
+    });
+
+    it('picks the soonest of several upcoming ranges', () => {
+        const hh = makeHappyHour({ Thu: [{ start: '22:00', end: '23:00' }, { start: '16:00', end: '18:00' }] });
+        expect(getHappyHourStatus(hh, thursdayAt('12:00'))).toEqual({ status: 'upcoming', minutesUntilStart: 240 });
+    });
+
+    it('looks ahead to the next day with hours once today is over', () => {
+        const hh = makeHappyHour({ Thu: [{ start: '16:00', end: '19:00' }], Sat: [{ start: '15:00', end: '18:00' }] });
+        const status = getHappyHourStatus(hh, thursdayAt('20:00'));
+        expect(status.status).toBe('ended');
+        expect(status.nextStart?.toISOString()).toBe('2026-01-17T20:00:00.000Z');
+        expect(status.minutesUntilStart).toBe(43 * 60);
+    });
+
+    it('has no next start without any hours in the coming week', () => {
+        expect(getHappyHourStatus(makeHappyHour({}), thursdayAt('12:00'))).toEqual({ status: 'ended' });
+    });
+
+    describe('overnight ranges', () => {
+        const hh = makeHappyHour({ Wed: [{ start: '22:00', end: '02:00' }] });
+
+        it('is active before midnight on the starting day', () => {
+            const now = keyWestTimeToDate({ year: 2026, month: 1, day: 14 }, '23:00');
+            expect(getHappyHourStatus(hh, now)).toEqual({ status: 'active', minutesUntilEnd: 180 });
+        });
+
+        it('is still active after midnight, on a day with no hours of its own', () => {
+            expect(getHappyHourStatus(hh, thursdayAt('01:00'))).toEqual({ status: 'active', minutesUntilEnd: 60 });
+        });
+
+        it('is active exactly at midnight', () => {
+            expect(getHappyHourStatus(hh, thursdayAt('00:00'))).toEqual({ status: 'active', minutesUntilEnd: 120 });
+        });
+
+        it('has ended once the spill-over is over', () => {
+            expect(getHappyHourStatus(hh, thursdayAt('02:00')).status).toBe('ended');
+        });
+
+        it('treats a range ending at midnight as running to the end of the day', () => {
+            const late = makeHappyHour({ Thu: [{ start: '21:00', end: '00:00' }] });
+            expect(getHappyHourStatus(late, thursdayAt('23:59'))).toEqual({ status: 'active', minutesUntilEnd: 1 });
+            expect(getHappyHourStatus(late, keyWestTimeToDate({ year: 2026, month: 1, day: 16 }, '00:00')).status).toBe('ended');
+        });
+    });
+
+    describe('across DST changes', () => {
+        // Key West springs forward at 02:00 on Sunday, March 8 2026 and falls back at 02:00 on Sunday, November 1 2026.
+        const hh = makeHappyHour({ Sat: [{ start: '22:00', end: '04:00' }] });
+
+        it('loses an hour from an overnight range on the spring-forward night', () => {
+            const start = keyWestTimeToDate({ year: 2026, month: 3, day: 7 }, '22:00');
+            expect(getHappyHourStatus(hh, start)).toEqual({ status: 'active', minutesUntilEnd: 5 * 60 });
+            expect(getHappyHourStatus(hh, new Date('2026-03-08T07:30:00Z'))).toEqual({ status: 'active', minutesUntilEnd: 30 });
+            expect(getHappyHourStatus(hh, new Date('2026-03-08T08:00:00Z')).status).toBe('ended');
+        });
+
+        it('gains an hour on an overnight range on the fall-back night', () => {
+            const start = keyWestTimeToDate({ year: 2026, month: 10, day: 31 }, '22:00');
+            expect(getHappyHourStatus(hh, start)).toEqual({ status: 'active', minutesUntilEnd: 7 * 60 });
+            // 01:30 happens twice; both are inside the range.
+            expect(getHappyHourStatus(hh, new Date('2026-11-01T05:30:00Z')).status).toBe('active');
+            expect(getHappyHourStatus(hh, new Date('2026-11-01T06:30:00Z')).status).toBe('active');
+            expect(getHappyHourStatus(hh, new Date('2026-11-01T09:00:00Z')).status).toBe('ended');
+        });
+
+        it('counts down to a daytime start in wall-clock terms across the change', () => {
+            const sunday = makeHappyHour({ Sun: [{ start: '16:00', end: '18:00' }] });
+            const status = getHappyHourStatus(sunday, keyWestTimeToDate({ year: 2026, month: 3, day: 8 }, '01:00'));
+            // 01:00 EST to 16:00 EDT is 14 hours, not 15.
+            expect(status).toEqual({ status: 'upcoming', minutesUntilStart: 14 * 60 });
+        });
+    });
+
+    it('skips blackout dates and runs one-off events', () => {
+        const hh = makeHappyHour({ Thu: [{ start: '16:00', end: '19:00' }] }, {
+            blackoutDates: ['2026-01-15'],
+            events: [{ date: '2026-01-15', start: '20:00', end: '22:00', label: 'Trivia' }],
+        });
+        expect(getHappyHourStatus(hh, thursdayAt('17:00'))).toEqual({ status: 'upcoming', minutesUntilStart: 180 });
+        expect(getHappyHourStatus(hh, thursdayAt('21:00'))).toEqual({ status: 'active', minutesUntilEnd: 60 });
+    });
+
+    it('does not run outside its season', () => {
+        const hh = makeHappyHour({ Thu: [{ start: '16:00', end: '19:00' }] }, { startDate: '2026-02-01' });
+        expect(getHappyHourStatus(hh, thursdayAt('17:00')).status).toBe('ended');
+    });
+});
+
+describe('getOccurrencesBetween', () => {
+    it('includes an overnight run that started before the window', () => {
+        const hh = makeHappyHour({ Wed: [{ start: '22:00', end: '02:00' }] });
+        const from = keyWestTimeToDate({ year: 2026, month: 1, day: 15 }, '00:00');
+        const to = keyWestTimeToDate({ year: 2026, month: 1, day: 16 }, '00:00');
+        const occurrences = getOccurrencesBetween(hh, from, to);
+        expect(occurrences.map(o => [o.start.toISOString(), o.end.toISOString()])).toEqual([
+            ['2026-01-15T03:00:00.000Z', '2026-01-15T07:00:00.000Z'],
+        ]);
+    });
+
+    it('lists every run in a week in start order', () => {
+        const hh = makeHappyHour({
+            Mon: [{ start: '16:00', end: '18:00' }],
+            Fri: [{ start: '21:00', end: '23:00' }, { start: '15:00', end: '17:00' }],
+        });
+        const from = keyWestTimeToDate({ year: 2026, month: 1, day: 12 }, '00:00');
+        const to = keyWestTimeToDate({ year: 2026, month: 1, day: 19 }, '00:00');
+        expect(getOccurrencesBetween(hh, from, to).map(o => o.start.toISOString())).toEqual([
+            '2026-01-12T21:00:00.000Z',
+            '2026-01-16T20:00:00.000Z',
+            '2026-01-17T02:00:00.000Z',
+        ]);
+    });
+
+    it('leaves out runs that only touch the window edges', () => {
+        const hh = makeHappyHour({ Thu: [{ start: '16:00', end: '19:00' }] });
+        const day = { year: 2026, month: 1, day: 15 };
+        expect(getOccurrencesBetween(hh, keyWestTimeToDate(day, '19:00'), keyWestTimeToDate(day, '23:00'))).toEqual([]);
+        expect(getOccurrencesBetween(hh, keyWestTimeToDate(day, '12:00'), keyWestTimeToDate(day, '16:00'))).toEqual([]);
+    });
+});
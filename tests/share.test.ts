@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import { decodeSharePayload, encodeSharePayload, getShareableVenue, parseSharedCrawl, parseSharedVenue } from '../share.ts';
+import type { HappyHour } from '../types.ts';
+
+const venue: HappyHour = {
+    id: 12,
+    name: 'Test Bar',
+    address: '1 Duval St',
+    schedule: { Mon: [{ start: '16:00', end: '19:00' }] },
+    specials: '$3 drafts',
+    hasFood: true,
+    rating: 4,
+    isFavorite: true,
+    isArchived: true,
+    tags: ['waterfront'],
+    deals: [{ category: 'beer', description: 'Draft', regularPrice: 6, happyHourPrice: 3 }],
+};
+
+describe('share payloads', () => {
+    it('round-trips a value through a URL-safe string', async () => {
+        const value = { name: 'Crawl on Duval ✨', stops: [1, 2, 3], note: '+/=' };
+        const encoded = await encodeSharePayload(value);
+        expect(encoded).toMatch(/^[A-Za-z0-9_-]+$/);
+        expect(await decodeSharePayload(encoded)).toEqual(value);
+    });
+
+    it('throws on a damaged link', async () => {
+        await expect(decodeSharePayload('not-a-share-link')).rejects.toThrow();
+    });
+});
+
+describe('parseSharedVenue', () => {
+    it('leaves out the ID and personal fields when sharing', () => {
+        expect(getShareableVenue(venue)).not.toHaveProperty('id');
+        expect(getShareableVenue(venue)).not.toHaveProperty('isFavorite');
+    });
+
+    it('reads back a shared venue, ignoring the sender\'s personal fields', async () => {
+        const decoded = await decodeSharePayload(await encodeSharePayload(getShareableVenue(venue)));
+        const { id, ...rest } = venue;
+        expect(parseSharedVenue(decoded)).toEqual({ ...rest, isFavorite: false, isArchived: false, coordinates: undefined });
+        expect(parseSharedVenue({ ...getShareableVenue(venue), isFavorite: 'maybe' }).isFavorite).toBe(false);
+    });
+
+    it('rejects anything that is not a valid venue', () => {
+        expect(() => parseSharedVenue(null)).toThrow('Not a happy hour record.');
+        expect(() => parseSharedVenue('Test Bar')).toThrow('Not a happy hour record.');
+        expect(() => parseSharedVenue({ ...getShareableVenue(venue), rating: 11 })).toThrow('out of range');
+        expect(() => parseSharedVenue({ ...getShareableVenue(venue), schedule: { Mon: [{ start: '<b>', end: '19:00' }] } })).toThrow();
+    });
+});
+
+describe('parseSharedCrawl', () => {
+    const crawl = { name: ' Friday ', date: '2026-10-23', start: '17:00', end: '01:00', stops: [{ venue: getShareableVenue(venue), stayMinutes: 45 }] };
+
+    it('reads back a shared crawl with its venues', async () => {
+        const parsed = parseSharedCrawl(await decodeSharePayload(await encodeSharePayload(crawl)));
+        expect(parsed).toMatchObject({ name: 'Friday', date: '2026-10-23', start: '17:00', end: '01:00' });
+        expect(parsed.stops).toHaveLength(1);
+        expect(parsed.stops[0]).toMatchObject({ venue: { name: 'Test Bar', isFavorite: false }, stayMinutes: 45 });
+    });
+
+    it('names an unnamed crawl after its date', () => {
+        expect(parseSharedCrawl({ ...crawl, name: 3 }).name).toMatch(/^Crawl on /);
+    });
+
+    it('rejects a crawl without a valid date, times or stops', () => {
+        [null, [], { ...crawl, date: 'Friday' }, { ...crawl, start: '5pm' }, { ...crawl, end: undefined }, { ...crawl, stops: {} }, { ...crawl, stops: [] }].forEach(raw => {
+            expect(() => parseSharedCrawl(raw)).toThrow('Not a bar crawl.');
+        });
+    });
+
+    it('rejects a stop without a valid venue or length of stay', () => {
+        expect(() => parseSharedCrawl({ ...crawl, stops: [{ stayMinutes: 45 }] })).toThrow('Not a happy hour record.');
+        expect(() => parseSharedCrawl({ ...crawl, stops: [{ venue: { ...crawl.stops[0].venue, rating: 0 }, stayMinutes: 45 }] })).toThrow('out of range');
+        expect(() => parseSharedCrawl({ ...crawl, stops: [{ venue: crawl.stops[0].venue, stayMinutes: '45' }] })).toThrow('Stop 1 has no valid length of stay.');
+        expect(() => parseSharedCrawl({ ...crawl, stops: [crawl.stops[0], 'The Green Parrot'] })).toThrow('Stop 2 has no valid length of stay.');
+    });
+});
@@ -0,0 +1,299 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+    createHttpSyncBackend,
+    createMemorySyncBackend,
+    matchFirstSyncDuplicates,
+    mergeForSync,
+    parseSyncConflicts,
+    parseSyncSnapshot,
+    pruneTombstones,
+    type SyncBackend,
+    type SyncedHappyHour,
+    type Tombstone,
+} from '../sync.ts';
+
+const T1 = '2026-01-15T20:00:00.000Z';
+const T2 = '2026-01-15T21:00:00.000Z';
+const T3 = '2026-01-15T22:00:00.000Z';
+const NOW = '2026-01-15T23:00:00.000Z';
+
+function makeSynced(id: number, extra: Partial<SyncedHappyHour> = {}): SyncedHappyHour {
+    return {
+        id,
+        name: `Bar ${id}`,
+        address: `${id} Duval St`,
+        schedule: { Thu: [{ start: '16:00', end: '19:00' }] },
+        specials: '$3 beers',
+        hasFood: false,
+        rating: 3,
+        tags: [],
+        ...extra,
+    };
+}
+
+const side = (happyHours: SyncedHappyHour[], deleted: Tombstone[] = []) => ({ happyHours, deleted });
+
+describe('mergeForSync', () => {
+    it('keeps the version changed last', () => {
+        const merged = mergeForSync(
+            side([makeSynced(1, { specials: 'mine', updatedAt: T3 }), makeSynced(2, { specials: 'mine', updatedAt: T1 })]),
+            side([makeSynced(1, { specials: 'theirs', updatedAt: T2 }), makeSynced(2, { specials: 'theirs', updatedAt: T2 })]),
+            null,
+            NOW,
+        );
+        expect(merged.happyHours.map(hh => [hh.id, hh.specials])).toEqual([[1, 'mine'], [2, 'theirs']]);
+    });
+
+    it('breaks ties in favor of the shared copy', () => {
+        const merged = mergeForSync(
+            side([makeSynced(1, { specials: 'mine', updatedAt: T2 })]),
+            side([makeSynced(1, { specials: 'theirs', updatedAt: T2 })]),
+            T1,
+            NOW,
+        );
+        expect(merged.happyHours[0].specials).toBe('theirs');
+    });
+
+    it('treats entries without a timestamp as older than any change', () => {
+        const merged = mergeForSync(side([makeSynced(1, { specials: 'mine' })]), side([makeSynced(1, { specials: 'theirs', updatedAt: T1 })]), null, NOW);
+        expect(merged.happyHours[0].specials).toBe('theirs');
+    });
+
+    it('keeps entries only one side has', () => {
+        const merged = mergeForSync(side([makeSynced(1)]), side([makeSynced(2)], [{ id: 3, deletedAt: T1 }]), null, NOW);
+        expect(merged.happyHours.map(hh => hh.id).sort()).toEqual([1, 2]);
+        expect(merged.deleted).toEqual([{ id: 3, deletedAt: T1 }]);
+    });
+
+    it('lets a deletion win over an older edit, on either side', () => {
+        const merged = mergeForSync(
+            side([makeSynced(1, { updatedAt: T1 })], [{ id: 2, deletedAt: T3 }]),
+            side([makeSynced(2, { updatedAt: T2 })], [{ id: 1, deletedAt: T2 }]),
+            null,
+            NOW,
+        );
+        expect(merged.happyHours).toEqual([]);
+        expect(merged.deleted).toEqual(expect.arrayContaining([{ id: 1, deletedAt: T2 }, { id: 2, deletedAt: T3 }]));
+    });
+
+    it('lets an edit made after a deletion bring the entry back', () => {
+        const merged = mergeForSync(side([makeSynced(1, { updatedAt: T3 })]), side([], [{ id: 1, deletedAt: T2 }]), null, NOW);
+        expect(merged.happyHours.map(hh => hh.id)).toEqual([1]);
+        expect(merged.deleted).toEqual([]);
+    });
+
+    it('reports a conflict when both sides changed an entry since the last sync', () => {
+        const mine = makeSynced(1, { specials: 'mine', updatedAt: T2 });
+        const theirs = makeSynced(1, { specials: 'theirs', updatedAt: T3 });
+        const merged = mergeForSync(side([mine]), side([theirs]), T1, NOW);
+        expect(merged.conflicts).toEqual([{ id: 1, detectedAt: NOW, kept: theirs, discarded: mine, discardedFrom: 'local' }]);
+    });
+
+    it('reports an edit that lost to a deletion', () => {
+        const mine = makeSynced(1, { updatedAt: T3 });
+        const merged = mergeForSync(side([mine]), side([], [{ id: 1, deletedAt: T2 }]), T1, NOW);
+        expect(merged.conflicts).toEqual([{ id: 1, detectedAt: NOW, kept: mine, discarded: null, discardedFrom: 'remote' }]);
+    });
+
+    it('reports no conflict when only one side changed, or both made the same change', () => {
+        const merged = mergeForSync(
+            side([makeSynced(1, { specials: 'old', updatedAt: T1 }), makeSynced(2, { specials: 'same', updatedAt: T2 })]),
+            side([makeSynced(1, { specials: 'new', updatedAt: T3 }), makeSynced(2, { specials: 'same', updatedAt: T3 })]),
+            T1,
+            NOW,
+        );
+        expect(merged.conflicts).toEqual([]);
+    });
+});
+
+describe('matchFirstSyncDuplicates', () => {
+    it('matches venues by normalized name and address', () => {
+        const local = [makeSynced(101, { name: ' bar ONE ', address: '1 duval st ' }), makeSynced(102)];
+        const remote = { revision: 1, happyHours: [makeSynced(1, { name: 'Bar One', address: '1 Duval St' })], deleted: [] };
+        expect(matchFirstSyncDuplicates(local, remote)).toEqual(new Map([[101, 1]]));
+    });
+
+    it('leaves entries the shared copy already knows by ID alone', () => {
+        const local = [makeSynced(1), makeSynced(2, { name: 'Bar 3', address: '3 Duval St' })];
+        const remote = { revision: 1, happyHours: [makeSynced(3)], deleted: [{ id: 2, deletedAt: T1 }] };
+        expect(matchFirstSyncDuplicates(local, remote).size).toBe(0);
+    });
+
+    it('matches each shared entry once, and only if this device does not have its ID', () => {
+        const local = [makeSynced(101, { name: 'Bar 1', address: '1 Duval St' }), makeSynced(102, { name: 'Bar 1', address: '1 Duval St' }), makeSynced(2), makeSynced(103, { name: 'Bar 2', address: '2 Duval St' })];
+        const remote = { revision: 1, happyHours: [makeSynced(1), makeSynced(2)], deleted: [] };
+        expect(matchFirstSyncDuplicates(local, remote)).toEqual(new Map([[101, 1]]));
+    });
+});
+
+describe('pruneTombstones', () => {
+    const old = { id: 1, deletedAt: '2025-12-01T00:00:00.000Z' };
+    const recent = { id: 2, deletedAt: '2026-01-10T00:00:00.000Z' };
+
+    it('drops accepted tombstones once they are past the retention period', () => {
+        expect(pruneTombstones([old, recent], [old, recent], NOW)).toEqual([recent]);
+    });
+
+    it('keeps tombstones the server has not accepted yet, however old', () => {
+        expect(pruneTombstones([old, recent], [], NOW)).toEqual([old, recent]);
+    });
+});
+
+describe('parseSyncSnapshot', () => {
+    it('rejects anything that is not a snapshot', () => {
+        [null, 'list', [], { revision: '1', happyHours: [], deleted: [] }, { revision: 1, happyHours: {}, deleted: [] }].forEach(raw => {
+            expect(() => parseSyncSnapshot(raw)).toThrow('not a happy hour list');
+        });
+    });
+
+    it('keeps valid entries and drops the rest', () => {
+        const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+        const snapshot = parseSyncSnapshot({
+            revision: 4,
+            happyHours: [
+                { ...makeSynced(1), updatedAt: '2026-01-15T15:00:00-05:00', isFavorite: true },
+                { ...makeSynced(2), schedule: { Thu: [{ start: '25:00', end: '19:00' }] } },
+                { ...makeSynced(3), id: '3' },
+                'Bar 4',
+            ],
+            deleted: [{ id: 5, deletedAt: T1 }, { id: 6, deletedAt: 'yesterday' }, { id: 7.5, deletedAt: T1 }, null],
+        });
+        expect(snapshot.revision).toBe(4);
+        expect(snapshot.happyHours.map(hh => hh.id)).toEqual([1]);
+        expect(snapshot.happyHours[0].updatedAt).toBe(T1);
+        expect(snapshot.happyHours[0]).not.toHaveProperty('isFavorite');
+        expect(snapshot.deleted).toEqual([{ id: 5, deletedAt: T1 }]);
+        expect(warn).toHaveBeenCalledTimes(3);
+        warn.mockRestore();
+    });
+});
+
+describe('parseSyncConflicts', () => {
+    it('reads back stored conflicts', () => {
+        const conflicts = [
+            { id: 1, detectedAt: NOW, kept: makeSynced(1, { updatedAt: T2 }), discarded: makeSynced(1, { rating: 5, updatedAt: T1 }), discardedFrom: 'local' as const },
+            { id: 2, detectedAt: NOW, kept: null, discarded: makeSynced(2, { updatedAt: T1 }), discardedFrom: 'remote' as const },
+        ];
+        expect(parseSyncConflicts(JSON.parse(JSON.stringify(conflicts)))).toEqual(conflicts);
+    });
+
+    it('treats anything but a list as no conflicts', () => {
+        [undefined, null, 'conflicts', { 0: {} }].forEach(raw => expect(parseSyncConflicts(raw)).toEqual([]));
+    });
+
+    it('drops malformed conflicts and those with invalid versions', () => {
+        const valid = { id: 1, detectedAt: NOW, kept: makeSynced(1), discarded: null, discardedFrom: 'remote' };
+        expect(parseSyncConflicts([
+            valid,
+            { ...valid, id: '1' },
+            { ...valid, detectedAt: 'today' },
+            { ...valid, discardedFrom: 'elsewhere' },
+            { ...valid, kept: { ...makeSynced(1), rating: 9 } },
+            { ...valid, kept: null },
+            'conflict',
+        ]).map(conflict => conflict.id)).toEqual([1]);
+    });
+});
+
+interface Device {
+    happyHours: SyncedHappyHour[];
+    deleted: Tombstone[];
+    lastSyncedAt: string | null;
+}
+
+/** Runs one sync round for a device the way the app does: pull, merge, push. */
+async function syncDevice(backend: SyncBackend, device: Device, now: string) {
+    const remote = await backend.pull();
+    const merged = mergeForSync(device, remote, device.lastSyncedAt, now);
+    const pushed = await backend.push(merged.happyHours, merged.deleted, remote.revision);
+    if (pushed) Object.assign(device, { happyHours: merged.happyHours, deleted: merged.deleted, lastSyncedAt: now });
+    return { pushed, conflicts: merged.conflicts };
+}
+
+describe('createMemorySyncBackend', () => {
+    it('refuses a push based on an out-of-date revision', async () => {
+        const backend = createMemorySyncBackend();
+        expect(await backend.push([makeSynced(1)], [], 0)).toBe(true);
+        expect(await backend.push([makeSynced(2)], [], 0)).toBe(false);
+        expect((await backend.pull()).happyHours.map(hh => hh.id)).toEqual([1]);
+    });
+
+    it('brings two devices to the same list', async () => {
+        const backend = createMemorySyncBackend();
+        const phone: Device = { happyHours: [makeSynced(1, { updatedAt: T1 })], deleted: [], lastSyncedAt: null };
+        const laptop: Device = { happyHours: [makeSynced(2, { updatedAt: T1 })], deleted: [], lastSyncedAt: null };
+        await syncDevice(backend, phone, T1);
+        await syncDevice(backend, laptop, T2);
+
+        phone.happyHours = [];
+        phone.deleted = [{ id: 1, deletedAt: T3 }];
+        await syncDevice(backend, phone, T3);
+        await syncDevice(backend, laptop, NOW);
+
+        expect(laptop.happyHours.map(hh => hh.id)).toEqual([2]);
+        expect(laptop.deleted).toEqual([{ id: 1, deletedAt: T3 }]);
+    });
+
+    it('makes the second of two devices that pulled together merge again', async () => {
+        const backend = createMemorySyncBackend();
+        const remote = await backend.pull();
+        expect(await backend.push([makeSynced(1)], [], remote.revision)).toBe(true);
+        expect(await backend.push([makeSynced(2)], [], remote.revision)).toBe(false);
+
+        const device: Device = { happyHours: [makeSynced(2, { updatedAt: T1 })], deleted: [], lastSyncedAt: null };
+        expect((await syncDevice(backend, device, T2)).pushed).toBe(true);
+        expect((await backend.pull()).happyHours.map(hh => hh.id).sort()).toEqual([1, 2]);
+    });
+});
+
+describe('createHttpSyncBackend', () => {
+    const SERVER_URL = 'https://sync.example.com/list.json';
+
+    afterEach(() => {
+        vi.unstubAllGlobals();
+    });
+
+    function stubFetch(status: number, body: unknown = null) {
+        const fetch = vi.fn(async () => new Response(body === null ? null : JSON.stringify(body), { status }));
+        vi.stubGlobal('fetch', fetch);
+        return fetch;
+    }
+
+    it('is labelled with the server host', () => {
+        expect(createHttpSyncBackend(SERVER_URL).label).toBe('sync.example.com');
+    });
+
+    it('treats a missing snapshot as an empty list', async () => {
+        stubFetch(404);
+        expect(await createHttpSyncBackend(SERVER_URL).pull()).toEqual({ revision: 0, happyHours: [], deleted: [] });
+    });
+
+    it('validates the snapshot it pulls', async () => {
+        stubFetch(200, { revision: 2, happyHours: [makeSynced(1)], deleted: [] });
+        expect((await createHttpSyncBackend(SERVER_URL).pull()).happyHours.map(hh => hh.id)).toEqual([1]);
+
+        stubFetch(200, { happyHours: '<script>' });
+        await expect(createHttpSyncBackend(SERVER_URL).pull()).rejects.toThrow('not a happy hour list');
+    });
+
+    it('sends the base revision in If-Match', async () => {
+        const fetch = stubFetch(200);
+        expect(await createHttpSyncBackend(SERVER_URL).push([makeSynced(1)], [], 2)).toBe(true);
+        const [url, init] = fetch.mock.calls[0] as unknown as [string, RequestInit];
+        expect(url).toBe(SERVER_URL);
+        expect(init.method).toBe('PUT');
+        expect((init.headers as Record<string, string>)['If-Match']).toBe('"2"');
+        expect(JSON.parse(init.body as string).revision).toBe(3);
+    });
+
+    it('reports a 412 as a refused push', async () => {
+        stubFetch(412);
+        expect(await createHttpSyncBackend(SERVER_URL).push([], [], 2)).toBe(false);
+    });
+
+    it('throws on other server errors', async () => {
+        stubFetch(500);
+        await expect(createHttpSyncBackend(SERVER_URL).pull()).rejects.toThrow('answered 500');
+        await expect(createHttpSyncBackend(SERVER_URL).push([], [], 2)).rejects.toThrow('answered 500');
+    });
+});
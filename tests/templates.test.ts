@@ -0,0 +1,264 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from 'vitest';
+import { html, setHtml, type SafeHtml } from '../html.ts';
+import { keyWestTimeToDate } from '../schedule.ts';
+import { decodeSharePayload, encodeSharePayload, getShareableVenue, parseSharedVenue } from '../share.ts';
+import {
+    createHappyHourCard,
+    highlightMatches,
+    renderArchivedRow,
+    renderConflicts,
+    renderDealRow,
+    renderEventRow,
+    renderItinerary,
+    renderReminderVenueList,
+    renderSavedItineraries,
+    renderSuggestions,
+    renderTagFilterButtons,
+    renderTimeRangeRow,
+    renderVenueSummary,
+    renderVisitHistory,
+} from '../templates.ts';
+import type { HappyHour, Itinerary, ScheduledStop, Visit } from '../types.ts';
+
+// Strings that would inject markup, break out of an attribute, or run script if they weren't escaped.
+const IMG = '<img src=x onerror="window.__pwned = true">';
+const SCRIPT = '</p><script>window.__pwned = true</script>';
+const QUOTES = `" onmouseover="window.__pwned = true" data-x='`;
+const JS_URL = 'javascript:alert(1)';
+const HOSTILE = [IMG, SCRIPT, QUOTES, JS_URL];
+const hostile = HOSTILE.join(' ');
+
+const now = keyWestTimeToDate({ year: 2026, month: 1, day: 15 }, '17:00');
+
+function makeHappyHour(extra: Partial<HappyHour> = {}): HappyHour {
+    return {
+        id: 7,
+        name: `Bar ${IMG}`,
+        address: `${QUOTES} Duval St`,
+        schedule: { Thu: [{ start: '16:00', end: '19:00' }] },
+        specials: `${SCRIPT} ${JS_URL}`,
+        hasFood: true,
+        rating: 4,
+        isFavorite: true,
+        isArchived: false,
+        tags: [IMG, QUOTES],
+        deals: [{ category: 'beer', description: hostile, regularPrice: 6, happyHourPrice: 3 }],
+        events: [{ date: '2026-01-20', start: '20:00', end: '22:00', label: SCRIPT }],
+        ...extra,
+    };
+}
+
+/** Parses markup into a container, the way setHtml puts it on the page. */
+function mount(content: SafeHtml | HTMLElement): HTMLElement {
+    if (content instanceof HTMLElement) return content;
+    const container = document.createElement('div');
+    setHtml(container, content);
+    return container;
+}
+
+/** Checks that nothing hostile became markup: no injected elements, handlers or script URLs. */
+function expectInert(root: HTMLElement) {
+    expect(root.querySelectorAll('img, script')).toHaveLength(0);
+    root.querySelectorAll('*').forEach(el => {
+        for (const attr of Array.from(el.attributes)) {
+            expect(attr.name).not.toMatch(/^on/);
+            expect(attr.name).not.toBe('data-x');
+            if (attr.name === 'href' || attr.name === 'src') expect(attr.value).not.toMatch(/^javascript:/i);
+        }
+    });
+}
+
+/** Checks that a hostile string is shown to the user exactly as typed. */
+function expectShownAsText(root: HTMLElement, text: string) {
+    expect(root.textContent).toContain(text);
+}
+
+describe('html', () => {
+    it('escapes interpolated values in text and attributes', () => {
+        const root = mount(html`<p title="${QUOTES}">${IMG}</p>`);
+        expectInert(root);
+        expect(root.querySelector('p')!.getAttribute('title')).toBe(QUOTES);
+        expect(root.querySelector('p')!.textContent).toBe(IMG);
+    });
+
+    it('escapes objects that only look like SafeHtml', () => {
+        const root = mount(html`<p>${{ markup: IMG }}</p>`);
+        expect(root.querySelectorAll('img')).toHaveLength(0);
+    });
+
+    it('escapes the parts around search highlights', () => {
+        const root = mount(highlightMatches(`bar ${IMG}`, 'bar img'));
+        expectInert(root);
+        expect(Array.from(root.querySelectorAll('mark')).map(m => m.textContent)).toEqual(['bar', 'img']);
+        expectShownAsText(root, IMG);
+    });
+});
+
+describe('createHappyHourCard', () => {
+    const options = { searchQuery: 'bar', showKeyWestTimeNote: true, distance: IMG, visits: SCRIPT, reminderOn: true };
+
+    it('shows every field of a hostile venue as text', () => {
+        const hh = makeHappyHour();
+        const card = createHappyHourCard(hh, now, options);
+        expectInert(card);
+        expectShownAsText(card, IMG);
+        expectShownAsText(card, QUOTES);
+        expectShownAsText(card, SCRIPT);
+        expectShownAsText(card, JS_URL);
+        expect(Array.from(card.querySelectorAll('.card-tag')).map(t => t.textContent)).toEqual([`#${IMG}`, `#${QUOTES}`]);
+        expect(card.querySelector('.deals-table td:nth-child(2)')!.textContent).toBe(hostile);
+    });
+
+    it('keeps its own attributes intact', () => {
+        const card = createHappyHourCard(makeHappyHour(), now, options);
+        const link = card.querySelector('.venue-link') as HTMLElement;
+        expect(link.dataset.id).toBe('7');
+        expect(link.getAttribute('title')).toBe('Visits and details');
+        expect(card.querySelector('.remind-btn')!.getAttribute('aria-label')).toBe('Turn off reminders');
+    });
+
+    it('escapes a hostile search query', () => {
+        const card = createHappyHourCard(makeHappyHour(), now, { ...options, searchQuery: IMG });
+        expectInert(card);
+    });
+});
+
+describe('shared venues', () => {
+    it('shows a hostile venue from a share link as text', async () => {
+        const shared = parseSharedVenue(await decodeSharePayload(await encodeSharePayload(getShareableVenue(makeHappyHour()))));
+        const hh = { ...shared, id: 8 };
+        const root = mount(createHappyHourCard(hh, now, { searchQuery: '', showKeyWestTimeNote: false, distance: null, visits: null, reminderOn: false }));
+        expectInert(root);
+        expectShownAsText(root, hh.name);
+        expectShownAsText(root, hh.address);
+        expectShownAsText(root, hh.specials);
+    });
+});
+
+describe('form rows', () => {
+    it('keeps hostile values inside the value attributes of event rows', () => {
+        const root = mount(renderEventRow({ date: QUOTES, start: IMG, end: JS_URL, label: QUOTES }));
+        expectInert(root);
+        expect((root.querySelector('.event-label') as HTMLInputElement).value).toBe(QUOTES);
+        expect((root.querySelector('.event-date') as HTMLInputElement).getAttribute('value')).toBe(QUOTES);
+    });
+
+    it('keeps hostile values inside the value attributes of deal rows', () => {
+        const root = mount(renderDealRow({ category: 'wine', description: QUOTES, happyHourPrice: 4 }));
+        expectInert(root);
+        expect((root.querySelector('.deal-description') as HTMLInputElement).value).toBe(QUOTES);
+        expect((root.querySelector('.deal-category') as HTMLSelectElement).value).toBe('wine');
+    });
+
+    it('keeps hostile values inside the value attributes of time range rows', () => {
+        const root = mount(renderTimeRangeRow(QUOTES, IMG));
+        expectInert(root);
+        expect(root.querySelector('.time-start')!.getAttribute('value')).toBe(QUOTES);
+        expect(root.querySelector('.time-end')!.getAttribute('value')).toBe(IMG);
+    });
+
+    it('leaves empty rows without values', () => {
+        const root = mount(renderEventRow());
+        expect((root.querySelector('.event-label') as HTMLInputElement).value).toBe('');
+    });
+});
+
+describe('lists', () => {
+    it('escapes archived rows', () => {
+        const root = mount(renderArchivedRow(makeHappyHour()));
+        expectInert(root);
+        expectShownAsText(root, IMG);
+        expectShownAsText(root, QUOTES);
+    });
+
+    it('escapes tag filters and keeps tags intact in their data attributes', () => {
+        const root = mount(renderTagFilterButtons(HOSTILE, [QUOTES]));
+        expectInert(root);
+        const buttons = Array.from(root.querySelectorAll('button')) as HTMLElement[];
+        expect(buttons.map(b => b.dataset.tag)).toEqual(HOSTILE);
+        expect(buttons.filter(b => b.classList.contains('active')).map(b => b.dataset.tag)).toEqual([QUOTES]);
+    });
+
+    it('escapes datalist suggestions', () => {
+        const root = mount(renderSuggestions(HOSTILE));
+        expectInert(root);
+        expect(Array.from(root.querySelectorAll('option')).map(o => o.value)).toEqual(HOSTILE);
+    });
+
+    it('escapes the reminder venue list', () => {
+        const root = mount(renderReminderVenueList([makeHappyHour()], [7]));
+        expectInert(root);
+        expectShownAsText(root, IMG);
+        expect((root.querySelector('input') as HTMLInputElement).checked).toBe(true);
+    });
+});
+
+describe('visit detail', () => {
+    it('escapes the venue summary', () => {
+        const root = mount(renderVenueSummary(makeHappyHour(), 4.5));
+        expectInert(root);
+        expectShownAsText(root, QUOTES);
+    });
+
+    it('escapes what was ordered and the notes of each visit', () => {
+        const visits: Visit[] = [
+            { id: 2, happyHourId: 7, date: '2026-01-14', rating: 5, ordered: IMG, notes: SCRIPT },
+            { id: 1, happyHourId: 7, date: '2026-01-10', notes: `${QUOTES} ${JS_URL}` },
+        ];
+        const root = mount(renderVisitHistory(visits));
+        expectInert(root);
+        expectShownAsText(root, `Ordered: ${IMG}`);
+        expectShownAsText(root, SCRIPT);
+        expectShownAsText(root, JS_URL);
+        expect(Array.from(root.querySelectorAll('.remove-visit-btn')).map(b => (b as HTMLElement).dataset.visitId)).toEqual(['2', '1']);
+    });
+});
+
+describe('bar crawls', () => {
+    const hh = makeHappyHour();
+    const itinerary: Itinerary = { id: 3, name: QUOTES, date: '2026-01-15', start: '17:00', end: '21:00', stops: [{ happyHourId: 7, stayMinutes: 60 }] };
+    const scheduled: ScheduledStop[] = [{
+        hh,
+        walkMinutes: 0,
+        arrive: now,
+        begin: now,
+        leave: new Date(now.getTime() + 60 * 60000),
+        windowEnd: new Date(now.getTime() + 120 * 60000),
+        warning: IMG,
+    }];
+
+    it('keeps a hostile crawl name inside the name input', () => {
+        const root = mount(renderItinerary(itinerary, scheduled, false));
+        expectInert(root);
+        expect((root.querySelector('#crawl-name') as HTMLInputElement).value).toBe(QUOTES);
+    });
+
+    it('escapes the stops', () => {
+        const root = mount(renderItinerary(itinerary, scheduled, true));
+        expectInert(root);
+        expect(root.querySelector('.crawl-stop .venue-link')!.textContent).toBe(hh.name);
+        expect(root.querySelector('.crawl-warning')!.textContent).toContain(IMG);
+    });
+
+    it('escapes the saved crawls', () => {
+        const root = mount(renderSavedItineraries([{ ...itinerary, name: `${IMG}${SCRIPT}` }]));
+        expectInert(root);
+        expectShownAsText(root, `${IMG}${SCRIPT}`);
+    });
+});
+
+describe('sync conflicts', () => {
+    it('escapes both versions of a conflicting entry', () => {
+        const { isFavorite, isArchived, ...synced } = makeHappyHour({ updatedAt: '2026-01-15T22:00:00.000Z' });
+        const root = mount(renderConflicts([
+            { id: 7, detectedAt: '2026-01-15T22:05:00.000Z', kept: synced, discarded: { ...synced, specials: IMG }, discardedFrom: 'remote' },
+            { id: 7, detectedAt: '2026-01-15T22:05:00.000Z', kept: null, discarded: synced, discardedFrom: 'local' },
+        ]));
+        expectInert(root);
+        expect(root.querySelector('.conflict-row h3')!.textContent).toBe(synced.name);
+        expectShownAsText(root, synced.address);
+        expectShownAsText(root, IMG);
+        expect(root.querySelectorAll('.conflict-deleted')).toHaveLength(1);
+    });
+});
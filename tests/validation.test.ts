@@ -0,0 +1,359 @@
+import { describe, expect, it } from 'vitest';
+import type { HappyHour } from '../types.ts';
+import {
+    dropInvalidRanges,
+    findDuplicateVenue,
+    getDuplicateKey,
+    isValidDateString,
+    isValidItinerary,
+    isValidStayMinutes,
+    isValidTimeString,
+    normalizeTag,
+    parseBooleanField,
+    validateDayRanges,
+    validateEvents,
+    validateImportedRecord,
+    validateSchedule,
+} from '../validation.ts';
+
+const validRecord = {
+    name: 'Test Bar',
+    address: '1 Duval St',
+    schedule: { Mon: [{ start: '16:00', end: '19:00' }] },
+    specials: '$3 drafts',
+    hasFood: false,
+    rating: 4,
+};
+
+describe('isValidTimeString', () => {
+    it.each(['00:00', '09:05', '23:59'])('accepts %s', value => {
+        expect(isValidTimeString(value)).toBe(true);
+    });
+
+    it.each(['24:00', '9:05', '12:60', '12:00:00', '', ' 12:00', 1200, null])('rejects %j', value => {
+        expect(isValidTimeString(value)).toBe(false);
+    });
+});
+
+describe('isValidDateString', () => {
+    it.each(['2026-01-31', '2028-02-29', '2026-12-01'])('accepts %s', value => {
+        expect(isValidDateString(value)).toBe(true);
+    });
+
+    it.each(['2026-02-29', '2026-13-01', '2026-04-31', '2026-1-5', '01/05/2026', '', undefined])('rejects %j', value => {
+        expect(isValidDateString(value)).toBe(false);
+    });
+});
+
+describe('validateDayRanges', () => {
+    it('accepts ordinary, overnight and midnight-ending ranges', () => {
+        expect(validateDayRanges([{ start: '16:00', end: '19:00' }])).toEqual([null]);
+        expect(validateDayRanges([{ start: '22:00', end: '02:00' }])).toEqual([null]);
+        expect(validateDayRanges([{ start: '21:00', end: '00:00' }])).toEqual([null]);
+    });
+
+    it('asks for missing times', () => {
+        expect(validateDayRanges([{ start: '', end: '' }, { end: '19:00' }, { start: '16:00', end: null }])).toEqual([
+            'Enter a start and end time.',
+            'Enter a start time.',
+            'Enter an end time.',
+        ]);
+    });
+
+    it('rejects times that are not HH:MM', () => {
+        expect(validateDayRanges([{ start: '4pm', end: '19:00' }])[0]).toMatch(/not a valid time range/);
+        expect(validateDayRanges([{ start: 16, end: 19 }])[0]).toMatch(/not a valid time range/);
+    });
+
+    it('rejects a range that starts and ends at the same time', () => {
+        expect(validateDayRanges([{ start: '18:00', end: '18:00' }])[0]).toMatch(/^Starts and ends at 18:00/);
+    });
+
+    it('flags the later of two overlapping ranges', () => {
+        expect(validateDayRanges([{ start: '16:00', end: '19:00' }, { start: '18:00', end: '20:00' }])).toEqual([
+            null,
+            'Overlaps 16:00-19:00.',
+        ]);
+    });
+
+    it('allows ranges that merely touch', () => {
+        expect(validateDayRanges([{ start: '16:00', end: '18:00' }, { start: '18:00', end: '20:00' }])).toEqual([null, null]);
+    });
+
+    it('catches an overlap with an overnight range of the same day', () => {
+        expect(validateDayRanges([{ start: '22:00', end: '02:00' }, { start: '23:00', end: '23:30' }])).toEqual([null, 'Overlaps 22:00-02:00.']);
+    });
+
+    it('ignores invalid ranges when looking for overlaps', () => {
+        expect(validateDayRanges([{ start: '16:00', end: '16:00' }, { start: '16:00', end: '18:00' }])[1]).toBeNull();
+    });
+
+    describe('against the day before', () => {
+        const previousDay = [{ start: '22:00', end: '02:00' }];
+
+        it('flags a range that starts before the overnight spill-over ends', () => {
+            expect(validateDayRanges([{ start: '01:00', end: '03:00' }], previousDay)).toEqual(['Overlaps 22:00-02:00 from the day before.']);
+        });
+
+        it('allows a range that starts as the spill-over ends', () => {
+            expect(validateDayRanges([{ start: '02:00', end: '03:00' }], previousDay)).toEqual([null]);
+        });
+
+        it('ignores ranges of the day before that end by midnight', () => {
+            const evening = [{ start: '16:00', end: '19:00' }, { start: '21:00', end: '00:00' }];
+            expect(validateDayRanges([{ start: '00:00', end: '03:00' }], evening)).toEqual([null]);
+        });
+
+        it('reports an overlap within the day ahead of one with the day before', () => {
+            const ranges = [{ start: '00:30', end: '01:30' }, { start: '01:00', end: '03:00' }];
+            expect(validateDayRanges(ranges, previousDay)).toEqual(['Overlaps 22:00-02:00 from the day before.', 'Overlaps 00:30-01:30.']);
+        });
+    });
+});
+
+describe('validateSchedule', () => {
+    it('checks each day against the overnight ranges of the day before', () => {
+        const errors = validateSchedule({
+            Mon: [{ start: '22:00', end: '02:00' }],
+            Tue: [{ start: '01:00', end: '03:00' }, { start: '16:00', end: '19:00' }],
+        });
+        expect(errors).toEqual({ Mon: [null], Tue: ['Overlaps 22:00-02:00 from the day before.', null] });
+    });
+
+    it('wraps from Sunday to Monday', () => {
+        const errors = validateSchedule({ Mon: [{ start: '00:00', end: '01:00' }], Sun: [{ start: '23:00', end: '01:00' }] });
+        expect(errors).toEqual({ Mon: ['Overlaps 23:00-01:00 from the day before.'], Sun: [null] });
+    });
+
+    it('leaves days that are not consecutive alone', () => {
+        const errors = validateSchedule({ Mon: [{ start: '22:00', end: '02:00' }], Wed: [{ start: '01:00', end: '03:00' }] });
+        expect(errors).toEqual({ Mon: [null], Wed: [null] });
+    });
+
+    it('ignores invalid ranges of the day before', () => {
+        const errors = validateSchedule({
+            Mon: [{ start: '20:00', end: '23:00' }, { start: '22:00', end: '02:00' }],
+            Tue: [{ start: '01:00', end: '03:00' }],
+        });
+        expect(errors).toEqual({ Mon: [null, 'Overlaps 20:00-23:00.'], Tue: [null] });
+    });
+});
+
+describe('validateEvents', () => {
+    it('needs a valid date', () => {
+        expect(validateEvents([
+            { start: '16:00', end: '19:00' },
+            { date: '2026-02-30', start: '16:00', end: '19:00' },
+        ])).toEqual(['Enter a date.', '"2026-02-30" is not a valid date (expected YYYY-MM-DD).']);
+    });
+
+    it('checks the time range of each event', () => {
+        expect(validateEvents([{ date: '2026-10-24', start: '20:00', end: '20:00' }])[0]).toMatch(/^Starts and ends at/);
+    });
+
+    it('flags events on the same date that overlap', () => {
+        expect(validateEvents([
+            { date: '2026-10-24', start: '16:00', end: '19:00' },
+            { date: '2026-10-25', start: '17:00', end: '18:00' },
+            { date: '2026-10-24', start: '18:00', end: '21:00' },
+        ])).toEqual([null, null, 'Overlaps 16:00-19:00.']);
+    });
+
+    it('flags an event that overlaps an overnight event of the date before', () => {
+        expect(validateEvents([
+            { date: '2026-11-01', start: '01:00', end: '03:00' },
+            { date: '2026-10-31', start: '22:00', end: '02:00' },
+        ])).toEqual(['Overlaps 22:00-02:00 from the day before.', null]);
+    });
+
+    it('crosses month and year boundaries', () => {
+        expect(validateEvents([
+            { date: '2026-12-31', start: '22:00', end: '02:00' },
+            { date: '2027-01-01', start: '00:30', end: '01:00' },
+        ])).toEqual([null, 'Overlaps 22:00-02:00 from the day before.']);
+    });
+});
+
+describe('dropInvalidRanges', () => {
+    function storedHappyHour(extra: Partial<HappyHour>): HappyHour {
+        return { id: 1, name: 'Bar', address: '1 Duval St', schedule: {}, specials: '', hasFood: false, rating: 3, isFavorite: false, isArchived: false, tags: [], ...extra };
+    }
+
+    it('drops invalid ranges and days left without any', () => {
+        const hh = storedHappyHour({ schedule: { Mon: [{ start: '18:00', end: '18:00' }], Tue: [{ start: '16:00', end: '19:00' }, { start: '17:00', end: '18:00' }] } });
+        expect(dropInvalidRanges(hh)).toBe(2);
+        expect(hh.schedule).toEqual({ Tue: [{ start: '16:00', end: '19:00' }] });
+    });
+
+    it('drops ranges that clash with the day before', () => {
+        const hh = storedHappyHour({ schedule: { Mon: [{ start: '22:00', end: '02:00' }], Tue: [{ start: '01:00', end: '03:00' }] } });
+        expect(dropInvalidRanges(hh)).toBe(1);
+        expect(hh.schedule).toEqual({ Mon: [{ start: '22:00', end: '02:00' }] });
+    });
+
+    it('drops malformed days and events', () => {
+        const hh = storedHappyHour({
+            schedule: { Mon: 'nope' as never, Wed: [null as never, { start: '16:00', end: '19:00' }] },
+            events: [{ date: 'someday', start: '16:00', end: '19:00' }, { date: '2026-10-24', start: '16:00', end: '19:00' }],
+        });
+        expect(dropInvalidRanges(hh)).toBe(3);
+        expect(hh.schedule).toEqual({ Wed: [{ start: '16:00', end: '19:00' }] });
+        expect(hh.events).toEqual([{ date: '2026-10-24', start: '16:00', end: '19:00' }]);
+    });
+
+    it('leaves valid data alone', () => {
+        const hh = storedHappyHour({ schedule: { Mon: [{ start: '16:00', end: '19:00' }] } });
+        expect(dropInvalidRanges(hh)).toBe(0);
+        expect(hh.schedule).toEqual({ Mon: [{ start: '16:00', end: '19:00' }] });
+    });
+});
+
+describe('duplicates and tags', () => {
+    it('matches venues by name and address, ignoring case and surrounding spaces', () => {
+        expect(getDuplicateKey({ name: ' Test Bar ', address: '1 DUVAL St' })).toBe(getDuplicateKey({ name: 'test bar', address: '1 duval st ' }));
+        const list = [{ ...validRecord, id: 5, isFavorite: false, isArchived: false, tags: [] }];
+        expect(findDuplicateVenue({ name: 'TEST BAR', address: '1 duval st' }, list)?.id).toBe(5);
+        expect(findDuplicateVenue({ name: 'TEST BAR', address: '1 duval st' }, list, 5)).toBeUndefined();
+    });
+
+    it('normalizes tags', () => {
+        expect(normalizeTag('  ##Live   Music ')).toBe('live music');
+    });
+
+    it('reads common boolean spellings', () => {
+        expect(['yes', 'Y', '1', 'TRUE', true].map(parseBooleanField)).toEqual([true, true, true, true, true]);
+        expect(['no', 'n', '0', 'false', false, '', null, undefined].map(parseBooleanField)).toEqual(Array(8).fill(false));
+        expect(parseBooleanField('maybe')).toBeUndefined();
+    });
+});
+
+describe('validateImportedRecord', () => {
+    it('accepts a valid record and fills in defaults', () => {
+        const result = validateImportedRecord(validRecord, 1);
+        expect(result.errors).toEqual([]);
+        expect(result.record).toMatchObject({ ...validRecord, isFavorite: false, isArchived: false, tags: [] });
+    });
+
+    it('rejects anything that is not an object', () => {
+        expect(validateImportedRecord('Test Bar', 3)).toEqual({ row: 3, errors: ['Not a happy hour record.'] });
+        expect(validateImportedRecord(null, 3).errors).toEqual(['Not a happy hour record.']);
+    });
+
+    it('reports every missing field', () => {
+        const { errors, record } = validateImportedRecord({ ...validRecord, name: ' ', address: undefined, specials: 3 }, 1);
+        expect(errors).toEqual(['Missing name.', 'Missing address.', 'Missing specials.']);
+        expect(record).toBeUndefined();
+    });
+
+    it('reads the legacy shared days and time ranges', () => {
+        const { schedule, ...rest } = validRecord;
+        const result = validateImportedRecord({ ...rest, days: ['Mon', 'Fri'], timeRanges: [{ start: '16:00', end: '18:00' }] }, 1);
+        expect(result.record?.schedule).toEqual({ Mon: [{ start: '16:00', end: '18:00' }], Fri: [{ start: '16:00', end: '18:00' }] });
+    });
+
+    it('rejects malformed schedules', () => {
+        expect(validateImportedRecord({ ...validRecord, schedule: [] }, 1).errors).toContain('The schedule must map day codes to time ranges.');
+        expect(validateImportedRecord({ ...validRecord, schedule: { Funday: [{ start: '16:00', end: '19:00' }] } }, 1).errors).toContain('Unknown day code "Funday".');
+        expect(validateImportedRecord({ ...validRecord, schedule: { Mon: [] } }, 1).errors).toContain('Mon has no time ranges.');
+        expect(validateImportedRecord({ ...validRecord, schedule: { Mon: ['16:00-19:00'] } }, 1).errors).toContain('Mon: Enter a start and end time.');
+    });
+
+    it('reports overlapping ranges with the day they are on', () => {
+        const schedule = { Mon: [{ start: '22:00', end: '02:00' }], Tue: [{ start: '01:00', end: '03:00' }] };
+        expect(validateImportedRecord({ ...validRecord, schedule }, 1).errors).toEqual(['Tue: Overlaps 22:00-02:00 from the day before.']);
+    });
+
+    it('needs a weekly schedule or a one-off event', () => {
+        expect(validateImportedRecord({ ...validRecord, schedule: undefined }, 1).errors).toEqual(['At least one day or one-off event is required.']);
+        const eventOnly = validateImportedRecord({ ...validRecord, schedule: undefined, events: [{ date: '2026-10-24', start: '20:00', end: '23:00', label: ' Fantasy Fest ' }] }, 1);
+        expect(eventOnly.record?.events).toEqual([{ date: '2026-10-24', start: '20:00', end: '23:00', label: 'Fantasy Fest' }]);
+    });
+
+    it('checks season bounds, blackout dates and events', () => {
+        expect(validateImportedRecord({ ...validRecord, startDate: '2026-05-01', endDate: '2026-04-01' }, 1).errors).toEqual(['startDate is after endDate.']);
+        expect(validateImportedRecord({ ...validRecord, endDate: '2026/04/01' }, 1).errors).toEqual(['endDate "2026/04/01" is not a valid YYYY-MM-DD date.']);
+        expect(validateImportedRecord({ ...validRecord, blackoutDates: '2026-07-04' }, 1).errors).toEqual(['blackoutDates must be a list of dates.']);
+        expect(validateImportedRecord({ ...validRecord, blackoutDates: ['2026-07-04', 'July 4'] }, 1).errors).toEqual(['Blackout date "July 4" is not a valid YYYY-MM-DD date.']);
+        expect(validateImportedRecord({ ...validRecord, events: {} }, 1).errors).toEqual(['events must be a list.']);
+        expect(validateImportedRecord({ ...validRecord, events: [{ start: '20:00', end: '22:00' }] }, 1).errors).toEqual(['One-off event 1 (no date): Enter a date.']);
+    });
+
+    it.each([0, 6, 3.5, 'great', undefined])('rejects the rating %j', rating => {
+        expect(validateImportedRecord({ ...validRecord, rating }, 1).errors[0]).toMatch(/^Rating ".*" is out of range/);
+    });
+
+    it('accepts a rating given as text', () => {
+        expect(validateImportedRecord({ ...validRecord, rating: '5' }, 1).record?.rating).toBe(5);
+    });
+
+    it('rejects unrecognisable booleans', () => {
+        expect(validateImportedRecord({ ...validRecord, hasFood: 'sometimes' }, 1).errors).toEqual(['hasFood "sometimes" is not true or false.']);
+    });
+
+    it('normalizes and de-duplicates tags', () => {
+        expect(validateImportedRecord({ ...validRecord, tags: ['#Waterfront', 'waterfront ', ''] }, 1).record?.tags).toEqual(['waterfront']);
+        expect(validateImportedRecord({ ...validRecord, tags: ['ok', 3] }, 1).errors).toEqual(['tags must be a list of text labels.']);
+    });
+
+    it('checks each deal item', () => {
+        const deals = [
+            { category: 'beer', description: ' Draft ', regularPrice: '6', happyHourPrice: 3 },
+            { category: 'soda', description: 'Cola', happyHourPrice: 1 },
+            { category: 'wine', description: 'House', happyHourPrice: '' },
+            { category: 'well', description: 'Rum', happyHourPrice: 4, regularPrice: -1 },
+        ];
+        expect(validateImportedRecord({ ...validRecord, deals }, 1).errors).toEqual([
+            'Deal 2 needs a category (beer, wine, well, cocktail, food) and a description.',
+            'Deal 3 ("House") has an invalid price.',
+            'Deal 4 ("Rum") has an invalid price.',
+        ]);
+        expect(validateImportedRecord({ ...validRecord, deals: deals.slice(0, 1) }, 1).record?.deals).toEqual([
+            { category: 'beer', description: 'Draft', regularPrice: 6, happyHourPrice: 3 },
+        ]);
+    });
+
+    it('reports deal items and events that are not objects', () => {
+        expect(validateImportedRecord({ ...validRecord, deals: ['$3 drafts', null] }, 1).errors).toEqual([
+            'Deal 1 needs a category (beer, wine, well, cocktail, food) and a description.',
+            'Deal 2 needs a category (beer, wine, well, cocktail, food) and a description.',
+        ]);
+        expect(validateImportedRecord({ ...validRecord, events: ['2026-10-24 20:00-23:00'] }, 1).errors).toEqual(['One-off event 1 (no date): Enter a date.']);
+    });
+
+    it('keeps the ID the record was exported with', () => {
+        expect(validateImportedRecord({ ...validRecord, id: 42 }, 1).id).toBe(42);
+        expect(validateImportedRecord({ ...validRecord, id: '42' }, 1).id).toBeUndefined();
+        expect(validateImportedRecord({ ...validRecord, id: 4.2 }, 1).id).toBeUndefined();
+    });
+
+    it('checks coordinates', () => {
+        expect(validateImportedRecord({ ...validRecord, coordinates: { lat: '24.55', lng: -81.8 } }, 1).record?.coordinates).toEqual({ lat: 24.55, lng: -81.8 });
+        expect(validateImportedRecord({ ...validRecord, coordinates: { lat: 124, lng: -81.8 } }, 1).errors).toEqual(['Coordinates are not a valid latitude/longitude.']);
+    });
+});
+
+describe('bar crawls', () => {
+    const itinerary = { id: 1760000000000, name: 'Friday', date: '2026-10-23', start: '17:00', end: '01:00', stops: [{ happyHourId: 3, stayMinutes: 45 }] };
+
+    it('accepts positive whole minutes of stay', () => {
+        expect(isValidStayMinutes(45)).toBe(true);
+        [0, -5, 4.5, '45', NaN, Infinity, null].forEach(value => expect(isValidStayMinutes(value)).toBe(false));
+    });
+
+    it('accepts a well-formed saved crawl', () => {
+        expect(isValidItinerary(itinerary)).toBe(true);
+        expect(isValidItinerary({ ...itinerary, stops: [] })).toBe(true);
+    });
+
+    it('rejects saved crawls with a bad date, time or stop', () => {
+        expect(isValidItinerary(null)).toBe(false);
+        expect(isValidItinerary({ ...itinerary, id: '1' })).toBe(false);
+        expect(isValidItinerary({ ...itinerary, name: undefined })).toBe(false);
+        expect(isValidItinerary({ ...itinerary, date: '10/23/2026' })).toBe(false);
+        expect(isValidItinerary({ ...itinerary, end: '25:00' })).toBe(false);
+        expect(isValidItinerary({ ...itinerary, stops: 'all of them' })).toBe(false);
+        expect(isValidItinerary({ ...itinerary, stops: [{ happyHourId: '3', stayMinutes: 45 }] })).toBe(false);
+        expect(isValidItinerary({ ...itinerary, stops: [{ happyHourId: 3 }] })).toBe(false);
+        expect(isValidItinerary({ ...itinerary, stops: [null] })).toBe(false);
+    });
+});
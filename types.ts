@@ -0,0 +1,113 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// The data model shared by the app and its logic modules.
+
+export interface TimeRange { start: string; end: string; }
+
+// Each weekday ("Mon" ... "Sun") maps to its own time ranges; days without happy hours are omitted.
+export type WeeklySchedule = { [day: string]: TimeRange[] };
+
+export const DAY_CODES = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+export const WEEKDAY_CODES = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri'];
+
+export interface Coordinates { lat: number; lng: number; }
+
+export const DEAL_CATEGORIES = ['beer', 'wine', 'well', 'cocktail', 'food'] as const;
+export type DealCategory = typeof DEAL_CATEGORIES[number];
+
+// One priced item on a happy hour menu, e.g. a $3 draft beer that's normally $6. Prices are in dollars.
+export interface DealItem {
+  category: DealCategory;
+  description: string;
+  regularPrice?: number;
+  happyHourPrice: number;
+}
+
+// A happy hour that happens once, on a specific Key West date ("YYYY-MM-DD"), e.g. a Fantasy Fest special.
+export interface OneOffEvent { date: string; start: string; end: string; label?: string; }
+
+export interface HappyHour {
+  id: number;
+  name: string;
+  address: string;
+  schedule: WeeklySchedule;
+  specials: string;
+  hasFood: boolean;
+  rating: number;
+  isFavorite: boolean;
+  isArchived: boolean;
+  // User-defined labels such as "live music" or "waterfront", stored lowercase
+  tags: string[];
+  coordinates?: Coordinates;
+  // Optional season bounds (inclusive, "YYYY-MM-DD") for the weekly schedule
+  startDate?: string;
+  endDate?: string;
+  // Dates on which the weekly schedule doesn't run
+  blackoutDates?: string[];
+  events?: OneOffEvent[];
+  // Optional priced deal items, alongside the free-text specials
+  deals?: DealItem[];
+  // When the synced fields (all but the ID, isFavorite and isArchived) last changed, as an ISO timestamp.
+  // Missing on entries that haven't changed since before sync existed.
+  updatedAt?: string;
+}
+
+export const SORT_ORDERS = ['alphabetic', 'rating', 'distance', 'best', 'cheapestDrink'] as const;
+export type SortOrder = typeof SORT_ORDERS[number];
+
+// The list's on/off filters
+export const FILTER_FLAGS = ['activeNow', 'activeWithin30Mins', 'hasFood', 'isFavorite', 'walkable', 'notVisitedLately'] as const;
+export type FilterFlag = typeof FILTER_FLAGS[number];
+
+export type HappyHourStatus = {
+    status: 'active' | 'upcoming' | 'ended';
+    minutesUntilStart?: number;
+    minutesUntilEnd?: number;
+    // When 'ended' for today, the start of the next occurrence within the coming week (if any)
+    nextStart?: Date;
+};
+
+/** One check-in at a venue. */
+export interface Visit {
+    id: number;
+    happyHourId: number;
+    // The Key West date of the visit ("YYYY-MM-DD")
+    date: string;
+    // Personal rating for this visit (1-5), if given
+    rating?: number;
+    // What was ordered, as free text
+    ordered?: string;
+    notes?: string;
+}
+
+/** A stop on a bar crawl: which venue, and how long to stay. */
+export interface CrawlStop {
+    happyHourId: number;
+    stayMinutes: number;
+}
+
+export interface Itinerary {
+    id: number;
+    name: string;
+    // The Key West date, start and end time of the crawl; an end at or before the start is the next morning
+    date: string;
+    start: string;
+    end: string;
+    stops: CrawlStop[];
+}
+
+/** A crawl stop with its times worked out. */
+export interface ScheduledStop {
+    hh: HappyHour;
+    walkMinutes: number;
+    // When you get there, when the stop begins (after any wait for the happy hour to start) and when you leave
+    arrive: Date;
+    begin: Date;
+    leave: Date;
+    // When the happy hour ends, if it's running for the stop
+    windowEnd?: Date;
+    warning?: string;
+}
@@ -0,0 +1,418 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// Validating schedules and imported records. Shared by the add/edit form, imports (including share links)
+// and the stored-data loader, so every path into the app agrees on what a valid schedule is and
+// getHappyHourStatus never sees anything else.
+
+import { addCalendarDays, formatDateKey, parseDateKey } from './schedule.ts';
+import { type Coordinates, DAY_CODES, DEAL_CATEGORIES, type DealItem, type HappyHour, type Itinerary, type OneOffEvent, type TimeRange, type WeeklySchedule } from './types.ts';
+
+/** A time range as entered or imported, before it's known to be valid. */
+export interface RawTimeRange { start?: unknown; end?: unknown; }
+
+/** A one-off event as entered or imported, before it's known to be valid. */
+export interface RawEvent extends RawTimeRange { date?: unknown; }
+
+/**
+ * Checks whether a string is a valid 24-hour "HH:MM" time.
+ * @param value The string to check.
+ */
+export function isValidTimeString(value: unknown): value is string {
+    return typeof value === 'string' && /^([01]\d|2[0-3]):[0-5]\d$/.test(value);
+}
+
+/**
+ * Checks whether a string is a valid "YYYY-MM-DD" calendar date.
+ * @param value The string to check.
+ */
+export function isValidDateString(value: unknown): value is string {
+    if (typeof value !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(value)) return false;
+    const [year, month, day] = value.split('-').map(Number);
+    const d = new Date(Date.UTC(year, month - 1, day));
+    return d.getUTCFullYear() === year && d.getUTCMonth() === month - 1 && d.getUTCDate() === day;
+}
+
+/**
+ * Builds the key used to match duplicates venues that are the same place, e.g. between imported and existing entries.
+ * @param hh The happy hour (or imported record).
+ */
+export function getDuplicateKey(hh: { name: string; address: string }): string {
+    return `${hh.name.trim().toLowerCase()}|${hh.address.trim().toLowerCase()}`;
+}
+
+/**
+ * Returns the value if it's an object, or an empty one otherwise, so its fields can be read as unknown.
+ * @param value The value to read.
+ */
+function asRecord(value: unknown): Record<string, unknown> {
+    return value !== null && typeof value === 'object' ? value as Record<string, unknown> : {};
+}
+
+function isBlank(value: unknown): boolean {
+    return value === undefined || value === null || value === '';
+}
+
+/**
+ * Checks a single time range on its own. A range that ends before it starts runs past midnight;
+ * one that starts and ends at the same time is rejected rather than read as lasting 24 hours.
+ * @param range The range to check.
+ * @returns The problem with it, or null if it's valid.
+ */
+function validateTimeRange(range: RawTimeRange): string | null {
+    if (isBlank(range.start) && isBlank(range.end)) return 'Enter a start and end time.';
+    if (isBlank(range.start)) return 'Enter a start time.';
+    if (isBlank(range.end)) return 'Enter an end time.';
+    if (!isValidTimeString(range.start) || !isValidTimeString(range.end)) {
+        return `"${range.start}-${range.end}" is not a valid time range (expected HH:MM-HH:MM).`;
+    }
+    if (range.start === range.end) {
+        return `Starts and ends at ${range.start}. A range past midnight should end at closing time, e.g. 22:00-02:00.`;
+    }
+    return null;
+}
+
+/**
+ * Returns when a valid range starts and ends, in minutes after the midnight it starts from.
+ * @param range The range.
+ */
+function getRangeSpan(range: TimeRange): { start: number; end: number } {
+    const toMinutes = (time: string) => parseInt(time.slice(0, 2), 10) * 60 + parseInt(time.slice(3), 10);
+    const start = toMinutes(range.start);
+    const end = toMinutes(range.end);
+    return { start, end: end < start ? end + 24 * 60 : end };
+}
+
+/**
+ * Checks one day's time ranges: each on its own, then for overlaps, including with the part of the day
+ * before's overnight ranges that runs past midnight. A range that overlaps an earlier one is the one
+ * flagged. Ranges that merely touch (16:00-18:00 and 18:00-20:00) are fine.
+ * @param ranges The day's ranges, in order.
+ * @param previousDayRanges The day before's valid ranges.
+ * @returns One entry per range: its problem, or null if it's valid.
+ */
+export function validateDayRanges(ranges: RawTimeRange[], previousDayRanges: TimeRange[] = []): (string | null)[] {
+    const errors = ranges.map(validateTimeRange);
+    const spans = ranges.map((range, i) => errors[i] ? null : getRangeSpan(range as TimeRange));
+    // Minutes after this day's midnight that the day before's ranges still run to; 0 for those ending by midnight.
+    const spillovers = previousDayRanges.map(range => getRangeSpan(range).end - 24 * 60);
+    spans.forEach((span, i) => {
+        if (!span) return;
+        const earlier = spans.findIndex((other, j) => j < i && other && other.start < span.end && span.start < other.end);
+        const spillover = spillovers.findIndex(end => span.start < end);
+        if (earlier > -1) errors[i] = `Overlaps ${ranges[earlier].start}-${ranges[earlier].end}.`;
+        else if (spillover > -1) errors[i] = `Overlaps ${previousDayRanges[spillover].start}-${previousDayRanges[spillover].end} from the day before.`;
+    });
+    return errors;
+}
+
+/**
+ * Checks a weekly schedule day by day, with each day's ranges also checked against the day before's
+ * overnight ranges (Sunday's run into Monday).
+ * @param schedule Each day's ranges, in order.
+ * @returns Each day's errors, one entry per range: its problem, or null if it's valid.
+ */
+export function validateSchedule(schedule: { [day: string]: RawTimeRange[] }): { [day: string]: (string | null)[] } {
+    // Only ranges that are valid on their own day can clash with the next day.
+    const validOnTheirOwn = new Map(Object.entries(schedule).map(([day, ranges]) => {
+        const errors = validateDayRanges(ranges);
+        return [day, ranges.filter((_, i) => !errors[i]) as TimeRange[]];
+    }));
+    return Object.fromEntries(Object.entries(schedule).map(([day, ranges]) => {
+        const previousDay = DAY_CODES[(DAY_CODES.indexOf(day) + DAY_CODES.length - 1) % DAY_CODES.length];
+        return [day, validateDayRanges(ranges, validOnTheirOwn.get(previousDay))];
+    }));
+}
+
+/**
+ * Checks a list of one-off events: each needs a valid date and time range, and events on the same
+ * date mustn't overlap each other or an overnight event from the date before.
+ * @param events The events, in order.
+ * @returns One entry per event: its problem, or null if it's valid.
+ */
+export function validateEvents(events: RawEvent[]): (string | null)[] {
+    const errors = events.map(ev => isBlank(ev.date) ? 'Enter a date.' : isValidDateString(ev.date) ? null : `"${ev.date}" is not a valid date (expected YYYY-MM-DD).`);
+    const byDate: { [date: string]: RawTimeRange[] } = {};
+    const indicesByDate = new Map<string, number[]>();
+    events.forEach((ev, i) => {
+        if (errors[i]) return;
+        const date = ev.date as string;
+        byDate[date] = [...(byDate[date] ?? []), ev];
+        indicesByDate.set(date, [...(indicesByDate.get(date) ?? []), i]);
+    });
+    const validOnTheirOwn = new Map(Object.entries(byDate).map(([date, ranges]) => {
+        const dateErrors = validateDayRanges(ranges);
+        return [date, ranges.filter((_, k) => !dateErrors[k]) as TimeRange[]];
+    }));
+    indicesByDate.forEach((indices, date) => {
+        const previousDate = formatDateKey(addCalendarDays(parseDateKey(date), -1));
+        validateDayRanges(byDate[date], validOnTheirOwn.get(previousDate)).forEach((error, k) => { errors[indices[k]] = error; });
+    });
+    return errors;
+}
+
+/**
+ * Removes time ranges and one-off events that fail validation from a stored happy hour, along with
+ * any day left without ranges. Data saved before these checks existed may hold such ranges, and
+ * getHappyHourStatus would misread them (a range that starts and ends at the same time as 24 hours).
+ * @param hh The happy hour, changed in place.
+ * @returns How many ranges and events were removed.
+ */
+export function dropInvalidRanges(hh: HappyHour): number {
+    let dropped = 0;
+    const stored = Object.entries(hh.schedule ?? {});
+    const ranges: { [day: string]: TimeRange[] } = Object.fromEntries(stored.map(([day, dayRanges]) =>
+        [day, Array.isArray(dayRanges) ? dayRanges.filter(range => range && typeof range === 'object') : []]));
+    const errors = validateSchedule(ranges);
+    stored.forEach(([day, dayRanges]) => {
+        const valid = ranges[day].filter((_, i) => !errors[day][i]);
+        dropped += (Array.isArray(dayRanges) ? dayRanges.length : 1) - valid.length;
+        if (valid.length > 0) hh.schedule[day] = valid;
+        else delete hh.schedule[day];
+    });
+    if (Array.isArray(hh.events) && hh.events.length > 0) {
+        const events = hh.events.filter(ev => ev && typeof ev === 'object');
+        const errors = validateEvents(events);
+        const valid = events.filter((_, i) => !errors[i]);
+        dropped += hh.events.length - valid.length;
+        hh.events = valid;
+    }
+    return dropped;
+}
+
+/**
+ * Finds another venue with the same name and address (ignoring case and surrounding spaces).
+ * @param venue The venue to look for.
+ * @param list The venues to search.
+ * @param exceptId The ID of the venue itself, when it's already in the list.
+ */
+export function findDuplicateVenue(venue: { name: string; address: string }, list: HappyHour[], exceptId?: number): HappyHour | undefined {
+    return list.find(hh => hh.id !== exceptId && getDuplicateKey(hh) === getDuplicateKey(venue));
+}
+
+/**
+ * Normalizes a tag for storage and comparison: trimmed, lowercase, single-spaced, without a leading "#".
+ * @param tag The raw tag text.
+ */
+export function normalizeTag(tag: string): string {
+    return tag.trim().replace(/^#+/, '').replace(/\s+/g, ' ').toLowerCase();
+}
+
+export type ImportedHappyHour = Omit<HappyHour, 'id'>;
+
+export interface ImportRowResult {
+    row: number;
+    // The ID the record was exported with, if it has one
+    id?: number;
+    record?: ImportedHappyHour;
+    errors: string[];
+}
+
+/**
+ * Interprets common boolean spellings found in JSON and spreadsheets.
+ * @param value The raw value.
+ * @returns The boolean, or undefined if the value isn't recognisable.
+ */
+export function parseBooleanField(value: unknown): boolean | undefined {
+    if (typeof value === 'boolean') return value;
+    if (value === undefined || value === null || value === '') return false;
+    const normalized = String(value).trim().toLowerCase();
+    if (['true', 'yes', 'y', '1'].includes(normalized)) return true;
+    if (['false', 'no', 'n', '0'].includes(normalized)) return false;
+    return undefined;
+}
+
+/**
+ * Validates one imported record against the HappyHour/TimeRange shape.
+ * @param raw The record as parsed from JSON or CSV.
+ * @param row The 1-based row number, used in the error report.
+ * @returns The cleaned record if valid, along with any errors found.
+ */
+export function validateImportedRecord(raw: unknown, row: number): ImportRowResult {
+    const errors: string[] = [];
+    if (!raw || typeof raw !== 'object') {
+        return { row, errors: ['Not a happy hour record.'] };
+    }
+    const data = raw as Record<string, unknown>;
+
+    const name = typeof data.name === 'string' ? data.name.trim() : '';
+    const address = typeof data.address === 'string' ? data.address.trim() : '';
+    const specials = typeof data.specials === 'string' ? data.specials.trim() : '';
+    if (!name) errors.push('Missing name.');
+    if (!address) errors.push('Missing address.');
+    if (!specials) errors.push('Missing specials.');
+
+    // Accept the per-day schedule, or the legacy shared days/timeRanges pair from older exports.
+    const schedule: WeeklySchedule = {};
+    const scheduleInput = data.schedule !== undefined
+        ? data.schedule
+        : Array.isArray(data.days) ? Object.fromEntries(data.days.map(day => [day, data.timeRanges])) : undefined;
+    if (scheduleInput === undefined) {
+        // Event-only entries may have no weekly schedule; checked below.
+    } else if (!scheduleInput || typeof scheduleInput !== 'object' || Array.isArray(scheduleInput)) {
+        errors.push('The schedule must map day codes to time ranges.');
+    } else {
+        const rawSchedule: { [day: string]: RawTimeRange[] } = {};
+        Object.entries(scheduleInput as Record<string, unknown>).forEach(([day, ranges]) => {
+            if (!DAY_CODES.includes(day)) {
+                errors.push(`Unknown day code "${day}".`);
+                return;
+            }
+            if (!Array.isArray(ranges) || ranges.length === 0) {
+                errors.push(`${day} has no time ranges.`);
+                return;
+            }
+            rawSchedule[day] = ranges.map(asRecord);
+        });
+        const scheduleErrors = validateSchedule(rawSchedule);
+        Object.entries(rawSchedule).forEach(([day, rawRanges]) => {
+            const validRanges: TimeRange[] = [];
+            scheduleErrors[day].forEach((error, i) => {
+                if (error) errors.push(`${day}: ${error}`);
+                else validRanges.push({ start: rawRanges[i].start as string, end: rawRanges[i].end as string });
+            });
+            schedule[day] = validRanges;
+        });
+    }
+
+    // Optional season bounds, blackout dates and one-off events.
+    const dateFields: Partial<Pick<HappyHour, 'startDate' | 'endDate' | 'blackoutDates' | 'events'>> = {};
+    (['startDate', 'endDate'] as const).forEach(field => {
+        if (data[field] === undefined || data[field] === null || data[field] === '') return;
+        if (isValidDateString(data[field])) {
+            dateFields[field] = data[field] as string;
+        } else {
+            errors.push(`${field} "${data[field]}" is not a valid YYYY-MM-DD date.`);
+        }
+    });
+    if (dateFields.startDate && dateFields.endDate && dateFields.startDate > dateFields.endDate) {
+        errors.push('startDate is after endDate.');
+    }
+    if (data.blackoutDates !== undefined && data.blackoutDates !== null) {
+        if (!Array.isArray(data.blackoutDates)) {
+            errors.push('blackoutDates must be a list of dates.');
+        } else {
+            data.blackoutDates.forEach(date => {
+                if (!isValidDateString(date)) errors.push(`Blackout date "${date}" is not a valid YYYY-MM-DD date.`);
+            });
+            dateFields.blackoutDates = data.blackoutDates.filter(isValidDateString);
+        }
+    }
+    if (data.events !== undefined && data.events !== null) {
+        if (!Array.isArray(data.events)) {
+            errors.push('events must be a list.');
+        } else {
+            dateFields.events = [];
+            const rawEvents = data.events.map(asRecord);
+            const eventErrors = validateEvents(rawEvents);
+            rawEvents.forEach((ev, i) => {
+                if (eventErrors[i]) {
+                    errors.push(`One-off event ${i + 1} (${ev.date ?? 'no date'}): ${eventErrors[i]}`);
+                    return;
+                }
+                const event: OneOffEvent = { date: ev.date as string, start: ev.start as string, end: ev.end as string };
+                const label = typeof ev.label === 'string' ? ev.label.trim() : '';
+                dateFields.events!.push(label ? { ...event, label } : event);
+            });
+        }
+    }
+    if (Object.keys(schedule).length === 0 && !dateFields.events?.length) {
+        errors.push('At least one day or one-off event is required.');
+    }
+
+    const rating = Number(data.rating);
+    if (!Number.isInteger(rating) || rating < 1 || rating > 5) {
+        errors.push(`Rating "${data.rating ?? ''}" is out of range (must be 1-5).`);
+    }
+
+    const hasFood = parseBooleanField(data.hasFood);
+    const isFavorite = parseBooleanField(data.isFavorite);
+    const isArchived = parseBooleanField(data.isArchived);
+    if (hasFood === undefined) errors.push(`hasFood "${data.hasFood}" is not true or false.`);
+    if (isFavorite === undefined) errors.push(`isFavorite "${data.isFavorite}" is not true or false.`);
+    if (isArchived === undefined) errors.push(`isArchived "${data.isArchived}" is not true or false.`);
+
+    const tags: string[] = [];
+    if (data.tags !== undefined && data.tags !== null) {
+        if (!Array.isArray(data.tags) || data.tags.some(tag => typeof tag !== 'string')) {
+            errors.push('tags must be a list of text labels.');
+        } else {
+            data.tags.map(normalizeTag).forEach(tag => {
+                if (tag && !tags.includes(tag)) tags.push(tag);
+            });
+        }
+    }
+
+    let deals: DealItem[] | undefined;
+    if (data.deals !== undefined && data.deals !== null) {
+        if (!Array.isArray(data.deals)) {
+            errors.push('deals must be a list.');
+        } else {
+            deals = [];
+            data.deals.forEach((value, i) => {
+                const d = asRecord(value);
+                const category = DEAL_CATEGORIES.find(c => c === d.category);
+                const description = typeof d.description === 'string' ? d.description.trim() : '';
+                const happyHourPrice = d.happyHourPrice === '' ? NaN : Number(d.happyHourPrice);
+                const regularPrice = isBlank(d.regularPrice) ? undefined : Number(d.regularPrice);
+                if (!category || !description) {
+                    errors.push(`Deal ${i + 1} needs a category (${DEAL_CATEGORIES.join(', ')}) and a description.`);
+                } else if (isNaN(happyHourPrice) || happyHourPrice < 0 || (regularPrice !== undefined && (isNaN(regularPrice) || regularPrice < 0))) {
+                    errors.push(`Deal ${i + 1} ("${description}") has an invalid price.`);
+                } else {
+                    deals!.push(regularPrice === undefined
+                        ? { category, description, happyHourPrice }
+                        : { category, description, regularPrice, happyHourPrice });
+                }
+            });
+        }
+    }
+
+    let coordinates: Coordinates | undefined;
+    const coords = data.coordinates as Record<string, unknown> | undefined;
+    if (coords !== undefined && coords !== null) {
+        const lat = Number(coords.lat);
+        const lng = Number(coords.lng);
+        if (isNaN(lat) || isNaN(lng) || Math.abs(lat) > 90 || Math.abs(lng) > 180) {
+            errors.push('Coordinates are not a valid latitude/longitude.');
+        } else {
+            coordinates = { lat, lng };
+        }
+    }
+
+    const id = Number.isSafeInteger(data.id) ? data.id as number : undefined;
+    if (errors.length > 0) {
+        return { row, id, errors };
+    }
+    return {
+        row,
+        id,
+        errors,
+        record: { name, address, schedule, specials, hasFood: hasFood!, rating, isFavorite: isFavorite!, isArchived: isArchived!, tags, coordinates, ...dateFields, ...(deals?.length ? { deals } : {}) },
+    };
+}
+
+/**
+ * Checks a crawl stop's length of stay: a positive whole number of minutes.
+ * @param value The value to check.
+ */
+export function isValidStayMinutes(value: unknown): value is number {
+    return typeof value === 'number' && Number.isInteger(value) && value > 0;
+}
+
+/**
+ * Checks the shape of a saved bar crawl, e.g. one read back from localStorage.
+ * @param value The value to check.
+ */
+export function isValidItinerary(value: unknown): value is Itinerary {
+    const itinerary = asRecord(value);
+    return Number.isSafeInteger(itinerary.id) && typeof itinerary.name === 'string'
+        && isValidDateString(itinerary.date) && isValidTimeString(itinerary.start) && isValidTimeString(itinerary.end)
+        && Array.isArray(itinerary.stops)
+        && itinerary.stops.every(value => {
+            const stop = asRecord(value);
+            return Number.isSafeInteger(stop.happyHourId) && isValidStayMinutes(stop.stayMinutes);
+        });
+}